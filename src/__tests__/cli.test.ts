@@ -0,0 +1,173 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isCliCommand, runCli, type CliOutput } from '../cli';
+import { SessionDiscovery } from '../session-discovery';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+
+describe('CLI', () => {
+  let tmpDir: string;
+  let stdout: string;
+  let stderr: string;
+  const output: CliOutput = {
+    stdout: text => {
+      stdout += text;
+    },
+    stderr: text => {
+      stderr += text;
+    },
+  };
+
+  let projectsPathSpy: jest.SpyInstance;
+
+  const entry = (type: string, timestamp: string, rest: object): string =>
+    JSON.stringify({ type, cwd: tmpDir, timestamp, ...rest });
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'cli-test-')));
+    const projectsPath = path.join(tmpDir, '.claude', 'projects');
+    // Claude Code names project directories after the working directory
+    const projectDir = path.join(projectsPath, tmpDir.replace(/[^A-Za-z0-9]/g, '-'));
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(projectDir, 'session-cli.jsonl'),
+      [
+        entry('assistant', '2024-01-01T10:00:00.000Z', {
+          message: {
+            content: [
+              {
+                type: 'tool_use',
+                id: 'toolu_write',
+                name: 'Write',
+                input: { file_path: path.join(tmpDir, 'README.md'), content: '# Hello\n' },
+              },
+            ],
+          },
+        }),
+        entry('user', '2024-01-01T10:00:00.000Z', {
+          message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_write', content: 'created', is_error: false }] },
+          toolUseResult: { type: 'create', filePath: path.join(tmpDir, 'README.md'), content: '# Hello\n' },
+        }),
+        entry('assistant', '2024-01-01T10:01:00.000Z', {
+          message: { content: [{ type: 'tool_use', id: 'toolu_test', name: 'Bash', input: { command: 'npm test' } }] },
+        }),
+        entry('user', '2024-01-01T10:01:30.000Z', {
+          message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_test', content: 'failed', is_error: true }] },
+          toolUseResult: { stdout: '1 test run', stderr: 'Error: expected 1 to be 2', exitCode: 1 },
+        }),
+      ].join('\n')
+    );
+    projectsPathSpy = jest.spyOn(SessionDiscovery.prototype, 'getClaudeProjectsPath').mockReturnValue(projectsPath);
+    _setTestWorkspaceRoot(tmpDir);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    projectsPathSpy.mockRestore();
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should only treat known subcommands as CLI commands', () => {
+    expect(isCliCommand('export-patches')).toBe(true);
+    expect(isCliCommand('report')).toBe(true);
+    expect(isCliCommand('bash-result')).toBe(true);
+    expect(isCliCommand('--http')).toBe(false);
+    expect(isCliCommand(undefined)).toBe(false);
+  });
+
+  it('should print the patches of a session', async () => {
+    const exitCode = await runCli(['export-patches', '--session', 'session-cli'], output);
+
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('diff --git a/README.md b/README.md\nnew file mode 100644');
+  });
+
+  it('should write patch files to the output directory', async () => {
+    const outputDir = path.join(tmpDir, 'patches');
+    const exitCode = await runCli(['export-patches', '--session=session-cli', '--output', outputDir], output);
+
+    expect(exitCode).toBe(0);
+    expect(fs.readdirSync(outputDir)).toEqual(['0001-Write-README.md.patch']);
+    expect(stdout).toBe(`${path.join(outputDir, '0001-Write-README.md.patch')}\n`);
+  });
+
+  it('should write Markdown and HTML session reports', async () => {
+    const outputDir = path.join(tmpDir, 'reports');
+    const exitCode = await runCli(['report', '--session', 'session-cli', '--output', outputDir], output);
+
+    expect(exitCode).toBe(0);
+    expect(fs.readdirSync(outputDir).sort()).toEqual(['session-cli.html', 'session-cli.md']);
+    expect(fs.readFileSync(path.join(outputDir, 'session-cli.md'), 'utf8')).toContain('### `README.md`');
+    expect(fs.readFileSync(path.join(outputDir, 'session-cli.html'), 'utf8')).toContain(
+      '<details><summary>README.md</summary>'
+    );
+  });
+
+  it('should list sessions as a table or JSON', async () => {
+    await expect(runCli(['sessions'], output)).resolves.toBe(0);
+    expect(stdout.split('\n')[0]).toMatch(/^SESSION\s+LAST ACTIVE\s+OPERATIONS\s+BRANCH\s+PROJECT$/);
+    expect(stdout).toMatch(/session-cli\s+2024-01-01T10:01:30.000Z\s+2\s+-\s+/);
+
+    stdout = '';
+    await expect(runCli(['sessions', '--json', '--project', path.basename(tmpDir)], output)).resolves.toBe(0);
+    expect(JSON.parse(stdout).sessions[0].sessionId).toBe('session-cli');
+  });
+
+  it('should show changes, commands and diffs of the session selected by project', async () => {
+    await expect(runCli(['changes', 'README.md', '--project', tmpDir], output)).resolves.toBe(0);
+    expect(stdout).toMatch(/toolu_write\s+2024-01-01T10:00:00.000Z\s+Write\s+create\s+\S*README.md/);
+
+    stdout = '';
+    await expect(runCli(['bash', '--session', 'session-cli'], output)).resolves.toBe(0);
+    expect(stdout).toMatch(/toolu_test\s+2024-01-01T10:01:00.000Z\s+1\s+npm test\s+Error: expected 1 to be 2/);
+
+    stdout = '';
+    await expect(runCli(['bash-result', 'toolu_test', '--session', 'session-cli'], output)).resolves.toBe(0);
+    expect(stdout).toContain('$ npm test\n# exit 1 in ');
+    expect(stdout).toContain('1 test run\n--- stderr ---\nError: expected 1 to be 2\n');
+
+    stdout = '';
+    await expect(runCli(['diff', 'toolu_write', '--session', 'session-cli'], output)).resolves.toBe(0);
+    expect(stdout).toContain('+# Hello');
+
+    stdout = '';
+    await expect(runCli(['diff', 'toolu_write', '--session', 'session-cli', '--json'], output)).resolves.toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ id: 'toolu_write', tool: 'Write' });
+  });
+
+  it('should print session statistics', async () => {
+    await expect(runCli(['stats', '--session', 'session-cli'], output)).resolves.toBe(0);
+    expect(stdout).toMatch(/Lines added\/removed\s+\+1\/-0/);
+    expect(stdout).toMatch(/Bash succeeded\/failed\/pending\s+0\/1\/0/);
+    expect(stdout).toMatch(/Bash\s+1\s+1\s+30000\s+30000/);
+  });
+
+  it('should report usage errors with a non-zero exit code', async () => {
+    await expect(runCli(['export-patches'], output)).resolves.toBe(1);
+    expect(stderr).toBe('Error: --session or --project is required\n');
+
+    stderr = '';
+    await expect(runCli(['changes', '--session', 'session-cli'], output)).resolves.toBe(1);
+    expect(stderr).toBe('Error: Missing argument: <path>\n');
+
+    stderr = '';
+    await expect(runCli(['stats', '--session', 'session-cli', '--project', 'app'], output)).resolves.toBe(1);
+    expect(stderr).toBe('Error: Use either --session or --project, not both\n');
+
+    stderr = '';
+    await expect(runCli(['bash', '--project', 'nothing-here'], output)).resolves.toBe(1);
+    expect(stderr).toBe('Error: No session found for project: nothing-here\n');
+
+    stderr = '';
+    await expect(runCli(['bash', '--session', '../session-cli'], output)).resolves.toBe(1);
+    expect(stderr).toBe('Error: Invalid session ID: ../session-cli\n');
+
+    stderr = '';
+    await expect(runCli(['export-patches', '--session', 'session-cli', '--verbose'], output)).resolves.toBe(1);
+    expect(stderr).toBe('Error: Unknown option: --verbose\n');
+  });
+});
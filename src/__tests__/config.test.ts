@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError, loadConfig, CONFIG_FILE_NAME } from '../config';
+
+describe('loadConfig', () => {
+  let homeDir: string;
+  let workspaceRoot: string;
+
+  const writeConfig = (dir: string, settings: unknown): void => {
+    fs.writeFileSync(path.join(dir, CONFIG_FILE_NAME), JSON.stringify(settings));
+  };
+
+  beforeEach(() => {
+    homeDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'config-home-')));
+    workspaceRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'config-workspace-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(homeDir, { recursive: true, force: true });
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should use the defaults when there is no configuration', () => {
+    expect(loadConfig({ homeDir, workspaceRoot, env: {} })).toEqual({
+      projectsPath: path.join(homeDir, '.claude', 'projects'),
+      maxLimit: 1000,
+      maxFullDiffSize: 1024 * 1024,
+      maxContentSize: 50 * 1024 * 1024,
+      sessionCacheTtlMs: 15 * 60 * 1000,
+      redactSecrets: true,
+      redactionPatterns: [],
+      disabledRedactionRules: [],
+    });
+  });
+
+  it('should merge the user file, the workspace file and the environment in that order', () => {
+    writeConfig(homeDir, { projectsPath: '~/sessions', maxLimit: 200, sessionCacheTtlMs: 1000 });
+    writeConfig(workspaceRoot, { maxLimit: 300, maxFullDiffSize: 4096 });
+
+    const config = loadConfig({ homeDir, workspaceRoot, env: { CLAUDE_OPS_MAX_LIMIT: '400' } });
+
+    expect(config).toMatchObject({
+      projectsPath: path.join(homeDir, 'sessions'),
+      maxLimit: 400,
+      maxFullDiffSize: 4096,
+      sessionCacheTtlMs: 1000,
+    });
+  });
+
+  it('should resolve relative paths against the directory of the config file', () => {
+    writeConfig(workspaceRoot, { projectsPath: 'logs/projects' });
+
+    expect(loadConfig({ homeDir, workspaceRoot, env: {} }).projectsPath).toBe(
+      path.join(workspaceRoot, 'logs', 'projects')
+    );
+  });
+
+  it('should name the offending key in validation errors', () => {
+    writeConfig(workspaceRoot, { maxLimit: -5 });
+
+    expect(() => loadConfig({ homeDir, workspaceRoot, env: {} })).toThrow(
+      `Invalid config in ${path.join(workspaceRoot, CONFIG_FILE_NAME)}: "maxLimit" must be a positive integer`
+    );
+
+    fs.rmSync(path.join(workspaceRoot, CONFIG_FILE_NAME));
+    expect(() => loadConfig({ homeDir, workspaceRoot, env: { CLAUDE_OPS_CACHE_TTL_MS: '10m' } })).toThrow(
+      'Invalid config in environment variable CLAUDE_OPS_CACHE_TTL_MS: "sessionCacheTtlMs" must be a positive integer'
+    );
+  });
+
+  it('should read redaction settings and reject invalid patterns', () => {
+    writeConfig(workspaceRoot, { redactSecrets: false, redactionPatterns: ['corp-[0-9]+'] });
+
+    expect(
+      loadConfig({ homeDir, workspaceRoot, env: { CLAUDE_OPS_DISABLED_REDACTION_RULES: '["high-entropy"]' } })
+    ).toMatchObject({
+      redactSecrets: false,
+      redactionPatterns: ['corp-[0-9]+'],
+      disabledRedactionRules: ['high-entropy'],
+    });
+    expect(() => loadConfig({ homeDir, workspaceRoot, env: { CLAUDE_OPS_REDACTION_PATTERNS: '["(unclosed"]' } })).toThrow(
+      /"redactionPatterns" contains an invalid regular expression/
+    );
+  });
+
+  it('should reject unknown keys and malformed files', () => {
+    writeConfig(homeDir, { maxLimt: 10 });
+    try {
+      loadConfig({ homeDir, workspaceRoot, env: {} });
+      fail('Expected loadConfig to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error).toMatchObject({ key: 'maxLimt', source: path.join(homeDir, CONFIG_FILE_NAME) });
+    }
+
+    fs.writeFileSync(path.join(homeDir, CONFIG_FILE_NAME), '{ maxLimit: 10 }');
+    expect(() => loadConfig({ homeDir, workspaceRoot, env: {} })).toThrow(/^Invalid JSON in config file/);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Claude Code session log entries for tests
+ *
+ * Builds the assistant tool_use and user tool_result entries of session JSONL
+ * files. Entries are plain objects; write them with writeSessionFile or join
+ * them with toJsonl.
+ */
+
+import * as fs from 'fs';
+
+export type SessionEntry = Record<string, unknown>;
+
+/**
+ * Fields shared by every log entry
+ */
+export interface EntryOptions {
+  timestamp?: string;
+  uuid?: string;
+  parentUuid?: string | null;
+  cwd?: string;
+  gitBranch?: string;
+}
+
+export interface ToolResultOptions extends EntryOptions {
+  isError?: boolean;
+
+  /**
+   * Content of the tool_result item. Default: 'ok'
+   */
+  content?: unknown;
+}
+
+export interface ToolUseItem {
+  id: string;
+  name: string;
+  input?: Record<string, unknown>;
+}
+
+const DEFAULT_TIMESTAMP = '2024-01-01T10:00:00.000Z';
+const DEFAULT_RESULT_TIMESTAMP = '2024-01-01T10:00:01.000Z';
+
+function entry(type: string, defaultTimestamp: string, options: EntryOptions, fields: SessionEntry): SessionEntry {
+  return {
+    type,
+    ...(options.uuid !== undefined && { uuid: options.uuid }),
+    ...(options.parentUuid !== undefined && { parentUuid: options.parentUuid }),
+    ...(options.cwd !== undefined && { cwd: options.cwd }),
+    ...(options.gitBranch !== undefined && { gitBranch: options.gitBranch }),
+    timestamp: options.timestamp ?? defaultTimestamp,
+    ...fields,
+  };
+}
+
+/**
+ * Assistant entry calling one or more tools
+ */
+export function toolUses(items: ToolUseItem[], options: EntryOptions = {}): SessionEntry {
+  return entry('assistant', DEFAULT_TIMESTAMP, options, {
+    message: { content: items.map(({ id, name, input }) => ({ type: 'tool_use', id, name, input: input ?? {} })) },
+  });
+}
+
+/**
+ * Assistant entry calling one tool
+ */
+export function toolUse(
+  id: string,
+  name: string,
+  input: Record<string, unknown> = {},
+  options: EntryOptions = {}
+): SessionEntry {
+  return toolUses([{ id, name, input }], options);
+}
+
+/**
+ * User entry answering a tool call
+ * @param toolUseResult - Structured result recorded by Claude Code; omitted when undefined
+ */
+export function toolResult(id: string, toolUseResult?: unknown, options: ToolResultOptions = {}): SessionEntry {
+  return entry('user', DEFAULT_RESULT_TIMESTAMP, options, {
+    message: {
+      content: [{ type: 'tool_result', tool_use_id: id, content: options.content ?? 'ok', is_error: options.isError ?? false }],
+    },
+    ...(toolUseResult !== undefined && { toolUseResult }),
+  });
+}
+
+/**
+ * Assistant and user entries of a tool call and its result
+ */
+export function toolCall(
+  id: string,
+  name: string,
+  input: Record<string, unknown> = {},
+  result: Pick<ToolResultOptions, 'isError' | 'content'> & { toolUseResult?: unknown } = {}
+): SessionEntry[] {
+  const { toolUseResult, ...options } = result;
+  return [toolUse(id, name, input), toolResult(id, toolUseResult, options)];
+}
+
+/**
+ * User entry with a typed prompt
+ */
+export function userPrompt(text: string, options: EntryOptions = {}): SessionEntry {
+  return entry('user', DEFAULT_TIMESTAMP, options, { message: { content: text } });
+}
+
+/**
+ * JSONL content of the entries, one per line
+ */
+export function toJsonl(entries: Array<SessionEntry | string>): string {
+  return entries.map(e => (typeof e === 'string' ? e : JSON.stringify(e))).join('\n');
+}
+
+export function writeSessionFile(sessionFile: string, entries: Array<SessionEntry | string>): void {
+  fs.writeFileSync(sessionFile, toJsonl(entries));
+}
@@ -0,0 +1,98 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { MCPServer } from '../server';
+import { startHttpTransport } from '../transports/http-transport';
+
+describe('Streamable HTTP transport', () => {
+  let server: MCPServer;
+  let url: string;
+  const clients: Client[] = [];
+
+  const connectClient = async (): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(url));
+    // The SDK transport type predates exactOptionalPropertyTypes
+    await client.connect(transport as Transport);
+    clients.push(client);
+    return { client, transport };
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    server = new MCPServer();
+    await server.start({ transport: 'http', http: { port: 0 } });
+    url = server.getHttpUrl()!;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close();
+    }
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should listen on localhost', () => {
+    expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it('should serve the same tool set as stdio', async () => {
+    const { client } = await connectClient();
+
+    const result = await client.listTools();
+    const names = result.tools.map(tool => tool.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining([
+        'listFileChanges',
+        'listBashHistory',
+        'showBashResult',
+        'showOperationDiff',
+      ])
+    );
+  });
+
+  it('should assign a distinct session ID to each client', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(second.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+
+    // Both sessions stay usable independently
+    await expect(first.client.listPrompts()).resolves.toBeDefined();
+    await expect(second.client.listResourceTemplates()).resolves.toBeDefined();
+  });
+
+  it('should reject requests without a session that are not initialize requests', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject unknown session IDs', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'does-not-exist',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should refuse to bind to a non-loopback host', async () => {
+    await expect(
+      startHttpTransport(() => server.getServer(), { host: '0.0.0.0', port: 0 })
+    ).rejects.toThrow('must bind to localhost');
+  });
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { MCPServer } from '../server';
+import { UIDManager } from '../uid-manager';
+import { DEFAULT_REDACTION_RULES, redactText } from '../redaction';
+
+describe('MCPServer pagination', () => {
+  let tmpDir: string;
+  let server: MCPServer;
+  let client: Client;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'server-pagination-test-')));
+    const sessionFile = path.join(tmpDir, 'session-pages.jsonl');
+    const lines = ['01', '02', '03'].flatMap(n => {
+      const id = `toolu_01PaginationTestCall${n}`;
+      const timestamp = `2024-01-01T10:00:${n}.000Z`;
+      return [
+        JSON.stringify({
+          type: 'assistant',
+          timestamp,
+          message: { content: [{ type: 'tool_use', id, name: 'Bash', input: { command: `echo ${n}` } }] },
+        }),
+        JSON.stringify({
+          type: 'user',
+          timestamp,
+          message: { content: [{ type: 'tool_result', tool_use_id: id, content: n, is_error: false }] },
+          toolUseResult: { stdout: n, stderr: '', exitCode: 0 },
+        }),
+      ];
+    });
+    fs.writeFileSync(sessionFile, lines.join('\n'));
+    UIDManager.setCachedSessionFile(sessionFile);
+
+    server = new MCPServer();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.getServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should page through a tool with redaction enabled', async () => {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await client.callTool({
+        name: 'listBashHistory',
+        arguments: { limit: 1, ...(cursor && { cursor }) },
+      });
+      const [content] = result.content as Array<{ type: string; text: string }>;
+      const page = JSON.parse(content?.text ?? '{}') as { commands: Array<{ id: string }>; nextCursor?: string };
+
+      ids.push(...page.commands.map(command => command.id));
+      cursor = page.nextCursor;
+      if (cursor) {
+        // The cursor would be masked if it were not exempt
+        expect(redactText(cursor, DEFAULT_REDACTION_RULES).redactedCount).toBe(1);
+      }
+    } while (cursor);
+
+    expect(ids).toEqual(['toolu_01PaginationTestCall03', 'toolu_01PaginationTestCall02', 'toolu_01PaginationTestCall01']);
+  });
+});
@@ -14,6 +14,11 @@ jest.mock('@modelcontextprotocol/sdk/server/stdio', () => ({
 jest.mock('@modelcontextprotocol/sdk/types', () => ({
   CallToolRequestSchema: 'CallToolRequestSchema',
   ListToolsRequestSchema: 'ListToolsRequestSchema',
+  ListResourcesRequestSchema: 'ListResourcesRequestSchema',
+  ListResourceTemplatesRequestSchema: 'ListResourceTemplatesRequestSchema',
+  ReadResourceRequestSchema: 'ReadResourceRequestSchema',
+  ListPromptsRequestSchema: 'ListPromptsRequestSchema',
+  GetPromptRequestSchema: 'GetPromptRequestSchema',
   McpError: class MockMcpError extends Error {
     constructor(code: string, message: string) {
       super(message);
@@ -71,6 +76,32 @@ describe('MCPServer', () => {
     });
   });
 
+  describe('request handlers', () => {
+    it('should register resource handlers', () => {
+      const server = new MCPServer();
+      const setRequestHandler = server.getServer().setRequestHandler as jest.Mock;
+      const schemas = setRequestHandler.mock.calls.map(call => call[0]);
+
+      expect(schemas).toEqual(
+        expect.arrayContaining([
+          'ListResourcesRequestSchema',
+          'ListResourceTemplatesRequestSchema',
+          'ReadResourceRequestSchema',
+        ])
+      );
+    });
+
+    it('should register prompt handlers', () => {
+      const server = new MCPServer();
+      const setRequestHandler = server.getServer().setRequestHandler as jest.Mock;
+      const schemas = setRequestHandler.mock.calls.map(call => call[0]);
+
+      expect(schemas).toEqual(
+        expect.arrayContaining(['ListPromptsRequestSchema', 'GetPromptRequestSchema'])
+      );
+    });
+  });
+
   describe('initialization response', () => {
     it('should handle initialization request properly', async () => {
       const server = new MCPServer();
@@ -4,11 +4,13 @@ import * as fsSync from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as readline from 'readline';
+import { getConfig } from '../config';
 
 jest.mock('fs/promises');
 jest.mock('fs');
 jest.mock('readline');
 jest.mock('os');
+jest.mock('../config');
 
 describe('SessionDiscovery', () => {
   const mockHomedir = '/Users/testuser';
@@ -19,6 +21,10 @@ describe('SessionDiscovery', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (os.homedir as jest.Mock).mockReturnValue(mockHomedir);
+    (getConfig as jest.Mock).mockReturnValue({
+      projectsPath: path.join(mockHomedir, '.claude', 'projects'),
+      sessionCacheTtlMs: 15 * 60 * 1000,
+    });
 
     // Mock readline interface
     const mockRl = {
@@ -193,6 +199,91 @@ describe('SessionDiscovery', () => {
     });
   });
 
+  describe('findSessionById', () => {
+    const projectDirent = (name: string): Record<string, unknown> => ({
+      name,
+      isDirectory: (): boolean => true,
+      isFile: (): boolean => false,
+    });
+
+    it('should locate the session file across project directories', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValueOnce([
+        projectDirent('other-project'),
+        projectDirent(mockProjectHash),
+      ]);
+      (fs.access as jest.Mock)
+        .mockRejectedValueOnce(new Error('ENOENT'))
+        .mockResolvedValueOnce(undefined);
+
+      const discovery = new SessionDiscovery();
+      const result = await discovery.findSessionById(mockSessionId);
+
+      expect(result).toEqual({
+        sessionFile: path.join(mockHomedir, '.claude', 'projects', mockProjectHash, `${mockSessionId}.jsonl`),
+        projectHash: mockProjectHash,
+        sessionId: mockSessionId,
+      });
+    });
+
+    it('should return null when no project contains the session', async () => {
+      (fs.readdir as jest.Mock).mockResolvedValueOnce([projectDirent(mockProjectHash)]);
+      (fs.access as jest.Mock).mockRejectedValueOnce(new Error('ENOENT'));
+
+      const discovery = new SessionDiscovery();
+      const result = await discovery.findSessionById('missing-session');
+
+      expect(result).toBeNull();
+    });
+
+    it('should not look up IDs that could escape the projects directory', async () => {
+      const discovery = new SessionDiscovery();
+
+      await expect(discovery.findSessionById('../other-project/session')).resolves.toBeNull();
+      await expect(discovery.findSessionById('..\\session')).resolves.toBeNull();
+      expect(fs.readdir).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listSessionFiles', () => {
+    const dirent = (name: string, isDirectory: boolean): Record<string, unknown> => ({
+      name,
+      isDirectory: (): boolean => isDirectory,
+      isFile: (): boolean => !isDirectory,
+    });
+
+    it('should list every session file across project directories', async () => {
+      (fs.readdir as jest.Mock)
+        .mockResolvedValueOnce([dirent('project-a', true), dirent('stray.jsonl', false), dirent('project-b', true)])
+        .mockResolvedValueOnce([dirent('session-1.jsonl', false), dirent('notes.txt', false)])
+        .mockResolvedValueOnce([dirent('session-2.jsonl', false), dirent('nested', true)]);
+
+      const discovery = new SessionDiscovery();
+      const sessions = await discovery.listSessionFiles();
+
+      const projectsPath = path.join(mockHomedir, '.claude', 'projects');
+      expect(sessions).toEqual([
+        {
+          sessionFile: path.join(projectsPath, 'project-a', 'session-1.jsonl'),
+          projectHash: 'project-a',
+          sessionId: 'session-1',
+        },
+        {
+          sessionFile: path.join(projectsPath, 'project-b', 'session-2.jsonl'),
+          projectHash: 'project-b',
+          sessionId: 'session-2',
+        },
+      ]);
+    });
+
+    it('should return an empty list when the projects directory is missing', async () => {
+      (fs.readdir as jest.Mock).mockRejectedValueOnce(new Error('ENOENT'));
+
+      const discovery = new SessionDiscovery();
+
+      await expect(discovery.listSessionFiles()).resolves.toEqual([]);
+    });
+  });
+
   describe('getClaudeProjectsPath', () => {
     it('should return the correct path to Claude projects directory', () => {
       const discovery = new SessionDiscovery();
@@ -0,0 +1,495 @@
+/**
+ * Command-line subcommands of the claude-ops-mcp binary
+ *
+ * Without a subcommand the binary starts the MCP server (see index.ts).
+ * Subcommands work on a session chosen with `--session <id>` or
+ * `--project <path>` (its most recently active session) and reuse the MCP
+ * tool handlers.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  handleExportPatches,
+  type ExportPatchesParams,
+  type PatchFormat,
+  type PatchMode,
+} from './handlers/export-patches';
+import {
+  buildSessionReport,
+  renderHtmlReport,
+  renderMarkdownReport,
+  type ReportFormat,
+  type SessionReport,
+} from './handlers/generate-session-report';
+import { handleListSessions } from './handlers/list-sessions';
+import { handleListFileChanges } from './handlers/list-file-changes';
+import { handleListBashHistory, handleShowBashResult } from './handlers/list-bash-history';
+import { handleShowOperationDiff } from './handlers/show-operation-diff';
+import { handleGetSessionStats } from './handlers/get-session-stats';
+import { resolveSessionFileById } from './utils/session-utils';
+import { UIDManager } from './uid-manager';
+
+/**
+ * Streams the CLI writes to
+ */
+export interface CliOutput {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+type CliCommand = (args: string[], output: CliOutput) => Promise<void>;
+
+/**
+ * Arguments accepted by a subcommand
+ */
+interface ArgumentSpec {
+  /** Options taking a value */
+  options?: readonly string[];
+  /** Options without a value */
+  flags?: readonly string[];
+  /** Names of required positional arguments, in order */
+  positionals?: readonly string[];
+}
+
+interface ParsedArguments {
+  options: Map<string, string>;
+  flags: Set<string>;
+  positionals: string[];
+}
+
+const defaultOutput: CliOutput = {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+const SESSION_OPTIONS = ['session', 'project'] as const;
+const MAX_CELL_LENGTH = 60;
+
+/**
+ * Parses `--name value` and `--name=value` options, `--flag` flags and
+ * positional arguments
+ * @throws Error for unknown options, missing values and missing or extra positional arguments
+ */
+function parseArguments(args: string[], spec: ArgumentSpec): ParsedArguments {
+  const { options: names = [], flags: flagNames = [], positionals: positionalNames = [] } = spec;
+  const options = new Map<string, string>();
+  const flags = new Set<string>();
+  const positionals: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i] ?? '';
+    if (!arg.startsWith('--')) {
+      if (positionals.length >= positionalNames.length) {
+        throw new Error(`Unexpected argument: ${arg}`);
+      }
+      positionals.push(arg);
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+    if (flagNames.includes(name) && separator === -1) {
+      flags.add(name);
+      continue;
+    }
+    if (!names.includes(name)) {
+      throw new Error(`Unknown option: --${name}`);
+    }
+
+    const value = separator === -1 ? args[++i] : arg.slice(separator + 1);
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    options.set(name, value);
+  }
+
+  const missing = positionalNames[positionals.length];
+  if (missing !== undefined) {
+    throw new Error(`Missing argument: <${missing}>`);
+  }
+
+  return { options, flags, positionals };
+}
+
+/**
+ * Parses a non-negative integer option
+ */
+function parseCount(options: Map<string, string>, name: string): number | undefined {
+  const value = options.get(name);
+  if (value !== undefined && !/^\d+$/.test(value)) {
+    throw new Error(`--${name} must be a non-negative integer`);
+  }
+  return value !== undefined ? Number(value) : undefined;
+}
+
+/**
+ * Resolves `--session` or `--project` to a session ID and makes its file
+ * the current session of the handlers
+ * @throws Error if neither or both are given, or no session matches
+ */
+async function selectSession(options: Map<string, string>): Promise<string> {
+  const sessionId = options.get('session');
+  const project = options.get('project');
+  if (sessionId !== undefined && project !== undefined) {
+    throw new Error('Use either --session or --project, not both');
+  }
+
+  let selected = sessionId;
+  if (project !== undefined) {
+    selected = (await handleListSessions({ project, limit: 1 })).sessions[0]?.sessionId;
+    if (!selected) {
+      throw new Error(`No session found for project: ${project}`);
+    }
+  }
+  if (!selected) {
+    throw new Error('--session or --project is required');
+  }
+
+  UIDManager.setCachedSessionFile(await resolveSessionFileById(selected));
+  return selected;
+}
+
+function truncateCell(text: string): string {
+  const line = text.replace(/\s*\n\s*/g, ' ');
+  return line.length > MAX_CELL_LENGTH ? `${line.slice(0, MAX_CELL_LENGTH - 3)}...` : line;
+}
+
+/**
+ * Formats rows as a plain-text table with a header line
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+  const cells = [headers, ...rows.map(row => row.map(truncateCell))];
+  const widths = headers.map((_, column) => Math.max(...cells.map(row => (row[column] ?? '').length)));
+  return cells
+    .map(row => `${row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  ').trimEnd()}\n`)
+    .join('');
+}
+
+function withNewline(text: string): string {
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+function writeJson(output: CliOutput, value: unknown): void {
+  output.stdout(`${JSON.stringify(value, null, 2)}\n`);
+}
+
+function writeMore(output: CliOutput, shown: number, totalCount: number): void {
+  if (totalCount > shown) {
+    output.stdout(`(${shown} of ${totalCount} shown; use --limit to see more)\n`);
+  }
+}
+
+/**
+ * sessions [--project <path>] [--limit <n>] [--json]
+ */
+async function sessions(args: string[], output: CliOutput): Promise<void> {
+  const { options, flags } = parseArguments(args, { options: ['project', 'limit'], flags: ['json'] });
+  const project = options.get('project');
+  const limit = parseCount(options, 'limit');
+  const result = await handleListSessions({
+    ...(project !== undefined && { project }),
+    ...(limit !== undefined && { limit }),
+  });
+
+  if (flags.has('json')) {
+    writeJson(output, result);
+    return;
+  }
+  output.stdout(
+    formatTable(
+      ['SESSION', 'LAST ACTIVE', 'OPERATIONS', 'BRANCH', 'PROJECT'],
+      result.sessions.map(session => [
+        session.sessionId,
+        session.lastTimestamp ?? '-',
+        String(session.totalOperations),
+        session.gitBranch ?? '-',
+        session.projectPath,
+      ])
+    )
+  );
+  writeMore(output, result.sessions.length, result.totalCount);
+}
+
+/**
+ * changes <path> (--session <id> | --project <path>) [--limit <n>] [--json]
+ */
+async function changes(args: string[], output: CliOutput): Promise<void> {
+  const { options, flags, positionals } = parseArguments(args, {
+    options: [...SESSION_OPTIONS, 'limit'],
+    flags: ['json'],
+    positionals: ['path'],
+  });
+  const limit = parseCount(options, 'limit');
+  await selectSession(options);
+  const result = await handleListFileChanges({
+    filePath: positionals[0] ?? '',
+    ...(limit !== undefined && { limit }),
+  });
+
+  if (flags.has('json')) {
+    writeJson(output, result);
+    return;
+  }
+  output.stdout(
+    formatTable(
+      ['ID', 'TIME', 'TOOL', 'CHANGE', 'FILE'],
+      result.operations.map(op => [
+        op.id,
+        op.timestamp,
+        op.inferred ? `${op.tool} (inferred)` : op.tool,
+        op.changeType,
+        op.filePath ?? '',
+      ])
+    )
+  );
+  writeMore(output, result.operations.length, result.totalCount);
+}
+
+/**
+ * bash (--session <id> | --project <path>) [--limit <n>] [--json]
+ */
+async function bash(args: string[], output: CliOutput): Promise<void> {
+  const { options, flags } = parseArguments(args, { options: [...SESSION_OPTIONS, 'limit'], flags: ['json'] });
+  const limit = parseCount(options, 'limit');
+  await selectSession(options);
+  const result = await handleListBashHistory({ ...(limit !== undefined && { limit }) });
+
+  if (flags.has('json')) {
+    writeJson(output, result);
+    return;
+  }
+  output.stdout(
+    formatTable(
+      ['ID', 'TIME', 'EXIT', 'COMMAND', 'SUMMARY'],
+      result.commands.map(command => [
+        command.id,
+        command.timestamp,
+        command.exitCode !== undefined ? String(command.exitCode) : '-',
+        command.command,
+        command.summary,
+      ])
+    )
+  );
+  writeMore(output, result.commands.length, result.totalCount);
+}
+
+/**
+ * bash-result <id> (--session <id> | --project <path>) [--json]
+ */
+async function bashResult(args: string[], output: CliOutput): Promise<void> {
+  const { options, flags, positionals } = parseArguments(args, {
+    options: SESSION_OPTIONS,
+    flags: ['json'],
+    positionals: ['id'],
+  });
+  await selectSession(options);
+  const result = await handleShowBashResult({ id: positionals[0] ?? '' });
+
+  if (flags.has('json')) {
+    writeJson(output, result);
+    return;
+  }
+  output.stdout(`$ ${result.command}\n`);
+  const status = result.exitCode !== undefined ? `exit ${result.exitCode}` : 'no result';
+  output.stdout(`# ${status} in ${result.workingDirectory} at ${result.timestamp}\n`);
+  if (result.stdout) {
+    output.stdout(withNewline(result.stdout));
+  }
+  if (result.stderr) {
+    output.stdout(`--- stderr ---\n${withNewline(result.stderr)}`);
+  }
+}
+
+/**
+ * diff <id> (--session <id> | --project <path>) [--json]
+ */
+async function diff(args: string[], output: CliOutput): Promise<void> {
+  const { options, flags, positionals } = parseArguments(args, {
+    options: SESSION_OPTIONS,
+    flags: ['json'],
+    positionals: ['id'],
+  });
+  await selectSession(options);
+  const result = await handleShowOperationDiff({ id: positionals[0] ?? '' });
+
+  if (flags.has('json')) {
+    writeJson(output, result);
+    return;
+  }
+  output.stdout(`# ${[result.tool, result.filePath].filter(Boolean).join(' ')} at ${result.timestamp}\n`);
+  if (result.diff?.unified) {
+    output.stdout(withNewline(result.diff.unified));
+  } else if (result.bash) {
+    output.stdout(`$ ${result.bash.command}\n# exit ${result.bash.exitCode}\n`);
+    for (const file of result.bash.affectedFiles ?? []) {
+      output.stdout(`${file.changeType} ${file.filePath}${file.confidence ? ` (${file.confidence})` : ''}\n`);
+    }
+  } else {
+    output.stdout('(no diff for this operation)\n');
+  }
+}
+
+/**
+ * stats (--session <id> | --project <path>) [--json]
+ */
+async function stats(args: string[], output: CliOutput): Promise<void> {
+  const { options, flags } = parseArguments(args, { options: SESSION_OPTIONS, flags: ['json'] });
+  const sessionId = await selectSession(options);
+  const result = await handleGetSessionStats({ sessionId });
+
+  if (flags.has('json')) {
+    writeJson(output, result);
+    return;
+  }
+  const { totals } = result;
+  output.stdout(
+    formatTable(
+      ['METRIC', 'VALUE'],
+      [
+        ['Session', result.sessionId],
+        ['Duration', `${Math.round(result.durationMs / 1000)}s`],
+        ['Tool calls', `${totals.toolCalls} (${totals.failedToolCalls} failed)`],
+        ['Files created/updated/deleted', `${totals.filesCreated}/${totals.filesUpdated}/${totals.filesDeleted}`],
+        ['Lines added/removed', `+${totals.linesAdded}/-${totals.linesRemoved}`],
+        ['Bash succeeded/failed/pending', `${result.bash.succeeded}/${result.bash.failed}/${result.bash.pending}`],
+        ['Failed edits', String(result.failedEdits.length)],
+      ]
+    )
+  );
+  output.stdout('\n');
+  output.stdout(
+    formatTable(
+      ['TOOL', 'CALLS', 'FAILED', 'AVG MS', 'MAX MS'],
+      Object.entries(result.tools).map(([tool, toolStats]) => [
+        tool,
+        String(toolStats.calls),
+        String(toolStats.failed),
+        String(toolStats.averageMs),
+        String(toolStats.maxMs),
+      ])
+    )
+  );
+}
+
+/**
+ * export-patches (--session <id> | --project <path>) [--mode operation|turn|file]
+ *                [--format diff|mbox] [--file <path>] [--turn <id>] [--output <dir>]
+ */
+async function exportPatches(args: string[], output: CliOutput): Promise<void> {
+  const { options } = parseArguments(args, {
+    options: [...SESSION_OPTIONS, 'mode', 'format', 'file', 'turn', 'output'],
+  });
+  const sessionId = await selectSession(options);
+
+  const mode = options.get('mode');
+  const format = options.get('format');
+  const filePath = options.get('file');
+  const turnId = options.get('turn');
+  const params: ExportPatchesParams = {
+    sessionId,
+    ...(mode && { mode: mode as PatchMode }),
+    ...(format && { format: format as PatchFormat }),
+    ...(filePath && { filePath }),
+    ...(turnId && { turnId }),
+  };
+  const result = await handleExportPatches(params);
+
+  for (const skipped of result.skipped) {
+    output.stderr(`Skipped ${skipped.id} (${skipped.filePath}): ${skipped.reason}\n`);
+  }
+
+  const outputDir = options.get('output');
+  if (!outputDir) {
+    output.stdout(result.patches.map(patch => patch.patch).join('\n'));
+    return;
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+  for (const patch of result.patches) {
+    const file = path.join(outputDir, patch.name);
+    await fs.writeFile(file, patch.patch);
+    output.stdout(`${file}\n`);
+  }
+}
+
+const REPORT_RENDERERS: Record<ReportFormat, { extension: string; render: (report: SessionReport) => string }> = {
+  markdown: { extension: 'md', render: renderMarkdownReport },
+  html: { extension: 'html', render: renderHtmlReport },
+};
+
+/**
+ * report (--session <id> | --project <path>) [--format markdown|html] [--output <dir>]
+ *        [--max-output-lines <n>]
+ *
+ * Writes `<session>.md` and `<session>.html`, or only the given format, to
+ * the output directory (default: the current directory)
+ */
+async function report(args: string[], output: CliOutput): Promise<void> {
+  const { options } = parseArguments(args, {
+    options: [...SESSION_OPTIONS, 'format', 'output', 'max-output-lines'],
+  });
+
+  const format = options.get('format');
+  if (format !== undefined && !Object.keys(REPORT_RENDERERS).includes(format)) {
+    throw new Error(`Unknown report format: ${format}`);
+  }
+  const maxOutputLines = parseCount(options, 'max-output-lines');
+  const sessionId = await selectSession(options);
+
+  const sessionReport = await buildSessionReport({
+    sessionId,
+    ...(maxOutputLines !== undefined && { maxOutputLines }),
+  });
+
+  const outputDir = options.get('output') ?? '.';
+  await fs.mkdir(outputDir, { recursive: true });
+  const formats = format ? [format as ReportFormat] : (Object.keys(REPORT_RENDERERS) as ReportFormat[]);
+  for (const name of formats) {
+    const { extension, render } = REPORT_RENDERERS[name];
+    const file = path.join(outputDir, `${sessionReport.sessionId}.${extension}`);
+    await fs.writeFile(file, render(sessionReport));
+    output.stdout(`${file}\n`);
+  }
+}
+
+const COMMANDS: ReadonlyMap<string, CliCommand> = new Map([
+  ['sessions', sessions],
+  ['changes', changes],
+  ['bash', bash],
+  ['bash-result', bashResult],
+  ['diff', diff],
+  ['stats', stats],
+  ['export-patches', exportPatches],
+  ['report', report],
+]);
+
+/**
+ * Whether the first command-line argument names a CLI subcommand
+ */
+export function isCliCommand(name: string | undefined): boolean {
+  return name !== undefined && COMMANDS.has(name);
+}
+
+/**
+ * Runs a CLI subcommand
+ * @param argv - Arguments after the binary name, starting with the subcommand
+ * @param output - Where to write results and errors
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], output: CliOutput = defaultOutput): Promise<number> {
+  const [name, ...args] = argv;
+  const command = name !== undefined ? COMMANDS.get(name) : undefined;
+  if (!command) {
+    output.stderr(`Unknown command: ${name ?? ''}\n`);
+    return 1;
+  }
+
+  try {
+    await command(args, output);
+    return 0;
+  } catch (error) {
+    output.stderr(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
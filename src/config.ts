@@ -0,0 +1,258 @@
+/**
+ * Configuration
+ *
+ * Settings are merged from, in increasing priority: built-in defaults, the
+ * user-level file `~/.claude-ops.json`, the workspace file `.claude-ops.json`
+ * and `CLAUDE_OPS_*` environment variables.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getWorkspaceRoot } from './utils/workspace-utils';
+
+/**
+ * Settings read from the configuration files and environment
+ */
+export interface ClaudeOpsConfig {
+  /** Directory holding Claude Code's per-project session logs */
+  projectsPath: string;
+  /** Largest `limit` the list tools accept */
+  maxLimit: number;
+  /** Combined size of old and new content (characters) above which diffs are summarized */
+  maxFullDiffSize: number;
+  /** Largest file content (characters) the diff generators accept */
+  maxContentSize: number;
+  /** How long session discovery results are cached, in milliseconds */
+  sessionCacheTtlMs: number;
+  /** Whether secrets are masked in tool, resource and prompt responses */
+  redactSecrets: boolean;
+  /** Extra regular expressions whose matches are masked */
+  redactionPatterns: string[];
+  /** Names of built-in redaction rules to turn off */
+  disabledRedactionRules: string[];
+}
+
+/**
+ * Error thrown when a configuration file or environment variable is invalid
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public key: string,
+    public source: string
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Where loadConfig looks for settings; defaults to the real environment
+ */
+export interface ConfigSources {
+  workspaceRoot?: string;
+  homeDir?: string;
+  env?: Record<string, string | undefined>;
+}
+
+export const CONFIG_FILE_NAME = '.claude-ops.json';
+
+type ConfigKind = 'path' | 'positiveInteger' | 'boolean' | 'patternList' | 'stringList';
+type ConfigValue = ClaudeOpsConfig[keyof ClaudeOpsConfig];
+
+const CONFIG_KEYS: Record<keyof ClaudeOpsConfig, { kind: ConfigKind; env: string }> = {
+  projectsPath: { kind: 'path', env: 'CLAUDE_OPS_PROJECTS_PATH' },
+  maxLimit: { kind: 'positiveInteger', env: 'CLAUDE_OPS_MAX_LIMIT' },
+  maxFullDiffSize: { kind: 'positiveInteger', env: 'CLAUDE_OPS_MAX_FULL_DIFF_SIZE' },
+  maxContentSize: { kind: 'positiveInteger', env: 'CLAUDE_OPS_MAX_CONTENT_SIZE' },
+  sessionCacheTtlMs: { kind: 'positiveInteger', env: 'CLAUDE_OPS_CACHE_TTL_MS' },
+  redactSecrets: { kind: 'boolean', env: 'CLAUDE_OPS_REDACT_SECRETS' },
+  redactionPatterns: { kind: 'patternList', env: 'CLAUDE_OPS_REDACTION_PATTERNS' },
+  disabledRedactionRules: { kind: 'stringList', env: 'CLAUDE_OPS_DISABLED_REDACTION_RULES' },
+};
+
+function getDefaults(homeDir: string): ClaudeOpsConfig {
+  return {
+    projectsPath: path.join(homeDir, '.claude', 'projects'),
+    maxLimit: 1000,
+    maxFullDiffSize: 1024 * 1024,
+    maxContentSize: 50 * 1024 * 1024,
+    sessionCacheTtlMs: 15 * 60 * 1000,
+    redactSecrets: true,
+    redactionPatterns: [],
+    disabledRedactionRules: [],
+  };
+}
+
+function isConfigKey(key: string): key is keyof ClaudeOpsConfig {
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEYS, key);
+}
+
+/**
+ * Converts an environment variable to the type of its setting. Lists are
+ * given as JSON arrays.
+ */
+function parseEnvValue(key: keyof ClaudeOpsConfig, value: string): unknown {
+  const { kind } = CONFIG_KEYS[key];
+  if (kind === 'boolean') {
+    return value === 'true' || value === '1' ? true : value === 'false' || value === '0' ? false : value;
+  }
+  if (kind === 'patternList' || kind === 'stringList') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Validates one setting
+ * @param baseDir - Directory relative paths are resolved against
+ * @throws ConfigError naming the key and where it came from
+ */
+function parseValue(
+  key: keyof ClaudeOpsConfig,
+  value: unknown,
+  source: string,
+  baseDir: string,
+  homeDir: string
+): ConfigValue {
+  const { kind } = CONFIG_KEYS[key];
+  if (kind === 'path') {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new ConfigError(`Invalid config in ${source}: "${key}" must be a non-empty path`, key, source);
+    }
+    const expanded = value === '~' || value.startsWith('~/') ? path.join(homeDir, value.slice(1)) : value;
+    return path.resolve(baseDir, expanded);
+  }
+
+  if (kind === 'boolean') {
+    if (typeof value !== 'boolean') {
+      throw new ConfigError(`Invalid config in ${source}: "${key}" must be true or false`, key, source);
+    }
+    return value;
+  }
+
+  if (kind === 'stringList') {
+    if (!isStringList(value)) {
+      throw new ConfigError(`Invalid config in ${source}: "${key}" must be an array of strings`, key, source);
+    }
+    return value;
+  }
+
+  if (kind === 'patternList') {
+    if (!isStringList(value)) {
+      throw new ConfigError(`Invalid config in ${source}: "${key}" must be an array of regular expressions`, key, source);
+    }
+    for (const pattern of value) {
+      try {
+        new RegExp(pattern);
+      } catch (error) {
+        throw new ConfigError(
+          `Invalid config in ${source}: "${key}" contains an invalid regular expression: ${(error as Error).message}`,
+          key,
+          source
+        );
+      }
+    }
+    return value;
+  }
+
+  const number = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isSafeInteger(number) || number <= 0) {
+    throw new ConfigError(`Invalid config in ${source}: "${key}" must be a positive integer`, key, source);
+  }
+  return number;
+}
+
+/**
+ * Reads a configuration file
+ * @returns Its settings, or an empty object if the file does not exist
+ * @throws ConfigError for unreadable or malformed files and unknown keys
+ */
+function readConfigFile(filePath: string, homeDir: string): Partial<ClaudeOpsConfig> {
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new ConfigError(`Cannot read config file ${filePath}: ${(error as Error).message}`, '', filePath);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Invalid JSON in config file ${filePath}: ${(error as Error).message}`, '', filePath);
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new ConfigError(`Config file ${filePath} must contain a JSON object`, '', filePath);
+  }
+
+  const settings: Partial<ClaudeOpsConfig> = {};
+  for (const [key, value] of Object.entries(json)) {
+    if (!isConfigKey(key)) {
+      throw new ConfigError(`Unknown key "${key}" in config file ${filePath}`, key, filePath);
+    }
+    Object.assign(settings, { [key]: parseValue(key, value, filePath, path.dirname(filePath), homeDir) });
+  }
+  return settings;
+}
+
+/**
+ * Loads the configuration from the files and environment
+ * @param sources - Workspace, home directory and environment to read
+ * @returns The merged configuration
+ * @throws ConfigError if a file or environment variable is invalid
+ */
+export function loadConfig(sources: ConfigSources = {}): ClaudeOpsConfig {
+  const homeDir = sources.homeDir ?? os.homedir();
+  const workspaceRoot = sources.workspaceRoot ?? getWorkspaceRoot();
+  const env = sources.env ?? process.env;
+
+  const userFile = path.join(homeDir, CONFIG_FILE_NAME);
+  const workspaceFile = path.join(workspaceRoot, CONFIG_FILE_NAME);
+  const config: ClaudeOpsConfig = {
+    ...getDefaults(homeDir),
+    ...readConfigFile(userFile, homeDir),
+    ...(workspaceFile !== userFile && readConfigFile(workspaceFile, homeDir)),
+  };
+
+  for (const key of Object.keys(CONFIG_KEYS) as Array<keyof ClaudeOpsConfig>) {
+    const variable = CONFIG_KEYS[key].env;
+    const value = env[variable];
+    if (value !== undefined && value !== '') {
+      const source = `environment variable ${variable}`;
+      Object.assign(config, { [key]: parseValue(key, parseEnvValue(key, value), source, process.cwd(), homeDir) });
+    }
+  }
+
+  return config;
+}
+
+let cachedConfig: ClaudeOpsConfig | undefined;
+
+/**
+ * Configuration of the running process, loaded on first use
+ * @throws ConfigError if a file or environment variable is invalid
+ */
+export function getConfig(): ClaudeOpsConfig {
+  cachedConfig ??= loadConfig();
+  return cachedConfig;
+}
+
+/**
+ * Forgets the loaded configuration so the next getConfig call reloads it
+ */
+export function resetConfig(): void {
+  cachedConfig = undefined;
+}
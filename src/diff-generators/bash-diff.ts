@@ -4,7 +4,7 @@
  * Handles BashDiff generation with comprehensive command output and file system change tracking.
  */
 
-import type { BashDiff, UnifiedDiff } from '../types/operation-index';
+import type { BashDiff, InferenceConfidence, UnifiedDiff } from '../types/operation-index';
 import { ChangeType } from '../types/operation-index';
 import {
   ValidationError,
@@ -26,7 +26,8 @@ import { createTwoFilesPatch } from 'diff';
  * @param stdout - Standard output from command execution
  * @param stderr - Standard error from command execution
  * @param exitCode - Exit code from command execution
- * @param fileSystemChanges - Array of file system changes resulting from the command
+ * @param fileSystemChanges - Array of file system changes resulting from the command.
+ *   Changes with a `confidence` were inferred from the command string and are marked as such
  * @returns Promise resolving to BashDiff with detailed command and change information
  * @throws Error if command is empty or parameters are invalid
  */
@@ -40,6 +41,7 @@ export async function generateBashDiff(
     changeType: ChangeType;
     beforeContent?: string;
     afterContent?: string;
+    confidence?: InferenceConfidence;
   }>
 ): Promise<BashDiff> {
   try {
@@ -142,9 +144,12 @@ export async function generateBashDiff(
         filePath: string;
         changeType: ChangeType;
         unifiedDiff?: UnifiedDiff;
+        inferred?: boolean;
+        confidence?: InferenceConfidence;
       } = {
         filePath: change.filePath,
         changeType: change.changeType,
+        ...(change.confidence && { inferred: true, confidence: change.confidence }),
       };
 
       // Generate unified diff for update operations that have both before and after content
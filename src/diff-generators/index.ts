@@ -9,6 +9,7 @@ export { generateWriteDiff } from './write-diff';
 export { generateReadDiff } from './read-diff';
 export { generateMultiEditDiff } from './multiedit-diff';
 export { generateBashDiff } from './bash-diff';
+export { generateNotebookEditDiff } from './notebook-edit-diff';
 
 // Re-export types for convenience
 export type {
@@ -17,6 +18,7 @@ export type {
   ReadDiff,
   MultiEditDiff,
   BashDiff,
+  NotebookEditDiff,
   OperationDiff,
   UnifiedDiff,
   ChangeType,
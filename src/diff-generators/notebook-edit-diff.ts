@@ -0,0 +1,101 @@
+/**
+ * NotebookEdit Diff Generator
+ *
+ * Handles NotebookEditDiff generation for single-cell Jupyter notebook edits.
+ */
+
+import type { NotebookEditDiff, NotebookEditMode } from '../types/operation-index';
+import {
+  ValidationError,
+  SecurityError,
+  ToolError,
+  InputValidator,
+  ResourceValidator,
+} from '../error-handling';
+import { generateOptimizedDiff } from '../utils/performance-utils';
+
+const EDIT_MODES: ReadonlySet<string> = new Set(['replace', 'insert', 'delete']);
+
+/**
+ * Generates NotebookEditDiff for NotebookEdit tool operations.
+ *
+ * The diff covers the source of the edited cell only. Inserted cells are
+ * diffed against an empty source and deleted cells against an empty result;
+ * replaced cells get a unified diff only when their previous source is known.
+ *
+ * @param notebookPath - Absolute path to the notebook (.ipynb) being edited
+ * @param newSource - New source of the cell (ignored for deletes)
+ * @param editMode - Whether the cell was replaced, inserted or deleted
+ * @param cellId - ID of the edited cell, or of the cell after which a new cell was inserted
+ * @param cellType - Type of the cell ('code' or 'markdown')
+ * @param oldSource - Source of the cell before the edit, if recorded
+ * @returns Promise resolving to NotebookEditDiff with cell-level change information
+ * @throws ValidationError if the path, source or edit mode is invalid
+ */
+export async function generateNotebookEditDiff(
+  notebookPath: string,
+  newSource: string,
+  editMode: NotebookEditMode = 'replace',
+  cellId?: string,
+  cellType?: 'code' | 'markdown',
+  oldSource?: string
+): Promise<NotebookEditDiff> {
+  try {
+    InputValidator.validateFilePath(notebookPath, 'notebookPath');
+
+    if (!EDIT_MODES.has(editMode)) {
+      throw new ValidationError(`Invalid edit mode: ${editMode}`, 'editMode', editMode);
+    }
+
+    if (editMode !== 'delete') {
+      InputValidator.validateString(newSource, 'newSource', true);
+      ResourceValidator.validateContentSize(newSource);
+    }
+
+    const result: NotebookEditDiff = {
+      tool: 'NotebookEdit',
+      ...(cellId !== undefined && { cellId }),
+      ...(cellType !== undefined && { cellType }),
+      editMode,
+      newSource: editMode === 'delete' ? '' : newSource,
+    };
+
+    const previousSource = editMode === 'insert' ? '' : oldSource;
+    if (editMode !== 'insert' && oldSource !== undefined) {
+      result.oldSource = oldSource;
+    }
+
+    if (previousSource !== undefined) {
+      result.unifiedDiff = {
+        filename: notebookPath,
+        oldVersion: previousSource,
+        newVersion: result.newSource,
+        diffText: generateOptimizedDiff(
+          notebookPath,
+          notebookPath,
+          previousSource,
+          result.newSource,
+          'Original',
+          'Modified'
+        ),
+      };
+    }
+
+    return result;
+  } catch (error) {
+    // Re-throw known error types
+    if (
+      error instanceof ValidationError ||
+      error instanceof SecurityError ||
+      error instanceof ToolError
+    ) {
+      throw error;
+    }
+
+    throw new ToolError(
+      `Failed to generate notebook edit diff: ${error instanceof Error ? error.message : String(error)}`,
+      'NotebookEdit',
+      notebookPath
+    );
+  }
+}
@@ -8,6 +8,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { validateWorkspacePath, isWithinWorkspace } from './utils/workspace-utils';
+import { getConfig } from './config';
 
 /**
  * Custom error classes for specific error types
@@ -346,7 +347,7 @@ export class ResourceValidator {
   /**
    * Validates content size limits
    */
-  static validateContentSize(content: string, maxSize: number = 50 * 1024 * 1024): void {
+  static validateContentSize(content: string, maxSize: number = getConfig().maxContentSize): void {
     if (content.length > maxSize) {
       throw new ValidationError(
         `Content exceeds maximum size limit of ${maxSize} bytes`,
@@ -391,7 +392,7 @@ export class ResourceValidator {
    */
   static validateContentSizeQuick(content: string): void {
     // Only check size, skip line-by-line validation for performance
-    if (content.length > 50 * 1024 * 1024) { // 50MB limit
+    if (content.length > getConfig().maxContentSize) { // 50MB by default
       throw new ValidationError(
         'Content size exceeds maximum limit',
         'content_size',
@@ -1,4 +1,4 @@
-import { filterByFilePath, filterByChangeType } from './operation-filter-enhanced';
+import { filterByFilePath, filterByChangeType, filterByAgent } from './operation-filter-enhanced';
 import { ChangeType } from '../types/operation-index';
 import type { OperationIndex } from '../types/operation-index';
 
@@ -233,4 +233,36 @@ describe('Enhanced Operation Filtering', () => {
       expect(result.every(op => op.changeType !== ChangeType.READ)).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('filterByAgent', () => {
+    const agentOperations: OperationIndex[] = [
+      { id: 'main-1', timestamp: '2024-01-01T10:00:00.000Z', tool: 'Edit', summary: '', changeType: ChangeType.UPDATE },
+      {
+        id: 'sub-1',
+        timestamp: '2024-01-01T10:01:00.000Z',
+        tool: 'Edit',
+        summary: '',
+        changeType: ChangeType.UPDATE,
+        agent: { taskId: 'toolu_task_a', description: 'Fix tests', subagentType: 'general-purpose' },
+      },
+      {
+        id: 'sub-2',
+        timestamp: '2024-01-01T10:02:00.000Z',
+        tool: 'Write',
+        summary: '',
+        changeType: ChangeType.CREATE,
+        agent: { taskId: 'toolu_task_b', subagentType: 'docs-writer' },
+      },
+    ];
+
+    it('should select the main agent, a Task ID or a subagent type', () => {
+      expect(filterByAgent(agentOperations, 'main').map(op => op.id)).toEqual(['main-1']);
+      expect(filterByAgent(agentOperations, 'toolu_task_b').map(op => op.id)).toEqual(['sub-2']);
+      expect(filterByAgent(agentOperations, 'general-purpose').map(op => op.id)).toEqual(['sub-1']);
+    });
+
+    it('should return all operations without an agent filter', () => {
+      expect(filterByAgent(agentOperations)).toHaveLength(3);
+    });
+  });
+});
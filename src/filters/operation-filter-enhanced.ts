@@ -1,4 +1,4 @@
-import type { OperationIndex, ChangeType } from '../types/operation-index';
+import type { OperationIndex, ChangeType, SubagentAttribution } from '../types/operation-index';
 import { FilePathMatcher } from '../file-path-matcher';
 
 /**
@@ -60,4 +60,41 @@ export function filterByChangeType(
 
     return changeTypes.includes(op.changeType);
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Agent filter value selecting operations of the main agent (outside any subagent)
+ */
+export const MAIN_AGENT = 'main';
+
+/**
+ * Checks whether an operation's subagent matches an agent filter.
+ *
+ * @param agent - Subagent of the operation (undefined for the main agent)
+ * @param filter - `main`, a Task tool_use ID, or a subagent type
+ * @returns True if the operation was performed by the selected agent
+ */
+export function matchesAgent(agent: SubagentAttribution | undefined, filter: string): boolean {
+  if (filter === MAIN_AGENT) {
+    return agent === undefined;
+  }
+  return agent !== undefined && (agent.taskId === filter || agent.subagentType === filter);
+}
+
+/**
+ * Filters operations by the agent that performed them.
+ *
+ * @param operations - Array of operations to filter
+ * @param agent - `main`, a Task tool_use ID, or a subagent type (e.g. "general-purpose")
+ * @returns Filtered array of operations performed by the selected agent
+ */
+export function filterByAgent(
+  operations: OperationIndex[],
+  agent?: string
+): OperationIndex[] {
+  if (!agent) {
+    return operations;
+  }
+
+  return operations.filter(op => matchesAgent(op.agent, agent));
+}
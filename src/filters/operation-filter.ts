@@ -113,16 +113,17 @@ export function filterByFilePath(
 
 /**
  * Filters operations occurring after a specified timestamp.
- * Includes operations at the exact timestamp.
+ * Includes operations at the exact timestamp. Works on any timestamped
+ * records, such as SessionIndex tool calls.
  *
  * @param operations - Array of operations to filter
  * @param since - ISO 8601 timestamp string
  * @returns Operations after or at the specified timestamp
  */
-export function filterBySince(
-  operations: OperationIndex[],
+export function filterBySince<T extends { timestamp: string }>(
+  operations: T[],
   since: string
-): OperationIndex[] {
+): T[] {
   if (!since) {
     return operations;
   }
@@ -140,16 +141,17 @@ export function filterBySince(
 
 /**
  * Filters operations occurring before or at a specified timestamp.
- * Includes operations at the exact timestamp.
+ * Includes operations at the exact timestamp. Works on any timestamped
+ * records, such as SessionIndex tool calls.
  *
  * @param operations - Array of operations to filter
  * @param until - ISO 8601 timestamp string
  * @returns Operations before or at the specified timestamp
  */
-export function filterByUntil(
-  operations: OperationIndex[],
+export function filterByUntil<T extends { timestamp: string }>(
+  operations: T[],
   until: string
-): OperationIndex[] {
+): T[] {
   if (!until) {
     return operations;
   }
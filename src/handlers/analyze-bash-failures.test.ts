@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getErrorSignature, handleAnalyzeBashFailures, normalizeCommand } from './analyze-bash-failures';
+import { UIDManager } from '../uid-manager';
+
+describe('analyzeBashFailures', () => {
+  describe('normalizeCommand', () => {
+    it('should drop directory changes, output plumbing and extra whitespace', () => {
+      expect(normalizeCommand('cd /repo && npm   test 2>&1 | tail -n 50')).toBe('npm test');
+      expect(normalizeCommand('npm test | head')).toBe('npm test');
+      expect(normalizeCommand('npm test | grep FAIL')).toBe('npm test | grep FAIL');
+    });
+  });
+
+  describe('getErrorSignature', () => {
+    it('should use the first meaningful line with paths and numbers replaced', () => {
+      const stderr = [
+        '',
+        '> app@1.0.0 test',
+        '----',
+        `${String.fromCharCode(27)}[31mError: Cannot find module './utils/format' from /repo/src/app.ts:12:5${String.fromCharCode(27)}[0m`,
+        'at Resolver.resolveModule',
+      ].join('\n');
+
+      expect(getErrorSignature(stderr)).toBe("Error: Cannot find module '<path>' from <path>:<n>:<n>");
+    });
+
+    it('should fall back to stdout when stderr is empty', () => {
+      expect(getErrorSignature('', 'FAIL src/a.test.ts (3.2 s)')).toBe('FAIL <path> (<n>.<n> s)');
+    });
+  });
+
+  describe('handleAnalyzeBashFailures', () => {
+    let tmpDir: string;
+    let sessionFile: string;
+    let counter = 0;
+
+    const bash = (command: string, exitCode: number, stderr: string = ''): string[] => {
+      const id = `toolu_${++counter}`;
+      const timestamp = `2024-01-01T10:00:${String(counter).padStart(2, '0')}.000Z`;
+      return [
+        JSON.stringify({
+          type: 'assistant',
+          cwd: tmpDir,
+          timestamp,
+          message: { content: [{ type: 'tool_use', id, name: 'Bash', input: { command } }] },
+        }),
+        JSON.stringify({
+          type: 'user',
+          cwd: tmpDir,
+          timestamp,
+          message: { content: [{ type: 'tool_result', tool_use_id: id, content: stderr || 'ok', is_error: exitCode !== 0 }] },
+          toolUseResult: { stdout: '', stderr, exitCode },
+        }),
+      ];
+    };
+
+    const edit = (filePath: string): string => {
+      const id = `toolu_${++counter}`;
+      return JSON.stringify({
+        type: 'assistant',
+        cwd: tmpDir,
+        timestamp: `2024-01-01T10:00:${String(counter).padStart(2, '0')}.000Z`,
+        message: {
+          content: [{ type: 'tool_use', id, name: 'Edit', input: { file_path: filePath, old_string: 'a', new_string: 'b' } }],
+        },
+      });
+    };
+
+    beforeEach(() => {
+      counter = 0;
+      tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'bash-failures-test-')));
+      sessionFile = path.join(tmpDir, 'session-failures.jsonl');
+      fs.writeFileSync(
+        sessionFile,
+        [
+          ...bash('npm test', 1, 'Error: expected 3 to be 4 in /repo/src/a.test.ts:10'),
+          ...bash('npm test 2>&1 | tail -20', 1, 'Error: expected 5 to be 6 in /repo/src/b.test.ts:22'),
+          ...bash('npm run build', 2, 'error TS2304: Cannot find name foo.'),
+          ...bash('npm test', 1, 'Error: expected 7 to be 8 in /repo/src/a.test.ts:10'),
+          edit(path.join(tmpDir, 'src/a.ts')),
+          ...bash("sed -i 's/x/y/' conf.ini", 0),
+          ...bash('cd /repo && npm test', 0),
+          ...bash('npm run lint', 1, 'lint failed'),
+        ].join('\n')
+      );
+      UIDManager.setCachedSessionFile(sessionFile);
+    });
+
+    afterEach(() => {
+      UIDManager.setCachedSessionFile('');
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should cluster failures, flag retry loops and find the resolving run', async () => {
+      const result = await handleAnalyzeBashFailures();
+
+      expect(result).toMatchObject({ totalFailures: 5, retryLoopCount: 1, totalCount: 3, hasMore: false, limit: 100 });
+      expect(result.clusters[0]).toEqual({
+        command: 'npm test',
+        signature: 'Error: expected <n> to be <n> in <path>:<n>',
+        failureCount: 3,
+        failureIds: ['toolu_1', 'toolu_2', 'toolu_4'],
+        exitCodes: [1],
+        firstFailure: { id: 'toolu_1', timestamp: '2024-01-01T10:00:01.000Z', command: 'npm test' },
+        lastFailure: { id: 'toolu_4', timestamp: '2024-01-01T10:00:04.000Z', command: 'npm test' },
+        longestStreak: 3,
+        isRetryLoop: true,
+        resolvedBy: {
+          id: 'toolu_7',
+          timestamp: '2024-01-01T10:00:07.000Z',
+          command: 'cd /repo && npm test',
+          filesChangedBefore: [path.join(tmpDir, 'src/a.ts'), path.join(tmpDir, 'conf.ini')],
+        },
+      });
+      expect(result.clusters.map(cluster => [cluster.command, cluster.isRetryLoop, cluster.resolvedBy])).toEqual([
+        ['npm test', true, expect.anything()],
+        ['npm run build', false, undefined],
+        ['npm run lint', false, undefined],
+      ]);
+    });
+
+    it('should apply minRetries and limit', async () => {
+      const result = await handleAnalyzeBashFailures({ minRetries: 4, limit: 1 });
+
+      expect(result.retryLoopCount).toBe(0);
+      expect(result.clusters).toHaveLength(1);
+      expect(result.hasMore).toBe(true);
+      await expect(handleAnalyzeBashFailures({ minRetries: 1 })).rejects.toThrow('Min retries must be at least 2');
+    });
+
+    it('should keep cursors valid while failure counts change', async () => {
+      const first = await handleAnalyzeBashFailures({ limit: 1 });
+      expect(first.clusters.map(cluster => cluster.command)).toEqual(['npm test']);
+
+      // The lint cluster overtakes the others and a new cluster appears
+      fs.appendFileSync(
+        sessionFile,
+        '\n' +
+          [
+            ...bash('npm run lint', 1, 'lint failed'),
+            ...bash('npm run lint', 1, 'lint failed'),
+            ...bash('npm run lint', 1, 'lint failed'),
+            ...bash('npm run e2e', 1, 'Timeout'),
+          ].join('\n')
+      );
+
+      const commands: string[] = [];
+      let cursor = first.nextCursor;
+      while (cursor) {
+        const page = await handleAnalyzeBashFailures({ limit: 1, cursor });
+        commands.push(...page.clusters.map(cluster => cluster.command));
+        cursor = page.nextCursor;
+      }
+      expect(commands).toEqual(['npm run build', 'npm run lint', 'npm run e2e']);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { SessionIndex, getBashExitCode, getBashOutput, type ToolCallRecord } from '../parsers/session-index';
+import { ChangeType } from '../types/operation-index';
+import { resolveSessionFile, resolveSessionFileById } from '../utils/session-utils';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+
+/**
+ * Parameters for the analyzeBashFailures handler
+ */
+export interface AnalyzeBashFailuresParams {
+  /**
+   * Number of consecutive failing runs of a command that count as a retry loop
+   * Default: 3, Minimum: 2
+   */
+  minRetries?: number;
+
+  /**
+   * Maximum number of clusters to return
+   * Default: 100, Maximum: the configured maxLimit (1000 by default)
+   */
+  limit?: number;
+
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+
+  /**
+   * Session to analyze. Default: the current session
+   */
+  sessionId?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * A Bash call referenced by a cluster
+ */
+export interface BashCallReference {
+  id: string;
+  timestamp: string;
+  command: string;
+}
+
+/**
+ * Failed Bash commands with the same normalized command and error signature
+ */
+export interface FailureCluster {
+  /**
+   * Command with whitespace collapsed and `cd <dir> &&` prefixes, `2>&1` and
+   * trailing `| head`/`| tail` removed
+   */
+  command: string;
+
+  /**
+   * First meaningful line of the error output with paths replaced by `<path>`
+   * and numbers by `<n>`
+   */
+  signature: string;
+  failureCount: number;
+
+  /**
+   * IDs of the failed calls, in log order
+   */
+  failureIds: string[];
+  exitCodes: number[];
+  firstFailure: BashCallReference;
+  lastFailure: BashCallReference;
+
+  /**
+   * Longest run of consecutive failures with this signature among the runs
+   * of the command
+   */
+  longestStreak: number;
+  isRetryLoop: boolean;
+
+  /**
+   * First later run of the command that succeeded, with the files changed
+   * between the last failure and it. Omitted while the command still fails.
+   */
+  resolvedBy?: BashCallReference & { filesChangedBefore: string[] };
+}
+
+/**
+ * Response from the analyzeBashFailures handler
+ */
+export interface AnalyzeBashFailuresResponse {
+  /**
+   * Clusters, in order of their first failure
+   */
+  clusters: FailureCluster[];
+
+  /**
+   * Number of failed Bash commands in the session
+   */
+  totalFailures: number;
+
+  /**
+   * Number of clusters that are retry loops
+   */
+  retryLoopCount: number;
+
+  /**
+   * Total count of clusters (before limit)
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more clusters beyond the limit
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
+  /**
+   * The limit that was applied
+   */
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_MIN_RETRIES = 3;
+const MAX_SIGNATURE_LENGTH = 200;
+
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*[A-Za-z]`, 'g');
+const PATH_PATTERN = /(?:[A-Za-z]:|~|\.{1,2})?(?:[\\/][\w.@+-]+)+[\\/]?|[\w.@+-]+(?:[\\/][\w.@+-]+)+[\\/]?/g;
+
+/**
+ * Normalizes a command so reruns with cosmetic differences cluster together
+ */
+export function normalizeCommand(command: string): string {
+  return command
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:cd \S+ && )+/, '')
+    .replace(/\s*\|\s*(?:head|tail)(?: -n)?(?: -?\d+)?\s*$/, '')
+    .replace(/\s*2>&1/g, '')
+    .trim();
+}
+
+/**
+ * Normalized first meaningful line of the error output: stderr, or stdout
+ * when stderr is empty. Lines without letters and echoed commands (`> ...`,
+ * `$ ...`) are skipped.
+ */
+export function getErrorSignature(stderr: string, stdout: string = ''): string {
+  const text = (stderr.trim() !== '' ? stderr : stdout).replace(ANSI_ESCAPE, '');
+  const line = text
+    .split('\n')
+    .map(candidate => candidate.trim())
+    .find(candidate => /[A-Za-z]/.test(candidate) && !/^[>$]\s/.test(candidate));
+
+  return (line ?? '')
+    .replace(PATH_PATTERN, '<path>')
+    .replace(/\d+/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_SIGNATURE_LENGTH);
+}
+
+function toReference(call: ToolCallRecord, command: string): BashCallReference {
+  return { id: call.id, timestamp: call.timestamp, command };
+}
+
+/**
+ * Handler for the analyzeBashFailures MCP tool
+ * Groups the failed Bash commands of a session by normalized command and
+ * error signature, flags retry loops (the same command failing the same way
+ * several runs in a row) and finds the run after which each cluster stopped
+ * failing.
+ *
+ * @param params - Parameters for the analysis
+ * @returns Failure clusters, in order of their first failure
+ */
+export async function handleAnalyzeBashFailures(
+  params: AnalyzeBashFailuresParams = {}
+): Promise<AnalyzeBashFailuresResponse> {
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
+  }
+
+  const minRetries = params.minRetries ?? DEFAULT_MIN_RETRIES;
+  if (minRetries < 2) {
+    throw new Error('Min retries must be at least 2');
+  }
+
+  const sessionFile = params.sessionId
+    ? await resolveSessionFileById(params.sessionId)
+    : await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  const clusters = new Map<string, FailureCluster>();
+  // Per normalized command: the cluster of its last run and the current streak
+  const lastRuns = new Map<string, { key?: string; streak: number }>();
+  // Clusters waiting for a successful run, with the files changed since their last failure
+  const unresolved = new Map<string, Set<string>>();
+  let totalFailures = 0;
+
+  // Files changed by commands such as `sed -i` count as possible fixes too
+  const inferredFiles = new Map<string, string[]>();
+  for (const operation of index.getInferredOperations()) {
+    if (operation.filePath && operation.changeType !== ChangeType.READ) {
+      inferredFiles.set(operation.id, [...(inferredFiles.get(operation.id) ?? []), operation.filePath]);
+    }
+  }
+
+  for (const call of index.calls) {
+    const { filePath, changeType } = call.operation;
+    if (call.name !== 'Bash') {
+      if (filePath && changeType !== ChangeType.READ && !call.isError) {
+        unresolved.forEach(files => files.add(filePath));
+      }
+      continue;
+    }
+    for (const file of inferredFiles.get(call.id) ?? []) {
+      unresolved.forEach(files => files.add(file));
+    }
+
+    const rawCommand = call.input['command'];
+    if (typeof rawCommand !== 'string' || !call.hasResult) {
+      continue;
+    }
+    const command = normalizeCommand(rawCommand);
+    const exitCode = getBashExitCode(call);
+    const lastRun = lastRuns.get(command) ?? { streak: 0 };
+
+    if (exitCode === 0) {
+      for (const [key, files] of unresolved) {
+        const cluster = clusters.get(key);
+        if (cluster?.command === command) {
+          cluster.resolvedBy = { ...toReference(call, rawCommand), filesChangedBefore: [...files] };
+          unresolved.delete(key);
+        }
+      }
+      lastRuns.set(command, { streak: 0 });
+      continue;
+    }
+
+    totalFailures++;
+    const { stdout, stderr } = getBashOutput(call);
+    const signature = getErrorSignature(stderr, stdout);
+    const key = `${command}\0${signature}`;
+    const streak = lastRun.key === key ? lastRun.streak + 1 : 1;
+    lastRuns.set(command, { key, streak });
+
+    let cluster = clusters.get(key);
+    if (!cluster) {
+      cluster = {
+        command,
+        signature,
+        failureCount: 0,
+        failureIds: [],
+        exitCodes: [],
+        firstFailure: toReference(call, rawCommand),
+        lastFailure: toReference(call, rawCommand),
+        longestStreak: 0,
+        isRetryLoop: false,
+      };
+      clusters.set(key, cluster);
+    }
+
+    cluster.failureCount++;
+    cluster.failureIds.push(call.id);
+    if (!cluster.exitCodes.includes(exitCode)) {
+      cluster.exitCodes.push(exitCode);
+    }
+    cluster.lastFailure = toReference(call, rawCommand);
+    cluster.longestStreak = Math.max(cluster.longestStreak, streak);
+    cluster.isRetryLoop = cluster.longestStreak >= minRetries;
+    // A new failure means earlier fixes did not help
+    delete cluster.resolvedBy;
+    unresolved.set(key, new Set());
+  }
+
+  // Clusters keep their position as the session grows, unlike an order by
+  // failure count, so cursors stay valid
+  const sorted = [...clusters.entries()]
+    .sort(
+      ([aKey, a], [bKey, b]) =>
+        a.firstFailure.timestamp.localeCompare(b.firstFailure.timestamp) || (aKey < bKey ? -1 : aKey > bKey ? 1 : 0)
+    )
+    .map(([, cluster]) => cluster);
+  const totalCount = sorted.length;
+  const page = paginate(
+    sorted,
+    { limit, order: 'asc', ...(params.cursor && { cursor: params.cursor }) },
+    cluster => ({ id: cluster.firstFailure.id, timestamp: cluster.firstFailure.timestamp })
+  );
+
+  return {
+    clusters: page.items,
+    totalFailures,
+    retryLoopCount: sorted.filter(cluster => cluster.isRetryLoop).length,
+    totalCount,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
+  };
+}
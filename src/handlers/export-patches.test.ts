@@ -0,0 +1,170 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { handleExportPatches } from './export-patches';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+
+describe('handleExportPatches', () => {
+  let tmpDir: string;
+  let workspace: string;
+
+  const git = (...args: string[]): string =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: workspace,
+      encoding: 'utf8',
+    });
+
+  const prompt = (uuid: string, text: string): string =>
+    JSON.stringify({ type: 'user', uuid, parentUuid: null, cwd: workspace, timestamp: '2024-01-01T09:00:00.000Z', message: { content: text } });
+
+  const toolCall = (
+    parentUuid: string,
+    id: string,
+    name: string,
+    input: Record<string, unknown>,
+    toolUseResult: Record<string, unknown>,
+    cwd = workspace
+  ): string[] => [
+    JSON.stringify({
+      type: 'assistant',
+      uuid: `${id}-use`,
+      parentUuid,
+      cwd,
+      timestamp: '2024-01-01T10:00:00.000Z',
+      message: { content: [{ type: 'tool_use', id, name, input }] },
+    }),
+    JSON.stringify({
+      type: 'user',
+      uuid: `${id}-result`,
+      parentUuid: `${id}-use`,
+      cwd,
+      timestamp: '2024-01-01T10:00:01.000Z',
+      message: { content: [{ type: 'tool_result', tool_use_id: id, content: 'ok' }] },
+      toolUseResult,
+    }),
+  ];
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'export-patches-test-')));
+    workspace = path.join(tmpDir, 'workspace');
+    fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+    fs.writeFileSync(path.join(workspace, 'src/app.ts'), 'a\nb\nc\n');
+    git('init', '-q');
+    git('add', '.');
+    git('commit', '-q', '-m', 'Initial commit');
+
+    const app = path.join(workspace, 'src/app.ts');
+    const sessionFile = path.join(tmpDir, 'session-export.jsonl');
+    fs.writeFileSync(
+      sessionFile,
+      [
+        prompt('p1', 'Add the x constant\nand update app'),
+        ...toolCall('p1', 'toolu_write', 'Write', { file_path: path.join(workspace, 'src/new.ts'), content: 'export const x = 1;\n' }, { type: 'create' }),
+        ...toolCall('toolu_write-result', 'toolu_read', 'Read', { file_path: app }, { file: { content: 'a\nb\nc\n', startLine: 1, numLines: 3, totalLines: 3 } }),
+        ...toolCall('toolu_read-result', 'toolu_edit1', 'Edit', { file_path: app, old_string: 'b', new_string: 'B' }, {}),
+        prompt('p2', 'Capitalize c'),
+        ...toolCall('p2', 'toolu_edit2', 'Edit', { file_path: app, old_string: 'c', new_string: 'C' }, {}),
+        ...toolCall('toolu_edit2-result', 'toolu_unknown', 'Edit', { file_path: path.join(workspace, 'lib.ts'), old_string: 'x', new_string: 'y' }, {}),
+      ].join('\n')
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+    _setTestWorkspaceRoot(workspace);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should export one git apply compatible patch per operation', async () => {
+    const result = await handleExportPatches();
+
+    expect(result.patches.map(patch => [patch.name, patch.operationIds, patch.files])).toEqual([
+      ['0001-Write-src-new.ts.patch', ['toolu_write'], ['src/new.ts']],
+      ['0002-Edit-src-app.ts.patch', ['toolu_edit1'], ['src/app.ts']],
+      ['0003-Edit-src-app.ts.patch', ['toolu_edit2'], ['src/app.ts']],
+    ]);
+    expect(result.patches[0]?.patch).toContain('diff --git a/src/new.ts b/src/new.ts\nnew file mode 100644\n--- /dev/null\n+++ b/src/new.ts');
+    expect(result.patches[1]?.patch).toContain('--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n');
+    expect(result.skipped).toEqual([
+      {
+        id: 'toolu_unknown',
+        filePath: path.join(workspace, 'lib.ts'),
+        reason: 'file content before this operation was not recorded',
+      },
+    ]);
+
+    for (const patch of result.patches) {
+      const file = path.join(tmpDir, patch.name);
+      fs.writeFileSync(file, patch.patch);
+      git('apply', file);
+    }
+    expect(fs.readFileSync(path.join(workspace, 'src/app.ts'), 'utf8')).toBe('a\nB\nC\n');
+    expect(fs.readFileSync(path.join(workspace, 'src/new.ts'), 'utf8')).toBe('export const x = 1;\n');
+  });
+
+  it('should group changes per turn and per file', async () => {
+    const byTurn = await handleExportPatches({ mode: 'turn' });
+    expect(byTurn.patches.map(patch => [patch.subject, patch.files])).toEqual([
+      ['Add the x constant', ['src/new.ts', 'src/app.ts']],
+      ['Capitalize c', ['src/app.ts']],
+    ]);
+
+    const byFile = await handleExportPatches({ mode: 'file', filePath: 'src/app.ts' });
+    expect(byFile.patches).toHaveLength(1);
+    expect(byFile.patches[0]).toMatchObject({ subject: 'Update src/app.ts', operationIds: ['toolu_edit1', 'toolu_edit2'] });
+    expect(byFile.patches[0]?.patch).toContain('@@ -1,3 +1,3 @@\n a\n-b\n-c\n+B\n+C\n');
+  });
+
+  it('should export mbox patches that git am can apply', async () => {
+    const result = await handleExportPatches({ mode: 'turn', format: 'mbox', turnId: 'p2' });
+
+    expect(result.patches).toHaveLength(1);
+    expect(result.patches[0]?.patch).toMatch(/^From 0{40} /);
+    expect(result.patches[0]?.patch).toContain('Subject: [PATCH 1/1] Capitalize c');
+
+    const file = path.join(tmpDir, 'turn.patch');
+    fs.writeFileSync(file, result.patches[0]?.patch ?? '');
+    // p2 applies on top of p1's change to app.ts
+    fs.writeFileSync(path.join(workspace, 'src/app.ts'), 'a\nB\nc\n');
+    git('commit', '-q', '-am', 'Apply first turn');
+    git('am', '-q', file);
+
+    expect(git('log', '-1', '--format=%s').trim()).toBe('Capitalize c');
+    expect(fs.readFileSync(path.join(workspace, 'src/app.ts'), 'utf8')).toBe('a\nB\nC\n');
+  });
+
+  it('should skip overwrites without recorded content and use workspace-relative paths', async () => {
+    const sessionFile = path.join(tmpDir, 'session-subdir.jsonl');
+    const src = path.join(workspace, 'src');
+    fs.writeFileSync(
+      sessionFile,
+      [
+        prompt('p1', 'Rewrite app'),
+        ...toolCall('p1', 'toolu_overwrite', 'Write', { file_path: path.join(src, 'app.ts'), content: 'z\n' }, {}, src),
+        ...toolCall('toolu_overwrite-result', 'toolu_create', 'Write', { file_path: path.join(src, 'util.ts'), content: 'u\n' }, { type: 'create' }, src),
+      ].join('\n')
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+
+    const result = await handleExportPatches();
+
+    expect(result.patches.map(patch => patch.files)).toEqual([['src/util.ts']]);
+    expect(result.patches[0]?.patch).toContain('diff --git a/src/util.ts b/src/util.ts');
+    expect(result.skipped).toEqual([
+      {
+        id: 'toolu_overwrite',
+        filePath: path.join(src, 'app.ts'),
+        reason: 'file content before this operation was not recorded',
+      },
+    ]);
+  });
+
+  it('should reject unknown modes and formats', async () => {
+    await expect(handleExportPatches({ mode: 'commit' as 'file' })).rejects.toThrow('Unknown patch mode: commit');
+    await expect(handleExportPatches({ format: 'zip' as 'diff' })).rejects.toThrow('Unknown patch format: zip');
+  });
+});
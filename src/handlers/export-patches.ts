@@ -0,0 +1,356 @@
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { SessionIndex, type ToolCallRecord } from '../parsers/session-index';
+import { filterByFilePath } from '../filters/operation-filter-enhanced';
+import { getWorkspaceRoot } from '../utils/workspace-utils';
+import { resolveSessionFile, resolveSessionFileById } from '../utils/session-utils';
+import {
+  FILE_CONTENT_TOOLS,
+  getCallFilePath,
+  replayOperation,
+  type ReplayState,
+} from './get-file-at-operation';
+
+/**
+ * How operations are grouped into patches
+ */
+export type PatchMode = 'operation' | 'turn' | 'file';
+
+/**
+ * Output format of each patch
+ * - diff: a `git apply`-compatible diff
+ * - mbox: an email-style patch for `git am`
+ */
+export type PatchFormat = 'diff' | 'mbox';
+
+/**
+ * Parameters for the exportPatches handler
+ */
+export interface ExportPatchesParams {
+  /**
+   * One patch per operation, per user prompt (turn), or per file. Default: operation
+   */
+  mode?: PatchMode;
+
+  /**
+   * Default: diff
+   */
+  format?: PatchFormat;
+
+  /**
+   * Only export changes to files matching this path or pattern
+   */
+  filePath?: string;
+
+  /**
+   * Only export changes made while answering this user prompt (a turn ID from listTurns)
+   */
+  turnId?: string;
+
+  /**
+   * Session to export. Default: the current session
+   */
+  sessionId?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * One patch of the series
+ */
+export interface ExportedPatch {
+  /**
+   * File name in `git format-patch` style, e.g. `0001-Edit-src-index.ts.patch`
+   */
+  name: string;
+  subject: string;
+
+  /**
+   * Operations whose changes the patch contains
+   */
+  operationIds: string[];
+
+  /**
+   * Workspace-relative paths of the files the patch changes
+   */
+  files: string[];
+  patch: string;
+}
+
+/**
+ * An operation whose change could not be exported
+ */
+export interface SkippedOperation {
+  id: string;
+  filePath: string;
+  reason: string;
+}
+
+/**
+ * Response from the exportPatches handler
+ */
+export interface ExportPatchesResponse {
+  mode: PatchMode;
+  format: PatchFormat;
+
+  /**
+   * Patches in the order they apply
+   */
+  patches: ExportedPatch[];
+  skipped: SkippedOperation[];
+}
+
+const PATCH_MODES: ReadonlySet<string> = new Set(['operation', 'turn', 'file']);
+const PATCH_FORMATS: ReadonlySet<string> = new Set(['diff', 'mbox']);
+const CHANGE_TOOLS = new Set(['Write', 'Edit', 'MultiEdit']);
+const MAX_SUBJECT_LENGTH = 72;
+
+/**
+ * Content of one file before and after an operation
+ */
+interface FileChange {
+  call: ToolCallRecord;
+  relativePath: string;
+  /** Undefined when the operation created the file */
+  before: string | undefined;
+  after: string;
+}
+
+/**
+ * Content of the file right before a change operation: the content recorded
+ * in the tool result, which includes changes made outside the recorded
+ * operations, or else the content replayed into `state` from Read and
+ * earlier operations
+ * @returns The content, undefined for a newly created file, or null if unknown
+ */
+function getContentBefore(state: ReplayState, call: ToolCallRecord): string | undefined | null {
+  const result = call.result ?? {};
+  const original = call.name === 'MultiEdit' ? result['originalFileContents'] : result['originalFile'];
+  if (typeof original === 'string') {
+    return original;
+  }
+  if (state.content !== undefined) {
+    return state.content;
+  }
+
+  // A Write that did not record creating the file overwrote unknown content
+  return call.name === 'Write' && result['type'] === 'create' ? undefined : null;
+}
+
+/**
+ * Replays the session's file operations and collects the content of each
+ * changed file before and after every successful Write/Edit/MultiEdit
+ */
+function collectFileChanges(
+  calls: ToolCallRecord[],
+  workspaceRoot: string,
+  skipped: SkippedOperation[]
+): FileChange[] {
+  const states = new Map<string, ReplayState>();
+  const changes: FileChange[] = [];
+
+  for (const call of calls) {
+    const filePath = getCallFilePath(call);
+    if (!FILE_CONTENT_TOOLS.has(call.name) || !filePath || call.isError) {
+      continue;
+    }
+
+    const absolutePath = path.resolve(workspaceRoot, filePath);
+    const state = states.get(absolutePath) ?? { content: undefined, operationsApplied: 0 };
+    states.set(absolutePath, state);
+
+    if (!CHANGE_TOOLS.has(call.name)) {
+      replayOperation(state, call);
+      continue;
+    }
+
+    const before = getContentBefore(state, call);
+    const relativePath = path.relative(workspaceRoot, absolutePath);
+
+    let reason: string | undefined;
+    if (before === null) {
+      reason = 'file content before this operation was not recorded';
+    } else if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      reason = `file is outside the workspace ${workspaceRoot}`;
+    } else {
+      state.content = before;
+      reason = replayOperation(state, call);
+    }
+
+    if (reason !== undefined || state.content === undefined) {
+      skipped.push({ id: call.id, filePath, reason: reason ?? 'file content after this operation is unknown' });
+      // Later operations start over from the content they recorded
+      state.content = undefined;
+      continue;
+    }
+
+    changes.push({
+      call,
+      relativePath: relativePath.split(path.sep).join('/'),
+      before: before ?? undefined,
+      after: state.content,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Formats one file change as a git diff with `a/` and `b/` paths
+ */
+function formatFileDiff(relativePath: string, before: string | undefined, after: string): string {
+  const patch = createTwoFilesPatch(
+    before === undefined ? '/dev/null' : `a/${relativePath}`,
+    `b/${relativePath}`,
+    before ?? '',
+    after,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+
+  // Replace jsdiff's "=====" separator with git's headers
+  const header = [`diff --git a/${relativePath} b/${relativePath}`];
+  if (before === undefined) {
+    header.push('new file mode 100644');
+  }
+  return [...header, ...patch.split('\n').slice(1)].join('\n');
+}
+
+/**
+ * Merges the changes of one group into one diff per file, from the content
+ * before the first change to the content after the last
+ */
+function formatGroupDiff(changes: FileChange[]): { diff: string; files: string[] } {
+  const byFile = new Map<string, { before: string | undefined; after: string }>();
+  for (const change of changes) {
+    const existing = byFile.get(change.relativePath);
+    byFile.set(change.relativePath, { before: existing ? existing.before : change.before, after: change.after });
+  }
+
+  const diffs: string[] = [];
+  const files: string[] = [];
+  for (const [relativePath, { before, after }] of byFile) {
+    if (before !== after) {
+      diffs.push(formatFileDiff(relativePath, before, after));
+      files.push(relativePath);
+    }
+  }
+  return { diff: diffs.join(''), files };
+}
+
+function toSubject(text: string): string {
+  const firstLine = text.trim().split('\n')[0] ?? '';
+  return firstLine.length > MAX_SUBJECT_LENGTH ? `${firstLine.slice(0, MAX_SUBJECT_LENGTH - 3)}...` : firstLine;
+}
+
+/**
+ * File name in `git format-patch` style: number and subject with unsafe characters replaced
+ */
+function toPatchName(index: number, subject: string): string {
+  const slug = subject.replace(/[^A-Za-z0-9._]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 52);
+  return `${String(index + 1).padStart(4, '0')}-${slug || 'patch'}.patch`;
+}
+
+function formatMbox(diff: string, subject: string, timestamp: string, index: number, total: number): string {
+  const date = new Date(timestamp);
+  return [
+    'From 0000000000000000000000000000000000000000 Mon Sep 17 00:00:00 2001',
+    'From: claude-ops-mcp <claude-ops-mcp@localhost>',
+    `Date: ${isNaN(date.getTime()) ? new Date(0).toUTCString() : date.toUTCString()}`,
+    `Subject: [PATCH ${index + 1}/${total}] ${subject}`,
+    '',
+    '---',
+    diff,
+  ].join('\n');
+}
+
+/**
+ * Handler for the exportPatches MCP tool
+ * Turns the session's Write/Edit/MultiEdit operations into a patch series
+ * with workspace-relative `a/` and `b/` paths that `git apply` (diff format)
+ * or `git am` (mbox format) accept.
+ *
+ * @param params - Parameters for the export
+ * @returns Patches in the order they apply, and operations that could not be exported
+ */
+export async function handleExportPatches(params: ExportPatchesParams = {}): Promise<ExportPatchesResponse> {
+  const mode = params.mode ?? 'operation';
+  if (!PATCH_MODES.has(mode)) {
+    throw new Error(`Unknown patch mode: ${mode}`);
+  }
+  const format = params.format ?? 'diff';
+  if (!PATCH_FORMATS.has(format)) {
+    throw new Error(`Unknown patch format: ${format}`);
+  }
+
+  const sessionFile = params.sessionId
+    ? await resolveSessionFileById(params.sessionId)
+    : await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  // Paths are relative to the workspace root, not the directory of each
+  // call, so patches apply from the repository root
+  const workspaceRoot = getWorkspaceRoot();
+  const skipped: SkippedOperation[] = [];
+  let changes = collectFileChanges(index.calls, workspaceRoot, skipped);
+
+  if (params.turnId) {
+    changes = changes.filter(change => change.call.turnId === params.turnId);
+  }
+  if (params.filePath) {
+    const operations = changes.map(change => change.call.operation);
+    const matching = new Set(filterByFilePath(operations, params.filePath, workspaceRoot).map(op => op.id));
+    changes = changes.filter(change => matching.has(change.call.id));
+  }
+
+  // Group changes, keeping the order in which groups first appear
+  const groups = new Map<string, FileChange[]>();
+  changes.forEach((change, i) => {
+    const key =
+      mode === 'operation' ? String(i) : mode === 'turn' ? (change.call.turnId ?? '') : change.relativePath;
+    groups.set(key, [...(groups.get(key) ?? []), change]);
+  });
+
+  const prompts = new Map(index.turns.map(turn => [turn.id, turn.prompt]));
+  const series = [...groups.entries()]
+    .map(([key, group]) => {
+      const first = group[0];
+      const last = group[group.length - 1];
+      if (!first || !last) {
+        return undefined;
+      }
+
+      const { diff, files } = formatGroupDiff(group);
+      let subject: string;
+      if (mode === 'turn') {
+        subject = toSubject(prompts.get(key) ?? 'Changes not linked to a prompt');
+      } else if (mode === 'file') {
+        subject = `${first.before === undefined ? 'Create' : 'Update'} ${first.relativePath}`;
+      } else {
+        subject = `${first.call.name} ${first.relativePath}`;
+      }
+
+      return { diff, files, subject, timestamp: last.call.timestamp, operationIds: group.map(c => c.call.id) };
+    })
+    .filter((entry): entry is NonNullable<typeof entry> => entry !== undefined && entry.diff !== '');
+
+  return {
+    mode,
+    format,
+    patches: series.map((entry, i) => ({
+      name: toPatchName(i, entry.subject),
+      subject: entry.subject,
+      operationIds: entry.operationIds,
+      files: entry.files,
+      patch:
+        format === 'mbox'
+          ? formatMbox(entry.diff, entry.subject, entry.timestamp, i, series.length)
+          : entry.diff,
+    })),
+    skipped,
+  };
+}
@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildSessionReport, handleGenerateSessionReport } from './generate-session-report';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+
+describe('handleGenerateSessionReport', () => {
+  let tmpDir: string;
+
+  const entry = (type: string, uuid: string, parentUuid: string | null, timestamp: string, rest: object): string =>
+    JSON.stringify({ type, uuid, parentUuid, cwd: tmpDir, timestamp, ...rest });
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'session-report-test-')));
+    const output = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`).join('\n');
+
+    const sessionFile = path.join(tmpDir, 'session-report.jsonl');
+    fs.writeFileSync(
+      sessionFile,
+      [
+        entry('user', 'p1', null, '2024-01-01T10:00:00.000Z', { message: { content: 'Add a greeting | and test it' } }),
+        entry('assistant', 'w-use', 'p1', '2024-01-01T10:00:05.000Z', {
+          message: {
+            content: [
+              { type: 'tool_use', id: 'toolu_write', name: 'Write', input: { file_path: path.join(tmpDir, 'hello.ts'), content: 'export const hi = "<b>";\n' } },
+            ],
+          },
+        }),
+        entry('user', 'w-result', 'w-use', '2024-01-01T10:00:06.000Z', {
+          message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_write', content: 'ok' }] },
+          toolUseResult: { type: 'create' },
+        }),
+        entry('assistant', 'b-use', 'w-result', '2024-01-01T10:00:10.000Z', {
+          message: { content: [{ type: 'tool_use', id: 'toolu_test', name: 'Bash', input: { command: 'npm test' } }] },
+        }),
+        entry('user', 'b-result', 'b-use', '2024-01-01T10:01:10.000Z', {
+          message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_test', content: 'failed', is_error: true }] },
+          toolUseResult: { stdout: output, stderr: 'Test failed: hello', exitCode: 1 },
+        }),
+        entry('user', 'p2', null, '2024-01-01T10:02:00.000Z', { message: { content: 'Show the greeting' } }),
+        entry('assistant', 'r-use', 'p2', '2024-01-01T10:02:30.000Z', {
+          message: { content: [{ type: 'tool_use', id: 'toolu_read', name: 'Read', input: { file_path: path.join(tmpDir, 'gone.ts') } }] },
+        }),
+        entry('user', 'r-result', 'r-use', '2024-01-01T10:03:00.000Z', {
+          message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_read', content: 'File does not exist.', is_error: true }] },
+        }),
+      ].join('\n')
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+    _setTestWorkspaceRoot(tmpDir);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should collect timing, file diffs, commands and failures', async () => {
+    const report = await buildSessionReport({ maxOutputLines: 5 });
+
+    expect(report).toMatchObject({
+      sessionId: 'session-report',
+      startedAt: '2024-01-01T10:00:00.000Z',
+      endedAt: '2024-01-01T10:03:00.000Z',
+      durationMs: 180000,
+      toolCallCount: 3,
+      turns: [
+        { prompt: 'Add a greeting | and test it', durationMs: 120000, toolCallCount: 2 },
+        { prompt: 'Show the greeting', durationMs: 60000, toolCallCount: 1 },
+      ],
+      files: [{ path: 'hello.ts', operationIds: ['toolu_write'] }],
+      commands: [{ id: 'toolu_test', command: 'npm test', exitCode: 1, omittedLines: 26 }],
+      failures: [
+        { id: 'toolu_test', tool: 'Bash', target: 'npm test', message: 'Test failed: hello' },
+        { id: 'toolu_read', tool: 'Read', target: path.join(tmpDir, 'gone.ts'), message: 'File does not exist.' },
+      ],
+    });
+    expect(report.commands[0]?.output).toBe('line 27\nline 28\nline 29\nline 30\nTest failed: hello');
+  });
+
+  it('should render Markdown by default', async () => {
+    const result = await handleGenerateSessionReport();
+
+    expect(result.format).toBe('markdown');
+    expect(result.report).toContain('# Session report: session-report');
+    expect(result.report).toContain('| Duration | 3m |');
+    expect(result.report).toContain('| 1 | 2024-01-01T10:00:00.000Z | 2m | 2 | Add a greeting \\| and test it |');
+    expect(result.report).toContain('### `hello.ts`\n\n```diff\ndiff --git a/hello.ts b/hello.ts\nnew file mode 100644');
+    expect(result.report).toContain('### Exit 1: `npm test`');
+    expect(result.report).toContain('_Last 20 lines of output; 11 omitted._');
+    expect(result.report).toContain('- 2024-01-01T10:00:10.000Z Bash `npm test`: Test failed: hello');
+  });
+
+  it('should not report an exit code for commands without a result', async () => {
+    fs.appendFileSync(
+      path.join(tmpDir, 'session-report.jsonl'),
+      '\n' +
+        entry('assistant', 'd-use', 'r-result', '2024-01-01T10:03:30.000Z', {
+          message: { content: [{ type: 'tool_use', id: 'toolu_dev', name: 'Bash', input: { command: 'npm run dev' } }] },
+        })
+    );
+
+    const report = await buildSessionReport();
+    const markdown = await handleGenerateSessionReport();
+    const html = await handleGenerateSessionReport({ format: 'html' });
+
+    expect(report.commands[1]).toEqual({
+      id: 'toolu_dev',
+      timestamp: '2024-01-01T10:03:30.000Z',
+      command: 'npm run dev',
+      output: '',
+      omittedLines: 0,
+    });
+    expect(markdown.report).toContain('### No result: `npm run dev`');
+    expect(html.report).toContain('<span>no result</span> npm run dev');
+  });
+
+  it('should render a static HTML page with collapsible, escaped diffs', async () => {
+    const result = await handleGenerateSessionReport({ format: 'html', maxOutputLines: 0 });
+
+    expect(result.report.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(result.report).toContain('<details><summary>hello.ts</summary><pre>');
+    expect(result.report).toContain('<span class="add">+export const hi = &quot;&lt;b&gt;&quot;;</span>');
+    expect(result.report).toContain('<span class="failed">exit 1</span> npm test');
+    expect(result.report).not.toContain('line 30');
+    expect(result.report).not.toMatch(/<(script|link)\b/);
+  });
+
+  it('should reject unknown formats', async () => {
+    await expect(handleGenerateSessionReport({ format: 'pdf' as never })).rejects.toThrow(
+      'Unknown report format: pdf'
+    );
+  });
+});
@@ -0,0 +1,530 @@
+import { SessionIndex, getBashExitCode, getBashOutput, type ToolCallRecord } from '../parsers/session-index';
+import { getSessionIdFromFile, resolveSessionFile, resolveSessionFileById } from '../utils/session-utils';
+import { getTimeRange, toTime } from '../utils/time-utils';
+import { handleExportPatches } from './export-patches';
+
+/**
+ * Output format of a session report
+ * - markdown: self-contained Markdown, e.g. for PR descriptions
+ * - html: a single static HTML page with collapsible diffs
+ */
+export type ReportFormat = 'markdown' | 'html';
+
+/**
+ * Parameters for building a session report
+ */
+export interface SessionReportParams {
+  /**
+   * Number of lines kept from the end of each command's output. Default: 20, 0 omits output
+   */
+  maxOutputLines?: number;
+
+  /**
+   * Session to report on. Default: the current session
+   */
+  sessionId?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * Parameters for the generateSessionReport handler
+ */
+export interface GenerateSessionReportParams extends SessionReportParams {
+  /**
+   * Default: markdown
+   */
+  format?: ReportFormat;
+}
+
+/**
+ * Response from the generateSessionReport handler
+ */
+export interface GenerateSessionReportResponse {
+  sessionId: string;
+  format: ReportFormat;
+  report: string;
+}
+
+/**
+ * A user prompt and how long the session spent on it
+ */
+export interface ReportTurn {
+  timestamp: string;
+  prompt: string;
+
+  /**
+   * Time until the next prompt, or until the last event for the last prompt
+   */
+  durationMs: number;
+  toolCallCount: number;
+}
+
+/**
+ * A file changed in the session, with the diff from its first to its last version
+ */
+export interface ReportFile {
+  /**
+   * Workspace-relative path
+   */
+  path: string;
+  operationIds: string[];
+  diff: string;
+}
+
+/**
+ * A Bash command with the end of its output
+ */
+export interface ReportCommand {
+  id: string;
+  timestamp: string;
+  command: string;
+
+  /**
+   * Exit code of the command; omitted while it has no result
+   */
+  exitCode?: number;
+  output: string;
+
+  /**
+   * Number of output lines left out of `output`
+   */
+  omittedLines: number;
+}
+
+/**
+ * A tool call that failed
+ */
+export interface ReportFailure {
+  id: string;
+  timestamp: string;
+  tool: string;
+
+  /**
+   * Command, file path or other target of the call
+   */
+  target: string;
+
+  /**
+   * First line of the error output
+   */
+  message: string;
+}
+
+/**
+ * Everything a session report shows, before rendering
+ */
+export interface SessionReport {
+  sessionId: string;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs: number;
+  toolCallCount: number;
+  turns: ReportTurn[];
+  files: ReportFile[];
+
+  /**
+   * Changes whose diff could not be reconstructed
+   */
+  unavailableChanges: Array<{ id: string; filePath: string; reason: string }>;
+  commands: ReportCommand[];
+  failures: ReportFailure[];
+}
+
+const REPORT_FORMATS: ReadonlySet<string> = new Set(['markdown', 'html']);
+const DEFAULT_MAX_OUTPUT_LINES = 20;
+const MAX_PROMPT_LENGTH = 120;
+
+function getTarget(call: ToolCallRecord): string {
+  const command = call.input['command'];
+  if (typeof command === 'string') {
+    return command;
+  }
+  return call.operation.filePath ?? '';
+}
+
+/**
+ * Keeps the last `maxLines` lines of a command's output
+ */
+function tailOutput(call: ToolCallRecord, maxLines: number): { output: string; omittedLines: number } {
+  const { stdout, stderr } = getBashOutput(call);
+  const text = [stdout, stderr].filter(part => part.trim() !== '').join('\n').replace(/\n+$/, '');
+  if (text === '') {
+    return { output: '', omittedLines: 0 };
+  }
+
+  const lines = text.split('\n');
+  const kept = maxLines > 0 ? lines.slice(-maxLines) : [];
+  return { output: kept.join('\n'), omittedLines: lines.length - kept.length };
+}
+
+/**
+ * Collects the data shown in a session report: timing per prompt, the diff
+ * of every changed file, Bash commands with the end of their output, and
+ * failed tool calls.
+ *
+ * @param params - Session and output options
+ * @returns Report data, in log order
+ */
+export async function buildSessionReport(params: SessionReportParams = {}): Promise<SessionReport> {
+  const maxOutputLines = params.maxOutputLines ?? DEFAULT_MAX_OUTPUT_LINES;
+  if (maxOutputLines < 0) {
+    throw new Error('Max output lines must not be negative');
+  }
+
+  const sessionFile = params.sessionId
+    ? await resolveSessionFileById(params.sessionId)
+    : await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  const { start, end } = getTimeRange(index.events.map(event => event.timestamp));
+
+  const callCounts = new Map<string, number>();
+  for (const call of index.calls) {
+    if (call.turnId) {
+      callCounts.set(call.turnId, (callCounts.get(call.turnId) ?? 0) + 1);
+    }
+  }
+
+  const turns = index.turns.map((turn, i) => {
+    const turnStart = toTime(turn.timestamp);
+    const turnEnd = toTime(index.turns[i + 1]?.timestamp) ?? end;
+    return {
+      timestamp: turn.timestamp,
+      prompt: turn.prompt,
+      durationMs: turnStart !== undefined && turnEnd !== undefined ? Math.max(0, turnEnd - turnStart) : 0,
+      toolCallCount: callCounts.get(turn.id) ?? 0,
+    };
+  });
+
+  const patches = await handleExportPatches({
+    mode: 'file',
+    ...(params.sessionId && { sessionId: params.sessionId }),
+    ...(params.toolUseId && { toolUseId: params.toolUseId }),
+  });
+
+  const bashCalls = index.calls.filter(call => call.name === 'Bash');
+  const failures = index.calls.filter(call =>
+    call.name === 'Bash' ? call.hasResult && getBashExitCode(call) !== 0 : call.isError
+  );
+
+  return {
+    sessionId: getSessionIdFromFile(sessionFile),
+    ...(start !== undefined && { startedAt: new Date(start).toISOString() }),
+    ...(end !== undefined && { endedAt: new Date(end).toISOString() }),
+    durationMs: start !== undefined && end !== undefined ? end - start : 0,
+    toolCallCount: index.calls.length,
+    turns,
+    files: patches.patches.map(patch => ({
+      path: patch.files[0] ?? patch.subject,
+      operationIds: patch.operationIds,
+      diff: patch.patch,
+    })),
+    unavailableChanges: patches.skipped,
+    commands: bashCalls.map(call => {
+      const command = call.input['command'];
+      return {
+        id: call.id,
+        timestamp: call.timestamp,
+        command: typeof command === 'string' ? command : '',
+        ...(call.hasResult && { exitCode: getBashExitCode(call) }),
+        ...tailOutput(call, maxOutputLines),
+      };
+    }),
+    failures: failures.map(call => {
+      const { stderr } = getBashOutput(call);
+      const errorText = call.name === 'Bash' ? stderr || call.output || '' : call.output ?? '';
+      return {
+        id: call.id,
+        timestamp: call.timestamp,
+        tool: call.name,
+        target: getTarget(call),
+        message: errorText.split('\n').find(line => line.trim() !== '')?.trim() ?? '',
+      };
+    }),
+  };
+}
+
+/**
+ * Formats a duration as e.g. `1h 5m 3s`
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  const parts = [
+    [Math.floor(seconds / 3600), 'h'],
+    [Math.floor((seconds % 3600) / 60), 'm'],
+    [seconds % 60, 's'],
+  ] as const;
+  const shown = parts.filter(([value]) => value > 0).map(([value, unit]) => `${value}${unit}`);
+  return shown.length > 0 ? shown.join(' ') : '0s';
+}
+
+function firstLine(text: string, maxLength: number = MAX_PROMPT_LENGTH): string {
+  const line = text.trim().split('\n')[0] ?? '';
+  return line.length > maxLength || text.trim().includes('\n') ? `${line.slice(0, maxLength)}…` : line;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Wraps text in a code fence longer than any backtick run inside it
+ */
+function fence(text: string, language: string = ''): string {
+  const longestRun = (text.match(/`+/g) ?? []).reduce((longest, run) => Math.max(longest, run.length), 2);
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+function inlineCode(text: string): string {
+  const marker = text.includes('`') ? '``' : '`';
+  return `${marker}${marker === '``' ? ` ${text} ` : text}${marker}`;
+}
+
+function summarize(report: SessionReport): Array<[string, string]> {
+  const failedCommands = report.commands.filter(
+    command => command.exitCode !== undefined && command.exitCode !== 0
+  ).length;
+  const rows: Array<[string, string]> = [
+    ['Started', report.startedAt ?? '-'],
+    ['Ended', report.endedAt ?? '-'],
+    ['Duration', formatDuration(report.durationMs)],
+    ['Prompts', String(report.turns.length)],
+    ['Tool calls', String(report.toolCallCount)],
+    ['Files changed', String(report.files.length)],
+    ['Commands', `${report.commands.length} (${failedCommands} failed)`],
+    ['Failures', String(report.failures.length)],
+  ];
+  if (report.unavailableChanges.length > 0) {
+    rows.push(['Changes without a diff', String(report.unavailableChanges.length)]);
+  }
+  return rows;
+}
+
+/**
+ * Renders a session report as self-contained Markdown
+ */
+export function renderMarkdownReport(report: SessionReport): string {
+  const lines: string[] = [`# Session report: ${report.sessionId}`, '', '| | |', '|---|---|'];
+  for (const [label, value] of summarize(report)) {
+    lines.push(`| ${label} | ${escapeTableCell(value)} |`);
+  }
+
+  lines.push('', '## Prompts', '');
+  if (report.turns.length === 0) {
+    lines.push('_No prompts recorded._');
+  } else {
+    lines.push('| # | Started | Duration | Tool calls | Prompt |', '|---|---|---|---|---|');
+    report.turns.forEach((turn, i) => {
+      lines.push(
+        `| ${i + 1} | ${turn.timestamp} | ${formatDuration(turn.durationMs)} | ${turn.toolCallCount} | ${escapeTableCell(firstLine(turn.prompt))} |`
+      );
+    });
+  }
+
+  lines.push('', '## Changed files', '');
+  if (report.files.length === 0 && report.unavailableChanges.length === 0) {
+    lines.push('_No file changes recorded._');
+  }
+  for (const file of report.files) {
+    lines.push(`### ${inlineCode(file.path)}`, '', fence(file.diff, 'diff'), '');
+  }
+  if (report.unavailableChanges.length > 0) {
+    lines.push('Changes without a diff:', '');
+    for (const change of report.unavailableChanges) {
+      lines.push(`- ${inlineCode(change.filePath)} (${change.id}): ${change.reason}`);
+    }
+  }
+
+  lines.push('', '## Commands', '');
+  if (report.commands.length === 0) {
+    lines.push('_No commands recorded._');
+  }
+  for (const command of report.commands) {
+    const status = command.exitCode !== undefined ? `Exit ${command.exitCode}` : 'No result';
+    lines.push(`### ${status}: ${inlineCode(firstLine(command.command))}`, '');
+    lines.push(`${command.timestamp} · ${command.id}`, '', fence(command.command, 'sh'), '');
+    if (command.output !== '') {
+      if (command.omittedLines > 0) {
+        lines.push(`_Last ${command.output.split('\n').length} lines of output; ${command.omittedLines} omitted._`, '');
+      }
+      lines.push(fence(command.output), '');
+    }
+  }
+
+  lines.push('', '## Failures', '');
+  if (report.failures.length === 0) {
+    lines.push('_No failures recorded._');
+  }
+  for (const failure of report.failures) {
+    const message = failure.message ? `: ${failure.message}` : '';
+    lines.push(`- ${failure.timestamp} ${failure.tool} ${inlineCode(firstLine(failure.target))}${message}`);
+  }
+
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd()}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Wraps each diff line in a span so additions, removals and hunks can be colored
+ */
+function highlightDiff(diff: string): string {
+  return diff
+    .replace(/\n$/, '')
+    .split('\n')
+    .map(line => {
+      let className = '';
+      if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) {
+        className = 'meta';
+      } else if (line.startsWith('+')) {
+        className = 'add';
+      } else if (line.startsWith('-')) {
+        className = 'del';
+      } else if (line.startsWith('@@')) {
+        className = 'hunk';
+      }
+      return className ? `<span class="${className}">${escapeHtml(line)}</span>` : escapeHtml(line);
+    })
+    .join('\n');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; margin: 2rem auto; max-width: 60rem; padding: 0 1rem; color: #1f2328; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+pre { background: #f6f8fa; padding: 0.8rem; overflow-x: auto; font-size: 0.85rem; }
+details { margin: 0.5rem 0; }
+summary { cursor: pointer; font-family: ui-monospace, monospace; }
+.add { color: #116329; background: #dafbe1; }
+.del { color: #82071e; background: #ffebe9; }
+.hunk { color: #0550ae; }
+.meta { color: #57606a; }
+.failed { color: #cf222e; }
+`.trim();
+
+/**
+ * Renders a session report as a single static HTML page with collapsible
+ * diffs and command output
+ */
+export function renderHtmlReport(report: SessionReport): string {
+  const title = `Session report: ${report.sessionId}`;
+  const body: string[] = [`<h1>${escapeHtml(title)}</h1>`, '<table>'];
+  for (const [label, value] of summarize(report)) {
+    body.push(`<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`);
+  }
+  body.push('</table>');
+
+  body.push('<h2>Prompts</h2>');
+  if (report.turns.length === 0) {
+    body.push('<p><em>No prompts recorded.</em></p>');
+  } else {
+    body.push('<table>', '<tr><th>#</th><th>Started</th><th>Duration</th><th>Tool calls</th><th>Prompt</th></tr>');
+    report.turns.forEach((turn, i) => {
+      body.push(
+        `<tr><td>${i + 1}</td><td>${escapeHtml(turn.timestamp)}</td><td>${formatDuration(turn.durationMs)}</td>` +
+          `<td>${turn.toolCallCount}</td><td>${escapeHtml(firstLine(turn.prompt))}</td></tr>`
+      );
+    });
+    body.push('</table>');
+  }
+
+  body.push('<h2>Changed files</h2>');
+  if (report.files.length === 0 && report.unavailableChanges.length === 0) {
+    body.push('<p><em>No file changes recorded.</em></p>');
+  }
+  for (const file of report.files) {
+    body.push(
+      `<details><summary>${escapeHtml(file.path)}</summary><pre>${highlightDiff(file.diff)}</pre></details>`
+    );
+  }
+  if (report.unavailableChanges.length > 0) {
+    body.push('<p>Changes without a diff:</p>', '<ul>');
+    for (const change of report.unavailableChanges) {
+      body.push(
+        `<li><code>${escapeHtml(change.filePath)}</code> (${escapeHtml(change.id)}): ${escapeHtml(change.reason)}</li>`
+      );
+    }
+    body.push('</ul>');
+  }
+
+  body.push('<h2>Commands</h2>');
+  if (report.commands.length === 0) {
+    body.push('<p><em>No commands recorded.</em></p>');
+  }
+  for (const command of report.commands) {
+    const exitClass = command.exitCode !== undefined && command.exitCode !== 0 ? ' class="failed"' : '';
+    const status = command.exitCode !== undefined ? `exit ${command.exitCode}` : 'no result';
+    const omitted =
+      command.omittedLines > 0 ? `<p><em>${command.omittedLines} earlier lines omitted.</em></p>` : '';
+    const output = command.output !== '' ? `${omitted}<pre>${escapeHtml(command.output)}</pre>` : '';
+    body.push(
+      `<details><summary><span${exitClass}>${status}</span> ${escapeHtml(firstLine(command.command))}</summary>` +
+        `<p>${escapeHtml(command.timestamp)} · ${escapeHtml(command.id)}</p>` +
+        `<pre>${escapeHtml(command.command)}</pre>${output}</details>`
+    );
+  }
+
+  body.push('<h2>Failures</h2>');
+  if (report.failures.length === 0) {
+    body.push('<p><em>No failures recorded.</em></p>');
+  } else {
+    body.push('<ul>');
+    for (const failure of report.failures) {
+      const message = failure.message ? `: ${escapeHtml(failure.message)}` : '';
+      body.push(
+        `<li>${escapeHtml(failure.timestamp)} ${escapeHtml(failure.tool)} <code>${escapeHtml(firstLine(failure.target))}</code>${message}</li>`
+      );
+    }
+    body.push('</ul>');
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Handler for the generateSessionReport MCP tool
+ * Renders a session's changed files with diffs, commands with exit codes and
+ * truncated output, failures and timing as Markdown or a static HTML page.
+ *
+ * @param params - Parameters for the report
+ * @returns The rendered report
+ */
+export async function handleGenerateSessionReport(
+  params: GenerateSessionReportParams = {}
+): Promise<GenerateSessionReportResponse> {
+  const format = params.format ?? 'markdown';
+  if (!REPORT_FORMATS.has(format)) {
+    throw new Error(`Unknown report format: ${format}`);
+  }
+
+  const report = await buildSessionReport(params);
+  return {
+    sessionId: report.sessionId,
+    format,
+    report: format === 'html' ? renderHtmlReport(report) : renderMarkdownReport(report),
+  };
+}
@@ -0,0 +1,99 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { handleGetChangeGitStatus } from './get-change-git-status';
+import { UIDManager } from '../uid-manager';
+import { toolCall, writeSessionFile } from '../__tests__/helpers/session-fixtures';
+
+describe('handleGetChangeGitStatus', () => {
+  let tmpDir: string;
+  let repo: string;
+
+  const git = (...args: string[]): void => {
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repo,
+      stdio: 'ignore',
+    });
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-status-test-')));
+    repo = path.join(tmpDir, 'repo');
+    fs.mkdirSync(repo);
+    git('init', '-q');
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'const a = 1;\n');
+    git('add', 'a.ts');
+    git('commit', '-q', '-m', 'Initial commit');
+
+    // Claude's edits: a.ts is committed, b.ts only staged, c.ts only in the working tree
+    fs.writeFileSync(path.join(repo, 'a.ts'), 'const a = 2;\n');
+    git('commit', '-q', '-am', 'Bump a');
+    fs.writeFileSync(path.join(repo, 'b.ts'), 'export const b = true;\n');
+    git('add', 'b.ts');
+    fs.writeFileSync(path.join(repo, 'c.ts'), 'draft\n');
+
+    const sessionFile = path.join(tmpDir, 'session.jsonl');
+    writeSessionFile(sessionFile, [
+      ...toolCall('toolu_a', 'Edit', { file_path: path.join(repo, 'a.ts'), old_string: '1', new_string: 'const a = 2' }),
+      ...toolCall('toolu_b', 'Write', { file_path: path.join(repo, 'b.ts'), content: 'export const b = true;\n' }),
+      ...toolCall('toolu_c', 'MultiEdit', {
+        file_path: path.join(repo, 'c.ts'),
+        edits: [
+          { old_string: 'x', new_string: 'draft' },
+          { old_string: 'y', new_string: '' },
+        ],
+      }),
+      ...toolCall('toolu_lost', 'Edit', { file_path: path.join(repo, 'a.ts'), old_string: '2', new_string: 'const a = 3' }),
+      ...toolCall('toolu_removal', 'Edit', { file_path: path.join(repo, 'a.ts'), old_string: 'x', new_string: '' }),
+      ...toolCall('toolu_failed', 'Edit', { file_path: path.join(repo, 'a.ts'), old_string: 'x', new_string: 'y' }, { isError: true }),
+      ...toolCall('toolu_outside', 'Write', { file_path: path.join(tmpDir, 'notes.md'), content: 'notes' }),
+    ]);
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report where the text written by each change is present', async () => {
+    const result = await handleGetChangeGitStatus();
+
+    expect(result.changes.map(change => change.id)).toEqual([
+      'toolu_outside',
+      'toolu_removal',
+      'toolu_lost',
+      'toolu_c',
+      'toolu_b',
+      'toolu_a',
+    ]);
+    const byId = new Map(result.changes.map(change => [change.id, change]));
+
+    expect(byId.get('toolu_a')).toMatchObject({
+      repositoryPath: 'a.ts',
+      presence: { workingTree: true, index: true, head: true },
+      firstCommit: { subject: 'Bump a' },
+    });
+    expect(byId.get('toolu_b')).toMatchObject({ presence: { workingTree: true, index: true, head: false } });
+    expect(byId.get('toolu_b')).not.toHaveProperty('firstCommit');
+    expect(byId.get('toolu_c')).toMatchObject({ presence: { workingTree: true, index: false, head: false } });
+    expect(byId.get('toolu_lost')).toMatchObject({ presence: { workingTree: false, index: false, head: false } });
+    expect(byId.get('toolu_removal')).toMatchObject({ reason: 'The change only removes text' });
+    expect(byId.get('toolu_outside')).toMatchObject({ reason: 'The file is not in a git repository' });
+
+    expect(result.summary).toEqual({ inWorkingTree: 3, inIndex: 2, inHead: 1, unchecked: 2 });
+  });
+
+  it('should filter by file path and apply the limit', async () => {
+    const result = await handleGetChangeGitStatus({ filePath: path.join(repo, 'a.ts'), limit: 1 });
+
+    expect(result.changes.map(change => change.id)).toEqual(['toolu_removal']);
+    expect(result.totalCount).toBe(3);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should reject an invalid limit', async () => {
+    await expect(handleGetChangeGitStatus({ limit: 0 })).rejects.toThrow('Limit must be between 1 and 1000');
+  });
+});
@@ -0,0 +1,288 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SessionIndex, type ToolCallRecord } from '../parsers/session-index';
+import { filterByFilePath } from '../filters/operation-filter-enhanced';
+import { resolveSessionFile } from '../utils/session-utils';
+import {
+  locateInRepository,
+  showFile,
+  findCommitsChangingString,
+  type RepositoryPath,
+} from '../utils/git-utils';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+
+/**
+ * Parameters for the getChangeGitStatus handler
+ */
+export interface GetChangeGitStatusParams {
+  /**
+   * Only check changes to files matching this path or pattern
+   */
+  filePath?: string;
+
+  /**
+   * Maximum number of changes to check
+   * Default: 100, Maximum: the configured maxLimit (1000 by default)
+   */
+  limit?: number;
+
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * Where the text written by a change is present
+ */
+export interface ChangePresence {
+  workingTree: boolean;
+  index: boolean;
+  head: boolean;
+}
+
+/**
+ * Git status of one Edit/Write/MultiEdit
+ */
+export interface ChangeGitStatus {
+  id: string;
+  timestamp: string;
+  tool: string;
+  filePath: string;
+
+  /**
+   * Path of the file relative to the repository root
+   */
+  repositoryPath?: string;
+
+  /**
+   * Whether the text written by the change (`new_string`, every MultiEdit
+   * `new_string`, or the Write `content`) is present. Omitted when the change
+   * could not be checked; see `reason`
+   */
+  presence?: ChangePresence;
+
+  /**
+   * Oldest commit whose version of the file contains the written text
+   */
+  firstCommit?: {
+    hash: string;
+    date: string;
+    subject: string;
+  };
+
+  /**
+   * Why the change could not be checked
+   */
+  reason?: string;
+}
+
+/**
+ * Response from the getChangeGitStatus handler
+ */
+export interface GetChangeGitStatusResponse {
+  /**
+   * Changes, newest first
+   */
+  changes: ChangeGitStatus[];
+
+  /**
+   * Number of returned changes whose text is in each location
+   */
+  summary: {
+    inWorkingTree: number;
+    inIndex: number;
+    inHead: number;
+    unchecked: number;
+  };
+
+  /**
+   * Total count of matching changes (before limit)
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more changes beyond the limit
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
+  /**
+   * The limit that was applied
+   */
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const CHANGE_TOOLS = new Set(['Edit', 'Write', 'MultiEdit']);
+
+/**
+ * Longest search string passed to `git log -S`; command-line arguments are limited in size
+ */
+const MAX_PICKAXE_LENGTH = 4096;
+
+/**
+ * Texts written by a change. Pure deletions (empty `new_string`) write nothing.
+ */
+function getWrittenTexts(call: ToolCallRecord): string[] {
+  let texts: unknown[];
+  if (call.name === 'Write') {
+    texts = [call.input['content']];
+  } else if (call.name === 'MultiEdit') {
+    const edits = Array.isArray(call.input['edits']) ? (call.input['edits'] as Array<Record<string, unknown>>) : [];
+    texts = edits.map(edit => edit['new_string']);
+  } else {
+    texts = [call.input['new_string']];
+  }
+
+  return texts.filter((text): text is string => typeof text === 'string' && text !== '');
+}
+
+function containsAll(content: string | undefined, texts: string[]): boolean {
+  return content !== undefined && texts.every(text => content.includes(text));
+}
+
+/**
+ * Picks the string given to `git log -S`: the longest line of the longest text
+ */
+function getPickaxeText(texts: string[]): string {
+  const lines = texts.flatMap(text => text.split('\n')).filter(line => line.trim() !== '');
+  const longest = lines.reduce((a, b) => (b.length > a.length ? b : a), texts[0] ?? '');
+  return longest.slice(0, MAX_PICKAXE_LENGTH);
+}
+
+async function readWorkingTreeFile(repository: RepositoryPath): Promise<string | undefined> {
+  try {
+    return await fs.readFile(path.join(repository.root, repository.relativePath), 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+async function checkChange(
+  call: ToolCallRecord,
+  filePath: string,
+  locate: (filePath: string) => Promise<RepositoryPath | undefined>
+): Promise<ChangeGitStatus> {
+  const status: ChangeGitStatus = {
+    id: call.id,
+    timestamp: call.operation.timestamp,
+    tool: call.name,
+    filePath,
+  };
+
+  const texts = getWrittenTexts(call);
+  if (texts.length === 0) {
+    return { ...status, reason: 'The change only removes text' };
+  }
+
+  const repository = await locate(filePath);
+  if (!repository) {
+    return { ...status, reason: 'The file is not in a git repository' };
+  }
+  status.repositoryPath = repository.relativePath;
+
+  const [workingTree, index, head] = await Promise.all([
+    readWorkingTreeFile(repository),
+    showFile(repository.root, '', repository.relativePath),
+    showFile(repository.root, 'HEAD', repository.relativePath),
+  ]);
+  status.presence = {
+    workingTree: containsAll(workingTree, texts),
+    index: containsAll(index, texts),
+    head: containsAll(head, texts),
+  };
+
+  // Commits that changed how often the text occurs; the first one whose
+  // version contains every written text is the one that landed the change
+  const commits = await findCommitsChangingString(repository.root, repository.relativePath, getPickaxeText(texts));
+  for (const commit of commits) {
+    if (containsAll(await showFile(repository.root, commit.hash, repository.relativePath), texts)) {
+      status.firstCommit = commit;
+      break;
+    }
+  }
+
+  return status;
+}
+
+/**
+ * Handler for the getChangeGitStatus MCP tool
+ * Checks for each Edit/Write/MultiEdit of the session whether the text it
+ * wrote is still in the working tree, the index and HEAD of the file's git
+ * repository, and which commit first contained it.
+ *
+ * @param params - Parameters for the check
+ * @returns Git status of the changes, newest first
+ */
+export async function handleGetChangeGitStatus(
+  params: GetChangeGitStatusParams = {}
+): Promise<GetChangeGitStatusResponse> {
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
+  }
+
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  // Failed tool calls did not change the file
+  let operations = index
+    .getOperations()
+    .filter(op => CHANGE_TOOLS.has(op.tool) && op.filePath && !index.get(op.id)?.isError);
+  if (params.filePath) {
+    operations = filterByFilePath(operations, params.filePath, process.cwd());
+  }
+
+  const changes = [...operations].reverse();
+  const totalCount = changes.length;
+  const page = paginate(
+    changes,
+    { limit, order: 'desc', ...(params.cursor && { cursor: params.cursor }) },
+    operation => ({ id: operation.id, timestamp: operation.timestamp })
+  );
+
+  // Files are usually changed several times in a session
+  const repositories = new Map<string, Promise<RepositoryPath | undefined>>();
+  const locate = (filePath: string): Promise<RepositoryPath | undefined> => {
+    let repository = repositories.get(filePath);
+    if (!repository) {
+      repository = locateInRepository(filePath);
+      repositories.set(filePath, repository);
+    }
+    return repository;
+  };
+
+  const results: ChangeGitStatus[] = [];
+  for (const operation of page.items) {
+    const call = index.get(operation.id);
+    if (call && operation.filePath) {
+      results.push(await checkChange(call, operation.filePath, locate));
+    }
+  }
+
+  return {
+    changes: results,
+    summary: {
+      inWorkingTree: results.filter(change => change.presence?.workingTree).length,
+      inIndex: results.filter(change => change.presence?.index).length,
+      inHead: results.filter(change => change.presence?.head).length,
+      unchecked: results.filter(change => !change.presence).length,
+    },
+    totalCount,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
+  };
+}
@@ -0,0 +1,233 @@
+import { handleGetFileAtOperation } from './get-file-at-operation';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+import { toolResult, toolUse, writeSessionFile } from '../__tests__/helpers/session-fixtures';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('handleGetFileAtOperation', () => {
+  const filePath = '/workspace/src/app.ts';
+  let tmpDir: string;
+  let sessionFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-at-op-'));
+    sessionFile = path.join(tmpDir, 'session.jsonl');
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('Replay from a Write', () => {
+    beforeEach(() => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Write', { file_path: filePath, content: 'let a = 1;\nlet b = 2;\n' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolResult('toolu_1', { type: 'create' }),
+        toolUse('toolu_2', 'Edit', { file_path: filePath, old_string: 'a = 1', new_string: 'a = 10' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+        toolResult('toolu_2', {}),
+        toolUse('toolu_3', 'Edit', { file_path: '/workspace/other.ts', old_string: 'x', new_string: 'y' }, { timestamp: '2024-01-01T10:02:00.000Z' }),
+        toolUse('toolu_4', 'MultiEdit', {
+          file_path: filePath,
+          edits: [
+            { old_string: 'b = 2', new_string: 'b = 20' },
+            { old_string: 'let', new_string: 'const', replace_all: true },
+          ],
+        }, { timestamp: '2024-01-01T10:03:00.000Z' }),
+        toolResult('toolu_4', {}),
+      ]);
+    });
+
+    it('should return the content right after the given operation', async () => {
+      const result = await handleGetFileAtOperation({ id: 'toolu_2' });
+
+      expect(result.status).toBe('complete');
+      expect(result.filePath).toBe(filePath);
+      expect(result.content).toBe('let a = 10;\nlet b = 2;\n');
+      expect(result.operationsApplied).toBe(2);
+      expect(result.baseline).toEqual({ source: 'write', operationId: 'toolu_1' });
+    });
+
+    it('should replay all operations up to the latest one', async () => {
+      const result = await handleGetFileAtOperation({ id: 'toolu_4' });
+
+      expect(result.content).toBe('const a = 10;\nconst b = 20;\n');
+      expect(result.operationsApplied).toBe(3);
+    });
+
+    it('should reconstruct the content as of a timestamp', async () => {
+      const result = await handleGetFileAtOperation({
+        filePath,
+        timestamp: '2024-01-01T10:02:30.000Z',
+      });
+
+      expect(result.atOperation.id).toBe('toolu_2');
+      expect(result.content).toBe('let a = 10;\nlet b = 2;\n');
+    });
+
+    it('should resolve a relative file path against the workspace root', async () => {
+      _setTestWorkspaceRoot('/workspace');
+
+      const result = await handleGetFileAtOperation({
+        filePath: 'src/app.ts',
+        timestamp: '2024-01-01T10:02:30.000Z',
+      });
+
+      expect(result.filePath).toBe(filePath);
+      expect(result.atOperation.id).toBe('toolu_2');
+    });
+
+    it('should reject an operation on another file', async () => {
+      await expect(handleGetFileAtOperation({ filePath, id: 'toolu_3' })).rejects.toThrow(
+        'does not target'
+      );
+    });
+
+    it('should reject a timestamp before any operation on the file', async () => {
+      await expect(
+        handleGetFileAtOperation({ filePath, timestamp: '2024-01-01T00:00:00.000Z' })
+      ).rejects.toThrow('No operations found');
+    });
+  });
+
+  describe('Baselines', () => {
+    it('should start from the original file recorded by the first Edit', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Edit', { file_path: filePath, old_string: 'old', new_string: 'new' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolResult('toolu_1', { originalFile: 'const old = true;\n' }),
+      ]);
+
+      const result = await handleGetFileAtOperation({ id: 'toolu_1' });
+
+      expect(result.status).toBe('complete');
+      expect(result.content).toBe('const new = true;\n');
+      expect(result.baseline).toEqual({ source: 'originalFile', operationId: 'toolu_1' });
+    });
+
+    it('should start from a full Read of the file', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Read', { file_path: filePath }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolResult('toolu_1', {
+          type: 'text',
+          file: { filePath, content: 'a\nb\n', numLines: 3, startLine: 1, totalLines: 3 },
+        }),
+        toolUse('toolu_2', 'Edit', { file_path: filePath, old_string: 'b', new_string: 'c' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+      ]);
+
+      const result = await handleGetFileAtOperation({ id: 'toolu_2' });
+
+      expect(result.content).toBe('a\nc\n');
+      expect(result.baseline).toEqual({ source: 'read', operationId: 'toolu_1' });
+    });
+
+    it('should restart from the recorded original file when the file changed outside the operations', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Write', { file_path: filePath, content: 'let a=1\n' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolResult('toolu_1', { type: 'create' }),
+        toolUse('toolu_2', 'Bash', { command: 'npx prettier --write src/app.ts' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+        toolResult('toolu_2', { stdout: '', stderr: '', exitCode: 0 }),
+        toolUse('toolu_3', 'Edit', { file_path: filePath, old_string: 'a', new_string: 'b' }, { timestamp: '2024-01-01T10:02:00.000Z' }),
+        toolResult('toolu_3', { originalFile: 'let a = 1;\n' }),
+      ]);
+
+      const result = await handleGetFileAtOperation({ id: 'toolu_3' });
+
+      expect(result).toMatchObject({
+        status: 'complete',
+        content: 'let b = 1;\n',
+        baseline: { source: 'originalFile', operationId: 'toolu_3' },
+        operationsApplied: 1,
+        externalChanges: [{ operationId: 'toolu_3' }],
+      });
+    });
+
+    it('should skip failed edits', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Write', { file_path: filePath, content: 'one' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolUse('toolu_2', 'Edit', { file_path: filePath, old_string: 'missing', new_string: 'x' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+        toolResult('toolu_2', {}, { isError: true }),
+      ]);
+
+      const result = await handleGetFileAtOperation({ id: 'toolu_2' });
+
+      expect(result.status).toBe('complete');
+      expect(result.content).toBe('one');
+    });
+  });
+
+  describe('Broken chains', () => {
+    it('should report an unknown starting content', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Read', { file_path: filePath, offset: 10, limit: 5 }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolResult('toolu_1', {
+          type: 'text',
+          file: { filePath, content: 'partial', numLines: 5, startLine: 10, totalLines: 100 },
+        }),
+        toolUse('toolu_2', 'Edit', { file_path: filePath, old_string: 'partial', new_string: 'full' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+      ]);
+
+      const result = await handleGetFileAtOperation({ id: 'toolu_2' });
+
+      expect(result.status).toBe('broken');
+      expect(result.content).toBeUndefined();
+      expect(result.chainBroken?.operationId).toBe('toolu_2');
+      expect(result.chainBroken?.reason).toContain('never fully read or written');
+    });
+
+    it('should report edits that no longer match the reconstructed content', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Write', { file_path: filePath, content: 'alpha' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolUse('toolu_2', 'Edit', { file_path: filePath, old_string: 'beta', new_string: 'gamma' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+      ]);
+
+      const result = await handleGetFileAtOperation({ id: 'toolu_2' });
+
+      expect(result.status).toBe('broken');
+      expect(result.chainBroken?.reason).toContain('old_string not found');
+    });
+
+    it('should recover when a later Write re-establishes the content', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_1', 'Write', { file_path: filePath, content: 'alpha' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolResult('toolu_1', { type: 'create' }),
+        toolUse('toolu_2', 'Edit', { file_path: filePath, old_string: 'beta', new_string: 'gamma' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+        toolResult('toolu_2', {}),
+        toolUse('toolu_3', 'Write', { file_path: filePath, content: 'delta' }, { timestamp: '2024-01-01T10:02:00.000Z' }),
+        toolResult('toolu_3', { type: 'update' }),
+        toolUse('toolu_4', 'Edit', { file_path: filePath, old_string: 'delta', new_string: 'epsilon' }, { timestamp: '2024-01-01T10:03:00.000Z' }),
+        toolResult('toolu_4', {}),
+      ]);
+
+      const broken = await handleGetFileAtOperation({ id: 'toolu_2' });
+      const recovered = await handleGetFileAtOperation({ id: 'toolu_4' });
+
+      expect(broken.status).toBe('broken');
+      expect(broken.chainBroken?.operationId).toBe('toolu_2');
+      expect(recovered).toMatchObject({
+        status: 'complete',
+        content: 'epsilon',
+        baseline: { source: 'write', operationId: 'toolu_3' },
+        operationsApplied: 2,
+      });
+      expect(recovered.chainBroken).toBeUndefined();
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require an operation ID or timestamp', async () => {
+      await expect(handleGetFileAtOperation({ filePath })).rejects.toThrow(
+        'Either operation ID or timestamp is required'
+      );
+    });
+
+    it('should reject an invalid timestamp', async () => {
+      await expect(
+        handleGetFileAtOperation({ filePath, timestamp: 'yesterday' })
+      ).rejects.toThrow('Invalid timestamp format');
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import * as path from 'path';
+import { resolveSessionFile } from '../utils/session-utils';
+import { SessionIndex, type ToolCallRecord } from '../parsers/session-index';
+import { performOptimizedStringReplace } from '../utils/performance-utils';
+import { getWorkspaceRoot } from '../utils/workspace-utils';
+
+/**
+ * Parameters for the getFileAtOperation handler
+ */
+export interface GetFileAtOperationParams {
+  /**
+   * Path of the file to reconstruct, absolute or relative to the workspace root.
+   * Optional when `id` is given: the file of that operation is used.
+   */
+  filePath?: string;
+
+  /**
+   * Operation ID after which to reconstruct the file content
+   */
+  id?: string;
+
+  /**
+   * ISO 8601 timestamp; the file is reconstructed as of the last operation at or before it
+   */
+  timestamp?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * Response from the getFileAtOperation handler
+ */
+export interface GetFileAtOperationResponse {
+  filePath: string;
+
+  /**
+   * - complete: `content` holds the full file content right after `atOperation`
+   * - broken: the operation chain cannot be replayed; see `chainBroken`
+   */
+  status: 'complete' | 'broken';
+
+  /**
+   * The last operation replayed
+   */
+  atOperation: {
+    id: string;
+    timestamp: string;
+    tool: string;
+  };
+
+  /**
+   * Full file content after `atOperation` (only when status is 'complete')
+   */
+  content?: string;
+
+  /**
+   * Where the replay got its starting content from
+   */
+  baseline?: {
+    source: 'write' | 'read' | 'originalFile';
+    operationId: string;
+  };
+
+  /**
+   * Number of Write/Edit/MultiEdit operations replayed on top of the baseline
+   */
+  operationsApplied: number;
+
+  /**
+   * Why the chain could not be replayed (only when status is 'broken')
+   */
+  chainBroken?: {
+    operationId: string;
+    reason: string;
+  };
+
+  /**
+   * Edit/MultiEdit operations whose recorded original file differed from the
+   * replayed content, because the file was changed outside the recorded
+   * operations (e.g. by a Bash command or a formatter). The replay restarted
+   * from the recorded content at each of them.
+   */
+  externalChanges?: Array<{ operationId: string }>;
+}
+
+export const FILE_CONTENT_TOOLS = new Set(['Write', 'Edit', 'MultiEdit', 'Read']);
+
+/**
+ * Content of one file while replaying the operations on it
+ */
+export interface ReplayState {
+  content: string | undefined;
+  baseline?: GetFileAtOperationResponse['baseline'];
+  operationsApplied: number;
+  externalChanges?: GetFileAtOperationResponse['externalChanges'];
+}
+
+export function getCallFilePath(call: ToolCallRecord): string | undefined {
+  const value = call.input['file_path'];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Returns the full file content captured by a Read result, or undefined for partial reads
+ */
+function getFullReadContent(result: Record<string, unknown> | undefined): string | undefined {
+  const file = result?.['file'] as Record<string, unknown> | undefined;
+  if (!file || typeof file['content'] !== 'string') {
+    return undefined;
+  }
+
+  const startLine = typeof file['startLine'] === 'number' ? file['startLine'] : 1;
+  const numLines = file['numLines'];
+  const totalLines = file['totalLines'];
+  const isFullRead =
+    startLine === 1 &&
+    (typeof numLines !== 'number' || typeof totalLines !== 'number' || numLines >= totalLines);
+
+  return isFullRead ? file['content'] : undefined;
+}
+
+/**
+ * Applies one operation to the replay state.
+ * @returns A reason string if the chain is broken at this operation, otherwise undefined
+ */
+export function replayOperation(state: ReplayState, call: ToolCallRecord): string | undefined {
+  // Failed tool calls did not change the file
+  if (call.isError) {
+    return undefined;
+  }
+
+  if (call.name === 'Read') {
+    const readContent = getFullReadContent(call.result);
+    if (readContent !== undefined) {
+      state.content = readContent;
+      state.baseline ??= { source: 'read', operationId: call.id };
+    }
+    return undefined;
+  }
+
+  if (call.name === 'Write') {
+    const content = call.input['content'];
+    if (typeof content !== 'string') {
+      return 'Write operation has no content';
+    }
+    state.content = content;
+    state.baseline ??= { source: 'write', operationId: call.id };
+    state.operationsApplied++;
+    return undefined;
+  }
+
+  const rawEdits =
+    call.name === 'Edit'
+      ? [call.input]
+      : Array.isArray(call.input['edits'])
+        ? (call.input['edits'] as Record<string, unknown>[])
+        : [];
+
+  const originalKey = call.name === 'Edit' ? 'originalFile' : 'originalFileContents';
+  const original = call.result?.[originalKey];
+  if (typeof original === 'string' && original !== state.content) {
+    if (state.content === undefined) {
+      state.baseline ??= { source: 'originalFile', operationId: call.id };
+    } else {
+      // The file changed outside the recorded operations; start over from what the tool saw
+      (state.externalChanges ??= []).push({ operationId: call.id });
+      state.baseline = { source: 'originalFile', operationId: call.id };
+      state.operationsApplied = 0;
+    }
+    state.content = original;
+  }
+  if (state.content === undefined) {
+    return 'file content before this operation is unknown (the file existed before the session and was never fully read or written)';
+  }
+
+  for (const [i, edit] of rawEdits.entries()) {
+    const oldString = typeof edit['old_string'] === 'string' ? edit['old_string'] : '';
+    const newString = typeof edit['new_string'] === 'string' ? edit['new_string'] : '';
+
+    if (!state.content.includes(oldString)) {
+      const label = rawEdits.length > 1 ? `edit ${i + 1}: ` : '';
+      return `${label}old_string not found in reconstructed content (the file was changed outside the recorded operations)`;
+    }
+
+    state.content = performOptimizedStringReplace(
+      state.content,
+      oldString,
+      newString,
+      edit['replace_all'] === true
+    );
+  }
+
+  state.operationsApplied++;
+  return undefined;
+}
+
+/**
+ * Handler for the getFileAtOperation MCP tool
+ * Replays the Write/Edit/MultiEdit operations of the session for one file and
+ * returns its full content as of a given operation ID or timestamp
+ *
+ * @param params - Parameters identifying the file and the point in time
+ * @returns Reconstructed file content, or a description of where the chain broke
+ */
+export async function handleGetFileAtOperation(
+  params: GetFileAtOperationParams
+): Promise<GetFileAtOperationResponse> {
+  if (!params.id && !params.timestamp) {
+    throw new Error('Either operation ID or timestamp is required');
+  }
+
+  let untilTime: number | undefined;
+  if (params.timestamp) {
+    untilTime = new Date(params.timestamp).getTime();
+    if (isNaN(untilTime)) {
+      throw new Error(`Invalid timestamp format: ${params.timestamp}`);
+    }
+  }
+
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const { calls } = await SessionIndex.load(sessionFile);
+
+  const workspaceRoot = getWorkspaceRoot();
+  let filePath = params.filePath ? path.resolve(workspaceRoot, params.filePath) : undefined;
+  if (params.id) {
+    const target = calls.find(call => call.id === params.id);
+    if (!target) {
+      throw new Error(`Operation with ID ${params.id} not found`);
+    }
+    const targetPath = getCallFilePath(target);
+    if (!FILE_CONTENT_TOOLS.has(target.name) || !targetPath) {
+      throw new Error(`Operation ${params.id} is a ${target.name} operation without a file path`);
+    }
+    if (filePath && path.resolve(workspaceRoot, targetPath) !== filePath) {
+      throw new Error(`Operation ${params.id} does not target ${params.filePath}`);
+    }
+    filePath = path.resolve(workspaceRoot, targetPath);
+  }
+
+  if (!filePath) {
+    throw new Error('File path is required when no operation ID is given');
+  }
+
+  // Operations on this file, in log order, up to the requested point
+  const fileCalls = calls.filter(call => {
+    const callPath = getCallFilePath(call);
+    return (
+      FILE_CONTENT_TOOLS.has(call.name) && callPath !== undefined && path.resolve(workspaceRoot, callPath) === filePath
+    );
+  });
+
+  let endIndex = -1;
+  if (params.id) {
+    endIndex = fileCalls.findIndex(call => call.id === params.id);
+  } else if (untilTime !== undefined) {
+    for (const [index, call] of fileCalls.entries()) {
+      if (new Date(call.timestamp).getTime() <= untilTime) {
+        endIndex = index;
+      }
+    }
+  }
+
+  const lastCall = fileCalls[endIndex];
+  if (!lastCall) {
+    throw new Error(`No operations found for ${filePath} at or before ${params.timestamp}`);
+  }
+
+  const state: ReplayState = { content: undefined, operationsApplied: 0 };
+  const response: GetFileAtOperationResponse = {
+    filePath,
+    status: 'complete',
+    atOperation: {
+      id: lastCall.id,
+      timestamp: lastCall.timestamp,
+      tool: lastCall.name,
+    },
+    operationsApplied: 0,
+  };
+
+  let chainBroken: GetFileAtOperationResponse['chainBroken'];
+  for (const call of fileCalls.slice(0, endIndex + 1)) {
+    const brokenReason = replayOperation(state, call);
+    if (brokenReason) {
+      // Start over: a later Write, full Read or recorded original file
+      // re-establishes the content
+      chainBroken = { operationId: call.id, reason: brokenReason };
+      state.content = undefined;
+      delete state.baseline;
+      delete state.externalChanges;
+      state.operationsApplied = 0;
+    }
+  }
+
+  if (state.content === undefined) {
+    response.status = 'broken';
+    response.chainBroken = chainBroken ?? {
+      operationId: lastCall.id,
+      reason: 'file content is unknown (the file was never fully read or written in this session)',
+    };
+  }
+
+  response.operationsApplied = state.operationsApplied;
+  if (state.baseline) {
+    response.baseline = state.baseline;
+  }
+  if (state.externalChanges) {
+    response.externalChanges = state.externalChanges;
+  }
+  if (response.status === 'complete' && state.content !== undefined) {
+    response.content = state.content;
+  }
+
+  return response;
+}
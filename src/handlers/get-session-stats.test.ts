@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { countDiffLines, handleGetSessionStats } from './get-session-stats';
+import { ChangeType } from '../types/operation-index';
+import { UIDManager } from '../uid-manager';
+
+describe('handleGetSessionStats', () => {
+  let tmpDir: string;
+
+  const toolCall = (
+    id: string,
+    name: string,
+    input: Record<string, unknown>,
+    times: [string, string?],
+    result: { toolUseResult?: Record<string, unknown>; content?: string; isError?: boolean } = {}
+  ): string[] => {
+    const lines = [
+      JSON.stringify({
+        type: 'assistant',
+        cwd: tmpDir,
+        timestamp: times[0],
+        message: { content: [{ type: 'tool_use', id, name, input }] },
+      }),
+    ];
+    if (times[1]) {
+      lines.push(
+        JSON.stringify({
+          type: 'user',
+          cwd: tmpDir,
+          timestamp: times[1],
+          message: {
+            content: [{ type: 'tool_result', tool_use_id: id, content: result.content ?? 'ok', is_error: result.isError ?? false }],
+          },
+          ...(result.toolUseResult && { toolUseResult: result.toolUseResult }),
+        })
+      );
+    }
+    return lines;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'session-stats-test-')));
+    const app = path.join(tmpDir, 'app.ts');
+
+    const sessionFile = path.join(tmpDir, 'session-stats.jsonl');
+    fs.writeFileSync(
+      sessionFile,
+      [
+        ...toolCall('toolu_write', 'Write', { file_path: app, content: 'a\nb\n' }, ['2024-01-01T10:00:00.000Z', '2024-01-01T10:00:01.000Z'], {
+          toolUseResult: { type: 'create' },
+        }),
+        ...toolCall('toolu_edit', 'Edit', { file_path: app, old_string: 'b', new_string: 'B\nc' }, ['2024-01-01T10:00:02.000Z', '2024-01-01T10:00:02.500Z'], {
+          toolUseResult: { originalFile: 'a\nb\n' },
+        }),
+        ...toolCall('toolu_bad_edit', 'Edit', { file_path: app, old_string: 'zzz', new_string: 'y' }, ['2024-01-01T10:00:03.000Z', '2024-01-01T10:00:03.100Z'], {
+          content: 'String to replace not found in file.\nString: zzz',
+          isError: true,
+        }),
+        ...toolCall('toolu_test', 'Bash', { command: 'npm test' }, ['2024-01-01T10:00:04.000Z', '2024-01-01T10:00:34.000Z'], {
+          toolUseResult: { stdout: 'ok', stderr: '', exitCode: 0 },
+        }),
+        ...toolCall('toolu_rm', 'Bash', { command: 'rm old.ts' }, ['2024-01-01T10:00:35.000Z', '2024-01-01T10:00:36.000Z'], {
+          toolUseResult: { stdout: '', stderr: 'rm: old.ts: Permission denied', exitCode: 1 },
+          isError: true,
+        }),
+        ...toolCall('toolu_dev', 'Bash', { command: 'npm run dev' }, ['2024-01-01T10:00:40.000Z']),
+      ].join('\n')
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should aggregate calls, files, lines and Bash outcomes', async () => {
+    const stats = await handleGetSessionStats();
+
+    expect(stats).toMatchObject({
+      sessionId: 'session-stats',
+      startedAt: '2024-01-01T10:00:00.000Z',
+      endedAt: '2024-01-01T10:00:40.000Z',
+      durationMs: 40000,
+      totals: {
+        toolCalls: 6,
+        failedToolCalls: 2,
+        filesCreated: 1,
+        filesUpdated: 1,
+        filesDeleted: 1,
+        linesAdded: 4,
+        linesRemoved: 1,
+      },
+      bash: { total: 3, succeeded: 1, failed: 1, pending: 1 },
+    });
+    expect(stats.files).toEqual([
+      {
+        filePath: path.join(tmpDir, 'app.ts'),
+        operations: 2,
+        changeTypes: [ChangeType.CREATE, ChangeType.UPDATE],
+        linesAdded: 4,
+        linesRemoved: 1,
+      },
+      {
+        filePath: path.join(tmpDir, 'old.ts'),
+        operations: 1,
+        changeTypes: [ChangeType.DELETE],
+        linesAdded: 0,
+        linesRemoved: 0,
+        inferredOperations: 1,
+      },
+    ]);
+  });
+
+  it('should report failed edits and tool_use to tool_result times', async () => {
+    const stats = await handleGetSessionStats();
+
+    expect(stats.failedEdits).toEqual([
+      {
+        id: 'toolu_bad_edit',
+        timestamp: '2024-01-01T10:00:03.000Z',
+        tool: 'Edit',
+        filePath: path.join(tmpDir, 'app.ts'),
+        message: 'String to replace not found in file.',
+      },
+    ]);
+    expect(stats.tools['Edit']).toEqual({ calls: 2, failed: 1, pending: 0, totalMs: 600, averageMs: 300, maxMs: 500 });
+    expect(stats.tools['Bash']).toEqual({ calls: 3, failed: 1, pending: 1, totalMs: 31000, averageMs: 15500, maxMs: 30000 });
+    expect(stats.slowestCalls[0]).toEqual({ id: 'toolu_test', tool: 'Bash', durationMs: 30000, target: 'npm test' });
+    expect(stats.slowestCalls).toHaveLength(5);
+  });
+
+  it('should count only hunk lines of a unified diff', () => {
+    const diff = ['===', '--- a.ts', '+++ a.ts', '@@ -1,2 +1,2 @@', ' a', '-b', '+B', '+++c', '\\ No newline at end of file'];
+    expect(countDiffLines(diff.join('\n'))).toEqual({ added: 2, removed: 1 });
+  });
+});
@@ -0,0 +1,337 @@
+import { SessionIndex, getBashExitCode, type ToolCallRecord } from '../parsers/session-index';
+import { SessionFileOperationStore } from '../stores/session-file-operation-store';
+import { ChangeType, type OperationIndex } from '../types/operation-index';
+import { getSessionIdFromFile, resolveSessionFile, resolveSessionFileById } from '../utils/session-utils';
+import { getTimeRange, toTime } from '../utils/time-utils';
+
+/**
+ * Parameters for the getSessionStats handler
+ */
+export interface GetSessionStatsParams {
+  /**
+   * Session to aggregate. Default: the current session
+   */
+  sessionId?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * Call counts and tool_use to tool_result times of one tool
+ */
+export interface ToolStats {
+  calls: number;
+  failed: number;
+
+  /**
+   * Calls without a recorded tool_result
+   */
+  pending: number;
+
+  /**
+   * Wall-clock time between tool_use and tool_result, over calls with both timestamps
+   */
+  totalMs: number;
+  averageMs: number;
+  maxMs: number;
+}
+
+/**
+ * Changes made to one file
+ */
+export interface FileStats {
+  filePath: string;
+  operations: number;
+
+  /**
+   * Change types of the file's operations, in order of first occurrence
+   */
+  changeTypes: ChangeType[];
+
+  /**
+   * Lines added and removed, counted from the unified diff of each operation
+   */
+  linesAdded: number;
+  linesRemoved: number;
+
+  /**
+   * Operations inferred from Bash commands; they carry no line counts
+   */
+  inferredOperations?: number;
+
+  /**
+   * Operations whose diff could not be built from the session log
+   */
+  diffUnavailable?: number;
+}
+
+/**
+ * An Edit, MultiEdit, Write or NotebookEdit call that failed
+ */
+export interface FailedEdit {
+  id: string;
+  timestamp: string;
+  tool: string;
+  filePath: string;
+
+  /**
+   * First line of the error output
+   */
+  message: string;
+}
+
+/**
+ * A tool call and how long it took to return
+ */
+export interface TimedCall {
+  id: string;
+  tool: string;
+  durationMs: number;
+
+  /**
+   * Command or file path of the call
+   */
+  target?: string;
+}
+
+/**
+ * Response from the getSessionStats handler
+ */
+export interface GetSessionStatsResponse {
+  sessionId: string;
+  startedAt?: string;
+  endedAt?: string;
+  durationMs: number;
+
+  totals: {
+    toolCalls: number;
+    failedToolCalls: number;
+
+    /**
+     * Number of files with at least one operation of each change type
+     */
+    filesCreated: number;
+    filesUpdated: number;
+    filesDeleted: number;
+    linesAdded: number;
+    linesRemoved: number;
+  };
+
+  /**
+   * Statistics per tool name
+   */
+  tools: Record<string, ToolStats>;
+
+  /**
+   * Changed files, most lines changed first
+   */
+  files: FileStats[];
+
+  bash: {
+    total: number;
+    succeeded: number;
+    failed: number;
+    pending: number;
+  };
+
+  /**
+   * Failed edit attempts, in log order
+   */
+  failedEdits: FailedEdit[];
+
+  /**
+   * Calls that took longest between tool_use and tool_result
+   */
+  slowestCalls: TimedCall[];
+}
+
+const EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+const SLOWEST_CALL_COUNT = 5;
+
+/**
+ * Time between a call's tool_use and tool_result entries
+ */
+function getCallDuration(call: ToolCallRecord): number | undefined {
+  const start = toTime(call.timestamp);
+  const end = toTime(call.resultTimestamp);
+  return start !== undefined && end !== undefined ? Math.max(0, end - start) : undefined;
+}
+
+/**
+ * Counts added and removed lines in the hunks of a unified diff
+ */
+export function countDiffLines(diffText: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  let inHunk = false;
+
+  for (const line of diffText.split('\n')) {
+    if (line.startsWith('@@')) {
+      inHunk = true;
+    } else if (line.startsWith('diff ') || line.startsWith('Index:') || line.startsWith('===')) {
+      // File headers (--- and +++) follow until the next hunk
+      inHunk = false;
+    } else if (inHunk && line.startsWith('+')) {
+      added++;
+    } else if (inHunk && line.startsWith('-')) {
+      removed++;
+    }
+  }
+
+  return { added, removed };
+}
+
+function getTarget(call: ToolCallRecord): string | undefined {
+  const command = call.input['command'];
+  return typeof command === 'string' ? command : call.operation.filePath;
+}
+
+async function collectFileStats(
+  operations: OperationIndex[],
+  store: SessionFileOperationStore
+): Promise<FileStats[]> {
+  const files = new Map<string, FileStats>();
+
+  for (const operation of operations) {
+    if (!operation.filePath) {
+      continue;
+    }
+
+    const stats = files.get(operation.filePath) ?? {
+      filePath: operation.filePath,
+      operations: 0,
+      changeTypes: [],
+      linesAdded: 0,
+      linesRemoved: 0,
+    };
+    files.set(operation.filePath, stats);
+
+    stats.operations++;
+    if (!stats.changeTypes.includes(operation.changeType)) {
+      stats.changeTypes.push(operation.changeType);
+    }
+
+    if (operation.inferred) {
+      stats.inferredOperations = (stats.inferredOperations ?? 0) + 1;
+      continue;
+    }
+
+    try {
+      const { diff } = await store.getOperationDiff(operation.id);
+      if (diff && 'unifiedDiff' in diff && diff.unifiedDiff) {
+        const { added, removed } = countDiffLines(diff.unifiedDiff.diffText);
+        stats.linesAdded += added;
+        stats.linesRemoved += removed;
+      }
+    } catch {
+      stats.diffUnavailable = (stats.diffUnavailable ?? 0) + 1;
+    }
+  }
+
+  return [...files.values()].sort(
+    (a, b) => b.linesAdded + b.linesRemoved - (a.linesAdded + a.linesRemoved)
+  );
+}
+
+function collectToolStats(calls: ToolCallRecord[]): Record<string, ToolStats> {
+  const tools: Record<string, ToolStats> = {};
+
+  for (const call of calls) {
+    const stats = (tools[call.name] ??= { calls: 0, failed: 0, pending: 0, totalMs: 0, averageMs: 0, maxMs: 0 });
+    stats.calls++;
+    if (!call.hasResult) {
+      stats.pending++;
+    } else if (call.name === 'Bash' ? getBashExitCode(call) !== 0 : call.isError) {
+      stats.failed++;
+    }
+  }
+
+  for (const [name, stats] of Object.entries(tools)) {
+    const durations = calls
+      .filter(call => call.name === name)
+      .map(getCallDuration)
+      .filter((duration): duration is number => duration !== undefined);
+    stats.totalMs = durations.reduce((sum, duration) => sum + duration, 0);
+    stats.averageMs = durations.length > 0 ? Math.round(stats.totalMs / durations.length) : 0;
+    stats.maxMs = durations.reduce((max, duration) => Math.max(max, duration), 0);
+  }
+
+  return tools;
+}
+
+/**
+ * Handler for the getSessionStats MCP tool
+ * Aggregates a session into numbers that can be compared across agent runs:
+ * calls, failures and tool_use to tool_result time per tool, files and lines
+ * changed, Bash outcomes and failed edit attempts.
+ *
+ * @param params - Parameters for the statistics
+ * @returns Session statistics
+ */
+export async function handleGetSessionStats(params: GetSessionStatsParams = {}): Promise<GetSessionStatsResponse> {
+  const sessionFile = params.sessionId
+    ? await resolveSessionFileById(params.sessionId)
+    : await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+  const store = new SessionFileOperationStore(sessionFile);
+
+  const { start, end } = getTimeRange(index.events.map(event => event.timestamp));
+
+  // Failed file tools did not change the file; effects of failed Bash commands are already low confidence
+  const changes = [...index.getOperations(), ...index.getInferredOperations()]
+    .filter(op => op.changeType !== ChangeType.READ && (op.inferred || !index.get(op.id)?.isError))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const files = await collectFileStats(changes, store);
+
+  const bashCalls = index.calls.filter(call => call.name === 'Bash');
+  const finishedBash = bashCalls.filter(call => call.hasResult);
+  const failedBash = finishedBash.filter(call => getBashExitCode(call) !== 0).length;
+
+  const tools = collectToolStats(index.calls);
+  const slowestCalls = index.calls
+    .map(call => ({ call, durationMs: getCallDuration(call) }))
+    .filter((entry): entry is { call: ToolCallRecord; durationMs: number } => entry.durationMs !== undefined)
+    .sort((a, b) => b.durationMs - a.durationMs)
+    .slice(0, SLOWEST_CALL_COUNT)
+    .map(({ call, durationMs }) => {
+      const target = getTarget(call);
+      return { id: call.id, tool: call.name, durationMs, ...(target && { target }) };
+    });
+
+  return {
+    sessionId: getSessionIdFromFile(sessionFile),
+    ...(start !== undefined && { startedAt: new Date(start).toISOString() }),
+    ...(end !== undefined && { endedAt: new Date(end).toISOString() }),
+    durationMs: start !== undefined && end !== undefined ? end - start : 0,
+    totals: {
+      toolCalls: index.calls.length,
+      failedToolCalls: Object.values(tools).reduce((sum, stats) => sum + stats.failed, 0),
+      filesCreated: files.filter(file => file.changeTypes.includes(ChangeType.CREATE)).length,
+      filesUpdated: files.filter(file => file.changeTypes.includes(ChangeType.UPDATE)).length,
+      filesDeleted: files.filter(file => file.changeTypes.includes(ChangeType.DELETE)).length,
+      linesAdded: files.reduce((sum, file) => sum + file.linesAdded, 0),
+      linesRemoved: files.reduce((sum, file) => sum + file.linesRemoved, 0),
+    },
+    tools,
+    files,
+    bash: {
+      total: bashCalls.length,
+      succeeded: finishedBash.length - failedBash,
+      failed: failedBash,
+      pending: bashCalls.length - finishedBash.length,
+    },
+    failedEdits: index.calls
+      .filter(call => EDIT_TOOLS.has(call.name) && call.isError)
+      .map(call => ({
+        id: call.id,
+        timestamp: call.timestamp,
+        tool: call.name,
+        filePath: call.operation.filePath ?? '',
+        message: (call.output ?? '').split('\n').find(line => line.trim() !== '')?.trim() ?? '',
+      })),
+    slowestCalls,
+  };
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { handleGetSessionTimeline } from './get-session-timeline';
+import { UIDManager } from '../uid-manager';
+
+describe('handleGetSessionTimeline', () => {
+  let tmpDir: string;
+
+  const entry = (type: string, timestamp: string, content: unknown, extra: Record<string, unknown> = {}): string =>
+    JSON.stringify({ type, timestamp, message: { content }, ...extra });
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'session-timeline-test-')));
+    const sessionFile = path.join(tmpDir, 'session-overnight.jsonl');
+    fs.writeFileSync(
+      sessionFile,
+      [
+        entry('user', '2024-01-01T22:00:00.000Z', 'Fix the flaky migration test'),
+        entry('assistant', '2024-01-01T22:00:05.000Z', [
+          { type: 'text', text: 'Let me run the tests first.' },
+          { type: 'tool_use', id: 'toolu_test', name: 'Bash', input: { command: 'npm test -- migrations' } },
+        ]),
+        entry(
+          'user',
+          '2024-01-01T22:01:00.000Z',
+          [{ type: 'tool_result', tool_use_id: 'toolu_test', content: 'Exit code 1\n' + 'x'.repeat(100), is_error: true }],
+          { toolUseResult: 'Error: Exit code 1' }
+        ),
+        entry('assistant', '2024-01-02T03:00:00.000Z', [
+          {
+            type: 'tool_use',
+            id: 'toolu_edit',
+            name: 'Edit',
+            input: { file_path: '/workspace/db/migrate.ts', old_string: 'await run()', new_string: 'await run({ retries: 3 })' },
+          },
+        ]),
+      ].join('\n')
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return the conversation in log order with tool details', async () => {
+    const result = await handleGetSessionTimeline({ maxTextLength: 0 });
+
+    expect(result.sessionId).toBe('session-overnight');
+    expect(result.totalCount).toBe(5);
+    expect(result.events.map(event => event.type)).toEqual([
+      'user_prompt',
+      'assistant_text',
+      'tool_call',
+      'tool_result',
+      'tool_call',
+    ]);
+    expect(result.events[0]).toEqual({
+      type: 'user_prompt',
+      timestamp: '2024-01-01T22:00:00.000Z',
+      text: 'Fix the flaky migration test',
+    });
+    expect(result.events[2]).toMatchObject({
+      id: 'toolu_test',
+      tool: 'Bash',
+      input: { command: 'npm test -- migrations' },
+    });
+    expect(result.events[3]).toMatchObject({ id: 'toolu_test', tool: 'Bash', isError: true });
+    expect(result.events[4]).toMatchObject({ tool: 'Edit', filePath: '/workspace/db/migrate.ts' });
+  });
+
+  it('should truncate long texts and input values', async () => {
+    const result = await handleGetSessionTimeline({ maxTextLength: 10 });
+
+    expect(result.events[0]).toMatchObject({ text: 'Fix the fl', truncated: true });
+    expect(result.events[3]).toMatchObject({ text: 'Exit code ', truncated: true });
+    expect(result.events[4]?.input).toEqual({
+      file_path: '/workspace',
+      old_string: 'await run(',
+      new_string: 'await run(',
+    });
+  });
+
+  it('should filter by time window and event type', async () => {
+    const result = await handleGetSessionTimeline({
+      since: '2024-01-01T22:00:01.000Z',
+      until: '2024-01-01T23:00:00.000Z',
+      types: ['tool_call', 'tool_result'],
+    });
+
+    expect(result.events.map(event => [event.type, event.id])).toEqual([
+      ['tool_call', 'toolu_test'],
+      ['tool_result', 'toolu_test'],
+    ]);
+  });
+
+  it('should read another session by its ID', async () => {
+    const result = await handleGetSessionTimeline({ sessionId: 'session-overnight', limit: 1 });
+
+    expect(result.events).toHaveLength(1);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should continue from nextCursor', async () => {
+    const first = await handleGetSessionTimeline({ limit: 3 });
+    const second = await handleGetSessionTimeline({ limit: 3, cursor: first.nextCursor ?? '' });
+
+    expect(first.events.map(event => event.type)).toEqual(['user_prompt', 'assistant_text', 'tool_call']);
+    expect(second.events.map(event => event.type)).toEqual(['tool_result', 'tool_call']);
+    expect(second).toMatchObject({ totalCount: 5, hasMore: false });
+  });
+
+  it('should reject invalid parameters', async () => {
+    await expect(handleGetSessionTimeline({ limit: 0 })).rejects.toThrow('Limit must be between 1 and 1000');
+    await expect(handleGetSessionTimeline({ since: 'last night' })).rejects.toThrow(
+      'Invalid timestamp format: last night'
+    );
+    await expect(
+      handleGetSessionTimeline({ types: ['thinking' as 'user_prompt'] })
+    ).rejects.toThrow('Unknown event type: thinking');
+    await expect(handleGetSessionTimeline({ sessionId: '../session-overnight' })).rejects.toThrow(
+      'Invalid session ID: ../session-overnight'
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import { SessionIndex, type SessionEvent, type SessionEventType } from '../parsers/session-index';
+import {
+  getSessionIdFromFile,
+  resolveSessionFile,
+  resolveSessionFileById,
+} from '../utils/session-utils';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+import { parseTimestamp } from '../utils/time-utils';
+
+/**
+ * Parameters for the getSessionTimeline handler
+ */
+export interface GetSessionTimelineParams {
+  /**
+   * Session to read. Default: the current session
+   */
+  sessionId?: string;
+
+  /**
+   * ISO 8601 timestamp; only events at or after it are returned
+   */
+  since?: string;
+
+  /**
+   * ISO 8601 timestamp; only events at or before it are returned
+   */
+  until?: string;
+
+  /**
+   * Event types to include. Default: all
+   */
+  types?: SessionEventType[];
+
+  /**
+   * Maximum number of characters kept of each text (prompt, assistant text,
+   * tool output, tool input value). Default: 500, 0 disables truncation
+   */
+  maxTextLength?: number;
+
+  /**
+   * Maximum number of events to return
+   * Default: 200, Maximum: the configured maxLimit (1000 by default)
+   */
+  limit?: number;
+
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * One entry of the timeline
+ */
+export interface TimelineEvent {
+  type: SessionEventType;
+  timestamp: string;
+
+  /**
+   * Prompt, assistant text, or tool output
+   */
+  text?: string;
+
+  /**
+   * Tool use ID (tool_call and tool_result), usable with showOperationDiff
+   */
+  id?: string;
+  tool?: string;
+  filePath?: string;
+  input?: Record<string, unknown>;
+  isError?: boolean;
+
+  /**
+   * Whether `text` or a value of `input` was cut to maxTextLength
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Response from the getSessionTimeline handler
+ */
+export interface GetSessionTimelineResponse {
+  sessionId: string;
+
+  /**
+   * Events in log order (oldest first)
+   */
+  events: TimelineEvent[];
+
+  /**
+   * Total count of matching events (before limit)
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more events beyond the limit
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
+  /**
+   * The limit that was applied
+   */
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 200;
+const DEFAULT_MAX_TEXT_LENGTH = 500;
+const EVENT_TYPES: SessionEventType[] = ['user_prompt', 'assistant_text', 'tool_call', 'tool_result'];
+
+/**
+ * Cuts `text` to `maxTextLength` characters (0 keeps it whole), flagging the event when it does
+ */
+function truncate(text: string, maxTextLength: number, timelineEvent: TimelineEvent): string {
+  if (maxTextLength === 0 || text.length <= maxTextLength) {
+    return text;
+  }
+  timelineEvent.truncated = true;
+  return text.slice(0, maxTextLength);
+}
+
+/**
+ * Resolves a session event to a timeline entry, with the tool details of tool events
+ */
+function toTimelineEvent(event: SessionEvent, index: SessionIndex, maxTextLength: number): TimelineEvent {
+  const timelineEvent: TimelineEvent = { type: event.type, timestamp: event.timestamp };
+
+  if (!event.toolUseId) {
+    timelineEvent.text = truncate(event.text ?? '', maxTextLength, timelineEvent);
+    return timelineEvent;
+  }
+
+  timelineEvent.id = event.toolUseId;
+  const call = index.get(event.toolUseId);
+  if (!call) {
+    return timelineEvent;
+  }
+
+  timelineEvent.tool = call.name;
+  if (call.operation.filePath) {
+    timelineEvent.filePath = call.operation.filePath;
+  }
+
+  if (event.type === 'tool_call') {
+    const input: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(call.input)) {
+      input[key] = typeof value === 'string' ? truncate(value, maxTextLength, timelineEvent) : value;
+    }
+    timelineEvent.input = input;
+  } else {
+    timelineEvent.isError = call.isError;
+    timelineEvent.text = truncate(call.output ?? '', maxTextLength, timelineEvent);
+  }
+
+  return timelineEvent;
+}
+
+/**
+ * Handler for the getSessionTimeline MCP tool
+ * Returns the conversational flow of a session: user prompts, assistant text,
+ * tool calls and tool results in log order
+ *
+ * @param params - Session, time window and truncation options
+ * @returns Timeline events, oldest first
+ */
+export async function handleGetSessionTimeline(
+  params: GetSessionTimelineParams = {}
+): Promise<GetSessionTimelineResponse> {
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
+  }
+
+  const maxTextLength = params.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
+  if (maxTextLength < 0) {
+    throw new Error('Max text length must not be negative');
+  }
+
+  const types = params.types ?? EVENT_TYPES;
+  const unknownType = types.find(type => !EVENT_TYPES.includes(type));
+  if (unknownType !== undefined) {
+    throw new Error(`Unknown event type: ${unknownType}. Expected one of ${EVENT_TYPES.join(', ')}`);
+  }
+
+  const sinceTime = parseTimestamp(params.since);
+  const untilTime = parseTimestamp(params.until);
+
+  const sessionFile = params.sessionId
+    ? await resolveSessionFileById(params.sessionId)
+    : await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  // Events have no ID of their own; their position in the log does not
+  // change as the session file grows
+  const events = index.events
+    .map((event, position) => ({ event, position }))
+    .filter(({ event }) => {
+      if (!types.includes(event.type)) {
+        return false;
+      }
+      const time = new Date(event.timestamp).getTime();
+      if (sinceTime !== undefined && time < sinceTime) {
+        return false;
+      }
+      return untilTime === undefined || time <= untilTime;
+    });
+
+  const totalCount = events.length;
+  const page = paginate(
+    events,
+    { limit, order: 'asc', ...(params.cursor && { cursor: params.cursor }) },
+    ({ event, position }) => ({ id: String(position), timestamp: event.timestamp })
+  );
+  return {
+    sessionId: getSessionIdFromFile(sessionFile),
+    events: page.items.map(({ event }) => toTimelineEvent(event, index, maxTextLength)),
+    totalCount,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
+  };
+}
@@ -1,109 +1,71 @@
 import { handleListBashHistory, handleShowBashResult } from './list-bash-history';
-import { ChangeType } from '../types/operation-index';
-import type { OperationIndex } from '../types/operation-index';
 import * as sessionDiscovery from '../session-discovery';
-import * as logParser from '../parsers/log-parser';
-import * as fs from 'fs/promises';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+import { toJsonl, toolResult, toolUse } from '../__tests__/helpers/session-fixtures';
 
 // Mock dependencies
 jest.mock('../session-discovery');
-jest.mock('../parsers/log-parser');
-jest.mock('fs/promises');
 
 describe('Bash History API', () => {
   const mockSessionDiscovery = sessionDiscovery as jest.Mocked<
     typeof sessionDiscovery
   >;
-  const mockLogParser = logParser as jest.Mocked<typeof logParser>;
-  const mockFs = fs as jest.Mocked<typeof fs>;
+  let tmpDir: string;
+  let mockSessionFile: string;
 
-  const mockSessionFile = '/Users/test/.claude/projects/test-project/sessions/12345.jsonl';
+  // Writes the session log the handlers read
+  const writeSession = (content: string): void => {
+    fs.writeFileSync(mockSessionFile, content);
+  };
   const mockWorkspaceRoot = '/Users/test/test-project';
 
-  const mockBashOperations: OperationIndex[] = [
-    {
-      id: 'bash-1',
-      timestamp: '2024-01-01T10:00:00.000Z',
-      tool: 'Bash',
-      filePath: `${mockWorkspaceRoot}/src/index.ts`,
-      changeType: ChangeType.UPDATE,
-      summary: 'npm run build',
-    },
-    {
-      id: 'bash-2',
-      timestamp: '2024-01-01T10:01:00.000Z',
-      tool: 'Bash',
-      changeType: ChangeType.UPDATE,
-      summary: 'git status',
-    },
-    {
-      id: 'bash-3',
-      timestamp: '2024-01-01T10:02:00.000Z',
-      tool: 'Bash',
-      changeType: ChangeType.UPDATE,
-      summary: 'npm test -- failed',
-    },
-    // Non-Bash operations to test filtering
-    {
-      id: 'edit-1',
-      timestamp: '2024-01-01T10:03:00.000Z',
-      tool: 'Edit',
-      filePath: `${mockWorkspaceRoot}/src/test.ts`,
-      changeType: ChangeType.UPDATE,
-      summary: 'Updated test file',
-    },
-  ];
-
-  const mockRawJsonlContent = [
-    JSON.stringify({
-      timestamp: '2024-01-01T10:00:00.000Z',
-      tool: 'Bash',
-      parameters: { command: 'npm run build' },
-      result: {
-        stdout: 'Build successful\nCompilation completed in 2.3s',
-        stderr: '',
-        exitCode: 0,
-      },
-    }),
-    JSON.stringify({
-      timestamp: '2024-01-01T10:01:00.000Z',
-      tool: 'Bash',
-      parameters: { command: 'git status' },
-      result: {
-        stdout: 'On branch main\nnothing to commit, working tree clean',
-        stderr: '',
-        exitCode: 0,
-      },
-    }),
-    JSON.stringify({
-      timestamp: '2024-01-01T10:02:00.000Z',
-      tool: 'Bash',
-      parameters: { command: 'npm test' },
-      result: {
-        stdout: 'Running tests...\n2 tests failed',
-        stderr: 'Error: Test suite failed\nExpected: 5\nReceived: 3',
-        exitCode: 1,
-      },
-    }),
-    JSON.stringify({
-      timestamp: '2024-01-01T10:03:00.000Z',
-      tool: 'Edit',
-      parameters: { file_path: `${mockWorkspaceRoot}/src/test.ts` },
-    }),
-  ].join('\n');
+  const mockRawJsonlContent = toJsonl([
+    toolUse('bash-1', 'Bash', { command: 'npm run build' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+    toolResult('bash-1', {
+      stdout: 'Build successful\nCompilation completed in 2.3s',
+      stderr: '',
+      exitCode: 0,
+    }, { timestamp: '2024-01-01T10:00:01.000Z' }),
+    toolUse('bash-2', 'Bash', { command: 'git status' }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+    toolResult('bash-2', {
+      stdout: 'On branch main\nnothing to commit, working tree clean',
+      stderr: '',
+      exitCode: 0,
+    }, { timestamp: '2024-01-01T10:01:01.000Z' }),
+    toolUse('bash-3', 'Bash', { command: 'npm test' }, { timestamp: '2024-01-01T10:02:00.000Z' }),
+    toolResult('bash-3', {
+      stdout: 'Running tests...\n2 tests failed',
+      stderr: 'Error: Test suite failed\nExpected: 5\nReceived: 3',
+      exitCode: 1,
+    }, { timestamp: '2024-01-01T10:02:01.000Z' }),
+    // Non-Bash operation to test filtering
+    toolUse('edit-1', 'Edit', {
+      file_path: `${mockWorkspaceRoot}/src/test.ts`,
+      old_string: 'a',
+      new_string: 'b',
+    }, { timestamp: '2024-01-01T10:03:00.000Z' }),
+  ]);
 
   beforeEach(() => {
     jest.clearAllMocks();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'session-test-')));
+    mockSessionFile = path.join(tmpDir, '12345.jsonl');
     process.env['CLAUDE_PROJECT_PATH'] = mockWorkspaceRoot;
+    _setTestWorkspaceRoot(tmpDir);
     // Pre-cache the session file to bypass session discovery
     UIDManager.setCachedSessionFile(mockSessionFile);
   });
 
   afterEach(() => {
     delete process.env['CLAUDE_PROJECT_PATH'];
+    _setTestWorkspaceRoot(undefined);
     // Clear the cache
     UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
   describe('handleListBashHistory', () => {
@@ -111,10 +73,7 @@ describe('Bash History API', () => {
       mockSessionDiscovery.SessionDiscovery.prototype.findSessionByUID = jest
         .fn()
         .mockResolvedValue({ sessionFile: mockSessionFile });
-      mockFs.readFile.mockResolvedValue(mockRawJsonlContent);
-      mockLogParser.LogParser.parseLogStream = jest
-        .fn()
-        .mockReturnValue(mockBashOperations);
+      writeSession(mockRawJsonlContent);
     });
 
     describe('BashHistoryItem type tests', () => {
@@ -162,8 +121,8 @@ describe('Bash History API', () => {
         const result = await handleListBashHistory({ limit: 10 });
 
         result.commands.forEach(cmd => {
-          // Working directory should be process.cwd() since we don't use environment variables
-          expect(cmd.workingDirectory).toBe(process.cwd());
+          // No cwd is recorded, so the workspace root is used
+          expect(cmd.workingDirectory).toBe(tmpDir);
         });
       });
     });
@@ -192,6 +151,25 @@ describe('Bash History API', () => {
         expect(result.limit).toBe(2);
       });
 
+      it('should page with nextCursor while the session keeps growing', async () => {
+        const first = await handleListBashHistory({ limit: 2 });
+        expect(first.commands.map(cmd => cmd.id)).toEqual(['bash-3', 'bash-2']);
+        expect(first.nextCursor).toEqual(expect.any(String));
+
+        // A newer command does not shift the next page
+        fs.appendFileSync(
+          mockSessionFile,
+          '\n' + JSON.stringify(toolUse('bash-4', 'Bash', { command: 'npm run lint' }, { timestamp: '2024-01-01T10:05:00.000Z' }))
+        );
+
+        const second = await handleListBashHistory({ limit: 2, cursor: first.nextCursor ?? '' });
+        expect(second.commands.map(cmd => cmd.id)).toEqual(['bash-1']);
+        expect(second.hasMore).toBe(false);
+        expect(second).not.toHaveProperty('nextCursor');
+
+        await expect(handleListBashHistory({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+      });
+
       it('should use default limit when not provided', async () => {
         const result = await handleListBashHistory({});
 
@@ -213,6 +191,48 @@ describe('Bash History API', () => {
     });
 
     describe('Filtering tests', () => {
+      it('should report and filter by the subagent that ran each command', async () => {
+        writeSession(
+          [
+            JSON.stringify({
+              type: 'assistant',
+              uuid: 'a1',
+              parentUuid: null,
+              timestamp: '2024-01-01T10:00:00.000Z',
+              message: {
+                content: [
+                  { type: 'tool_use', id: 'toolu_task', name: 'Task', input: { description: 'Run tests', subagent_type: 'test-runner', prompt: 'Run the tests' } },
+                  { type: 'tool_use', id: 'bash-main', name: 'Bash', input: { command: 'git status' } },
+                ],
+              },
+            }),
+            JSON.stringify({ type: 'user', uuid: 's1', parentUuid: null, isSidechain: true, timestamp: '2024-01-01T10:00:01.000Z', message: { content: 'Run the tests' } }),
+            JSON.stringify({
+              type: 'assistant',
+              uuid: 's2',
+              parentUuid: 's1',
+              isSidechain: true,
+              timestamp: '2024-01-01T10:00:02.000Z',
+              message: { content: [{ type: 'tool_use', id: 'bash-sub', name: 'Bash', input: { command: 'npm test' } }] },
+            }),
+          ].join('\n')
+        );
+
+        const all = await handleListBashHistory({ limit: 10 });
+        expect(all.commands.find(cmd => cmd.id === 'bash-sub')?.agent).toEqual({
+          taskId: 'toolu_task',
+          description: 'Run tests',
+          subagentType: 'test-runner',
+        });
+        expect(all.commands.find(cmd => cmd.id === 'bash-main')?.agent).toBeUndefined();
+
+        const subagent = await handleListBashHistory({ limit: 10, agent: 'test-runner' });
+        expect(subagent.commands.map(cmd => cmd.id)).toEqual(['bash-sub']);
+
+        const main = await handleListBashHistory({ limit: 10, agent: 'main' });
+        expect(main.commands.map(cmd => cmd.id)).toEqual(['bash-main']);
+      });
+
       it('should filter only Bash operations from mixed operations', async () => {
         const result = await handleListBashHistory({ limit: 10 });
 
@@ -222,11 +242,61 @@ describe('Bash History API', () => {
         });
       });
 
+      it('should filter by exit code, command, output, time range and duration', async () => {
+        fs.appendFileSync(
+          mockSessionFile,
+          '\n' +
+            toJsonl([
+              toolUse('bash-slow', 'Bash', { command: 'npm run e2e' }, { timestamp: '2024-01-01T10:04:00.000Z' }),
+              toolResult('bash-slow', { stdout: '', stderr: 'Timeout', exitCode: 124 }, { timestamp: '2024-01-01T10:06:30.000Z' }),
+              toolUse('bash-pending', 'Bash', { command: 'npm run dev' }, { timestamp: '2024-01-01T10:07:00.000Z' }),
+            ])
+        );
+        const ids = async (params: Parameters<typeof handleListBashHistory>[0]): Promise<string[]> =>
+          (await handleListBashHistory(params)).commands.map(cmd => cmd.id);
+
+        expect(await ids({ exitCode: 'success' })).toEqual(['bash-2', 'bash-1']);
+        expect(await ids({ exitCode: 'failure' })).toEqual(['bash-slow', 'bash-3']);
+        expect(await ids({ exitCode: 124 })).toEqual(['bash-slow']);
+        expect(await ids({ commandPattern: '^npm (test|run build)$' })).toEqual(['bash-3', 'bash-1']);
+        expect(await ids({ outputPattern: 'Test suite failed|successful' })).toEqual(['bash-3', 'bash-1']);
+        expect(await ids({ since: '2024-01-01T10:01:00.000Z', until: '2024-01-01T10:04:00.000Z' })).toEqual([
+          'bash-slow',
+          'bash-3',
+          'bash-2',
+        ]);
+        expect(await ids({ minDurationMs: 60000 })).toEqual(['bash-slow']);
+        expect(await ids({ workingDirectory: tmpDir, exitCode: 'failure' })).toEqual(['bash-slow', 'bash-3']);
+        expect(await ids({ workingDirectory: '.', exitCode: 'failure' })).toEqual(['bash-slow', 'bash-3']);
+        expect(await ids({ workingDirectory: 'elsewhere' })).toEqual([]);
+      });
+
+      it('should resolve relative recorded directories against the workspace root', async () => {
+        writeSession(
+          toJsonl([
+            toolUse('bash-api', 'Bash', { command: 'npm test', workingDirectory: 'packages/api' }),
+            toolUse('bash-root', 'Bash', { command: 'npm test' }, { cwd: path.join(tmpDir, 'scripts') }),
+          ])
+        );
+
+        const result = await handleListBashHistory({ workingDirectory: 'packages' });
+
+        expect(result.commands.map(cmd => cmd.id)).toEqual(['bash-api']);
+      });
+
+      it('should reject invalid filters', async () => {
+        await expect(handleListBashHistory({ commandPattern: '(' })).rejects.toThrow(/^Invalid command pattern/);
+        await expect(handleListBashHistory({ since: 'yesterday' })).rejects.toThrow(
+          'Invalid timestamp format: yesterday'
+        );
+        await expect(handleListBashHistory({ exitCode: -1 })).rejects.toThrow('Invalid exit code filter: -1');
+        await expect(handleListBashHistory({ minDurationMs: -5 })).rejects.toThrow('Min duration must not be negative');
+      });
+
       it('should handle empty bash history gracefully', async () => {
-        const nonBashOperations = mockBashOperations.filter(op => op.tool !== 'Bash');
-        mockLogParser.LogParser.parseLogStream = jest
-          .fn()
-          .mockReturnValue(nonBashOperations);
+        writeSession(
+          toJsonl([toolUse('edit-1', 'Edit', { file_path: 'src/test.ts' }, { timestamp: '2024-01-01T10:03:00.000Z' })])
+        );
 
         const result = await handleListBashHistory({ limit: 10 });
 
@@ -256,59 +326,33 @@ describe('Bash History API', () => {
         );
       });
 
-      it('should handle malformed bash diff gracefully', async () => {
-        const malformedOperations = [
-          {
-            id: 'bash-malformed',
-            timestamp: '2024-01-01T10:00:00.000Z',
-            tool: 'Bash',
-            changeType: ChangeType.UPDATE,
-            summary: 'Malformed bash operation',
-          },
-        ];
-
-        mockLogParser.LogParser.parseLogStream = jest
-          .fn()
-          .mockReturnValue(malformedOperations);
-
-        // Mock file content without matching raw entry
-        mockFs.readFile.mockResolvedValue('{"timestamp":"2024-01-01T09:00:00.000Z","tool":"Other"}');
+      it('should list commands whose result has not been recorded yet', async () => {
+        writeSession(
+          toJsonl([toolUse('bash-pending', 'Bash', { command: 'npm run dev' }, { timestamp: '2024-01-01T10:00:00.000Z' })])
+        );
 
         const result = await handleListBashHistory({ limit: 10 });
 
         // Should handle gracefully with fallback data
         expect(result.commands).toHaveLength(1);
-        expect(result.commands[0]?.command).toBe('Malformed bash operation'); // Uses summary as fallback
+        expect(result.commands[0]?.command).toBe('npm run dev');
+        expect(result.commands[0]?.exitCode).toBeUndefined();
+        expect(result.commands[0]?.summary).toBe('No result recorded yet');
+        expect(await handleShowBashResult({ id: 'bash-pending' })).not.toHaveProperty('exitCode');
       });
 
       it('should handle malformed result types gracefully', async () => {
-        const bashOperations = [
-          {
-            id: 'bash-malformed-result',
-            timestamp: '2024-01-01T10:00:00.000Z',
-            tool: 'Bash',
-            changeType: ChangeType.UPDATE,
-            summary: 'npm test',
-          },
-        ];
-
-        mockLogParser.LogParser.parseLogStream = jest
-          .fn()
-          .mockReturnValue(bashOperations);
-
         // Mock file content with malformed result types
-        const malformedJsonlContent = JSON.stringify({
-          timestamp: '2024-01-01T10:00:00.000Z',
-          tool: 'Bash',
-          parameters: { command: 'npm test' },
-          result: {
+        const malformedJsonlContent = toJsonl([
+          toolUse('bash-malformed-result', 'Bash', { command: 'npm test' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+          toolResult('bash-malformed-result', {
             stdout: 123, // Should be string, but is number
             stderr: null, // Should be string, but is null
             exitCode: 'failure', // Should be number, but is string
-          },
-        });
+          }, { timestamp: '2024-01-01T10:00:01.000Z' }),
+        ]);
 
-        mockFs.readFile.mockResolvedValue(malformedJsonlContent);
+        writeSession(malformedJsonlContent);
 
         const result = await handleListBashHistory({ limit: 10 });
 
@@ -321,63 +365,76 @@ describe('Bash History API', () => {
         expect(command.summary).toBe('Command executed'); // Should fallback when stdout/stderr are not strings
       });
 
-      it('should handle timestamp collisions with composite key matching', async () => {
+      it('should pair results by tool use ID when commands share a timestamp', async () => {
         const sameTimestamp = '2024-01-01T10:00:00.000Z';
-        const bashOperations = [
-          {
-            id: 'bash-1',
-            timestamp: sameTimestamp,
-            tool: 'Bash',
-            changeType: ChangeType.UPDATE,
-            summary: 'git status',
-          },
-          {
-            id: 'bash-2',
-            timestamp: sameTimestamp,
-            tool: 'Bash',
-            changeType: ChangeType.UPDATE,
-            summary: 'npm test',
-          },
-        ];
 
-        mockLogParser.LogParser.parseLogStream = jest
-          .fn()
-          .mockReturnValue(bashOperations);
-
-        // Mock file content with two different commands at same timestamp
-        const jsonlContent = [
-          JSON.stringify({
-            timestamp: sameTimestamp,
-            tool: 'Bash',
-            parameters: { command: 'git status' },
-            result: { stdout: 'On branch main', stderr: '', exitCode: 0 },
-          }),
+        // Two commands issued in one assistant message; results arrive in reverse order
+        const jsonlContent = toJsonl([
           JSON.stringify({
+            type: 'assistant',
             timestamp: sameTimestamp,
-            tool: 'Bash',
-            parameters: { command: 'npm test' },
-            result: { stdout: 'Tests passed', stderr: '', exitCode: 0 },
+            message: {
+              content: [
+                { type: 'tool_use', id: 'bash-1', name: 'Bash', input: { command: 'git status' } },
+                { type: 'tool_use', id: 'bash-2', name: 'Bash', input: { command: 'npm test' } },
+              ],
+            },
           }),
-        ].join('\n');
+          toolResult('bash-2', { stdout: 'Tests passed', stderr: '' }, { timestamp: sameTimestamp }),
+          toolResult('bash-1', { stdout: 'On branch main', stderr: '' }, { timestamp: sameTimestamp }),
+        ]);
 
-        mockFs.readFile.mockResolvedValue(jsonlContent);
+        writeSession(jsonlContent);
 
         const result = await handleListBashHistory({ limit: 10 });
 
         expect(result.commands).toHaveLength(2);
-
-        // Should match correctly by timestamp (and verify commands are distinct)
-        expect(result.commands[0]?.command).toBeDefined();
-        expect(result.commands[1]?.command).toBeDefined();
         expect(result.commands[0]?.command).not.toBe(result.commands[1]?.command);
 
         // Both commands should have their correct output
         const gitCommand = result.commands.find(cmd => cmd.command === 'git status');
         const npmCommand = result.commands.find(cmd => cmd.command === 'npm test');
 
+        expect(gitCommand?.id).toBe('bash-1');
         expect(gitCommand?.summary).toContain('On branch main');
+        expect(npmCommand?.id).toBe('bash-2');
         expect(npmCommand?.summary).toContain('Tests passed');
       });
+
+      it('should read the exit code and error output of failed commands in Claude Code format', async () => {
+        writeSession(
+          toJsonl([
+            toolUse('bash-fail', 'Bash', { command: 'npm test' }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+            toolResult('bash-fail', 'Error: Exit code 2\nTest suite failed', {
+              timestamp: '2024-01-01T10:00:01.000Z',
+              isError: true,
+              content: 'Exit code 2\nTest suite failed',
+            }),
+          ])
+        );
+
+        const result = await handleListBashHistory({ limit: 10 });
+
+        expect(result.commands[0]?.exitCode).toBe(2);
+        expect(result.commands[0]?.summary).toBe('Exit code 2');
+      });
+
+      it('should still read legacy log entries', async () => {
+        writeSession(
+          JSON.stringify({
+            timestamp: '2024-01-01T10:00:00.000Z',
+            tool: 'Bash',
+            parameters: { command: 'ls' },
+            result: { stdout: 'README.md', stderr: '', exitCode: 0 },
+          })
+        );
+
+        const result = await handleListBashHistory({ limit: 10 });
+
+        expect(result.commands).toHaveLength(1);
+        expect(result.commands[0]?.command).toBe('ls');
+        expect(result.commands[0]?.summary).toBe('README.md');
+      });
     });
   });
 
@@ -386,10 +443,7 @@ describe('Bash History API', () => {
       mockSessionDiscovery.SessionDiscovery.prototype.findSessionByUID = jest
         .fn()
         .mockResolvedValue({ sessionFile: mockSessionFile });
-      mockFs.readFile.mockResolvedValue(mockRawJsonlContent);
-      mockLogParser.LogParser.parseLogStream = jest
-        .fn()
-        .mockReturnValue(mockBashOperations);
+      writeSession(mockRawJsonlContent);
     });
 
     describe('BashResult type tests', () => {
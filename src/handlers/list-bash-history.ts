@@ -1,18 +1,45 @@
-import type { OperationIndex } from '../types/operation-index';
-import { SessionDiscovery } from '../session-discovery';
-import { LogParser } from '../parsers/log-parser';
-import { UIDManager } from '../uid-manager';
-import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SessionIndex, getBashExitCode, getBashOutput } from '../parsers/session-index';
+import type { ToolCallRecord } from '../parsers/session-index';
+import { resolveSessionFile } from '../utils/session-utils';
+import { matchesAgent } from '../filters/operation-filter-enhanced';
+import { filterBySince, filterByUntil } from '../filters/operation-filter';
+import type { SubagentAttribution } from '../types/operation-index';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+import { getWorkspaceRoot } from '../utils/workspace-utils';
 
 export interface ListBashHistoryParams {
   limit?: number;
+  /** `nextCursor` of a previous response, to get the page after it */
+  cursor?: string;
+  /** `main`, a Task tool_use ID, or a subagent type */
+  agent?: string;
+  /** `success`, `failure`, or a specific exit code. Commands without a result never match */
+  exitCode?: BashExitCodeFilter;
+  /** Regular expression the command must match */
+  commandPattern?: string;
+  /** Only commands run in this directory or below it; relative paths are resolved against the workspace */
+  workingDirectory?: string;
+  /** ISO 8601 timestamp; only commands run at or after it */
+  since?: string;
+  /** ISO 8601 timestamp; only commands run at or before it */
+  until?: string;
+  /** Only commands that took at least this long from tool_use to tool_result */
+  minDurationMs?: number;
+  /** Regular expression stdout or stderr must match */
+  outputPattern?: string;
   toolUseId?: string;
 }
 
+export type BashExitCodeFilter = 'success' | 'failure' | number;
+
 export interface ListBashHistoryResponse {
   commands: BashHistoryItem[];
   totalCount: number;
   hasMore: boolean;
+  /** Cursor for the next page, set when hasMore is true */
+  nextCursor?: string;
   limit: number;
 }
 
@@ -20,9 +47,12 @@ export interface BashHistoryItem {
   id: string;
   timestamp: string;
   command: string;
-  exitCode: number;
+  /** Omitted while the command has no result */
+  exitCode?: number;
   workingDirectory: string;
   summary: string;
+  /** Subagent that ran the command; omitted for the main agent */
+  agent?: SubagentAttribution;
 }
 
 export interface ShowBashResultParams {
@@ -34,7 +64,8 @@ export interface BashResult {
   id: string;
   timestamp: string;
   command: string;
-  exitCode: number;
+  /** Omitted while the command has no result */
+  exitCode?: number;
   workingDirectory: string;
   stdout: string;
   stderr: string;
@@ -44,13 +75,90 @@ function validateLimit(limit?: number): number {
   const defaultLimit = 100;
   if (limit === undefined) {return defaultLimit;}
 
-  if (limit < 1 || limit > 1000) {
-    throw new Error('Limit must be between 1 and 1000');
+  const maxLimit = getConfig().maxLimit;
+  if (limit < 1 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
   }
 
   return limit;
 }
 
+function compilePattern(pattern: string, name: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    throw new Error(`Invalid ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function matchesExitCode(call: ToolCallRecord, filter: BashExitCodeFilter): boolean {
+  if (!call.hasResult) {
+    return false;
+  }
+  const exitCode = getBashExitCode(call);
+  if (filter === 'success') {
+    return exitCode === 0;
+  }
+  return filter === 'failure' ? exitCode !== 0 : exitCode === filter;
+}
+
+/**
+ * Applies the command, directory, time, duration and output filters of the params
+ * @throws Error if a pattern, timestamp or duration is invalid
+ */
+function filterBashCalls(calls: ToolCallRecord[], params: ListBashHistoryParams): ToolCallRecord[] {
+  const { exitCode, minDurationMs } = params;
+  if (
+    exitCode !== undefined &&
+    exitCode !== 'success' &&
+    exitCode !== 'failure' &&
+    (!Number.isInteger(exitCode) || exitCode < 0)
+  ) {
+    throw new Error(`Invalid exit code filter: ${String(exitCode)}`);
+  }
+  if (minDurationMs !== undefined && minDurationMs < 0) {
+    throw new Error('Min duration must not be negative');
+  }
+  const commandPattern = params.commandPattern ? compilePattern(params.commandPattern, 'command pattern') : undefined;
+  const outputPattern = params.outputPattern ? compilePattern(params.outputPattern, 'output pattern') : undefined;
+  const workspaceRoot = getWorkspaceRoot();
+  const directory = params.workingDirectory ? path.resolve(workspaceRoot, params.workingDirectory) : undefined;
+
+  let filtered = calls;
+  if (params.since) {
+    filtered = filterBySince(filtered, params.since);
+  }
+  if (params.until) {
+    filtered = filterByUntil(filtered, params.until);
+  }
+
+  return filtered.filter(call => {
+    const bashInfo = extractBashInfo(call);
+    if (exitCode !== undefined && !matchesExitCode(call, exitCode)) {
+      return false;
+    }
+    if (commandPattern && !commandPattern.test(bashInfo.command)) {
+      return false;
+    }
+    if (directory) {
+      const relative = path.relative(directory, path.resolve(workspaceRoot, bashInfo.workingDirectory));
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return false;
+      }
+    }
+    if (minDurationMs !== undefined) {
+      if (!call.resultTimestamp) {
+        return false;
+      }
+      const durationMs = new Date(call.resultTimestamp).getTime() - new Date(call.timestamp).getTime();
+      if (durationMs < minDurationMs) {
+        return false;
+      }
+    }
+    return !outputPattern || outputPattern.test(bashInfo.stdout) || outputPattern.test(bashInfo.stderr);
+  });
+}
+
 function generateSummary(bashInfo: { stdout: string; stderr: string; exitCode: number }): string {
   const { stdout, stderr, exitCode } = bashInfo;
 
@@ -73,82 +181,62 @@ function generateSummary(bashInfo: { stdout: string; stderr: string; exitCode: n
   return 'Command executed';
 }
 
-interface RawLogEntry {
-  timestamp: string;
-  tool: string;
-  parameters: Record<string, unknown>;
-  result?: unknown;
-}
-
-function isBashOperation(operation: OperationIndex): boolean {
-  return operation.tool === 'Bash';
-}
-
-function parseRawLogEntry(logLine: string): RawLogEntry | null {
-  try {
-    return JSON.parse(logLine) as RawLogEntry;
-  } catch {
-    return null;
-  }
-}
-
 /**
- * Extracts Bash command information from raw log entry.
- * Working directory resolution order: parameters.workingDirectory -> CLAUDE_PROJECT_PATH -> empty string
+ * Extracts Bash command information from a tool call.
+ * Working directory resolution order: parameters.workingDirectory -> recorded cwd -> workspace root
  */
-function extractBashInfo(rawEntry: RawLogEntry): {
+function extractBashInfo(call: ToolCallRecord): {
   command: string;
   stdout: string;
   stderr: string;
-  exitCode: number;
+  exitCode: number | undefined;
   workingDirectory: string;
 } {
-  const params = rawEntry.parameters ?? {};
-
   // Extract command with type safety
-  const cmdVal = params['command'];
+  const cmdVal = call.input['command'];
   const command = typeof cmdVal === 'string' ? cmdVal : '';
 
-  // Extract output from result with type safety
-  const result = (rawEntry.result ?? {}) as Record<string, unknown>;
-  const stdout = typeof result['stdout'] === 'string' ? result['stdout'] : '';
-  const stderr = typeof result['stderr'] === 'string' ? result['stderr'] : '';
-  const exitCode = typeof result['exitCode'] === 'number' ? result['exitCode'] : 0;
+  const { stdout, stderr } = getBashOutput(call);
 
-  // Working directory resolution: parameters first, then environment, then empty
-  const wdVal = params['workingDirectory'];
-  const workingDirectory = typeof wdVal === 'string' ? wdVal : process.cwd();
+  // Working directory resolution: parameters first, then the recorded cwd
+  const wdVal = call.input['workingDirectory'];
+  const workingDirectory = typeof wdVal === 'string' ? wdVal : call.cwd ?? getWorkspaceRoot();
 
   return {
     command,
     stdout,
     stderr,
-    exitCode,
+    exitCode: call.hasResult ? getBashExitCode(call) : undefined,
     workingDirectory,
   };
 }
 
-function convertToBashHistoryItem(operation: OperationIndex, bashInfo: ReturnType<typeof extractBashInfo>): BashHistoryItem {
+function convertToBashHistoryItem(call: ToolCallRecord): BashHistoryItem {
+  const bashInfo = extractBashInfo(call);
   return {
-    id: operation.id,
-    timestamp: operation.timestamp,
+    id: call.id,
+    timestamp: call.timestamp,
     command: bashInfo.command,
-    exitCode: bashInfo.exitCode,
+    ...(bashInfo.exitCode !== undefined && { exitCode: bashInfo.exitCode }),
     workingDirectory: bashInfo.workingDirectory,
-    summary: generateSummary({
-      stdout: bashInfo.stdout,
-      stderr: bashInfo.stderr,
-      exitCode: bashInfo.exitCode,
-    }),
+    summary: bashInfo.exitCode !== undefined
+      ? generateSummary({
+        stdout: bashInfo.stdout,
+        stderr: bashInfo.stderr,
+        exitCode: bashInfo.exitCode,
+      })
+      : 'No result recorded yet',
+    ...(call.agent && { agent: call.agent }),
   };
 }
 
-function convertToBashResult(operation: OperationIndex, bashInfo: ReturnType<typeof extractBashInfo>): BashResult {
+function convertToBashResult(call: ToolCallRecord): BashResult {
+  const bashInfo = extractBashInfo(call);
   return {
-    id: operation.id,
-    timestamp: operation.timestamp,
+    id: call.id,
+    timestamp: call.timestamp,
     command: bashInfo.command,
-    exitCode: bashInfo.exitCode,
+    ...(bashInfo.exitCode !== undefined && { exitCode: bashInfo.exitCode }),
     workingDirectory: bashInfo.workingDirectory,
     stdout: bashInfo.stdout,
     stderr: bashInfo.stderr,
@@ -160,112 +248,34 @@ export async function handleListBashHistory(
 ): Promise<ListBashHistoryResponse> {
   const limit = validateLimit(params.limit);
 
-  // Try to get cached session file first
-  let sessionFile = UIDManager.getCachedSessionFile();
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
 
-  if (!sessionFile) {
-    // Not cached yet - try to find it using toolUseId
-    if (!params.toolUseId) {
-      throw new Error('Tool use ID not provided by Claude Code');
-    }
-
-    const sessionDiscovery = new SessionDiscovery();
-    const sessionInfo = await sessionDiscovery.findSessionByToolUseId(params.toolUseId);
-
-    if (!sessionInfo || !sessionInfo.sessionFile) {
-      // Session file not found - this shouldn't happen with toolUseId
-      throw new Error(`Session file not found for tool use ID: ${params.toolUseId}`);
-    }
-
-    // Found the session file - cache it for future calls
-    sessionFile = sessionInfo.sessionFile;
-    UIDManager.setCachedSessionFile(sessionFile);
-  }
-
-  // Read and parse session file
-  let fileContent: string;
-  try {
-    const buffer = await fs.readFile(sessionFile);
-    fileContent = buffer.toString('utf-8');
-  } catch (error) {
-    throw new Error('Failed to read session file: ' + (error instanceof Error ? error.message : 'Unknown error'));
-  }
-
-  // Parse operations
-  let operations: OperationIndex[];
-  try {
-    operations = LogParser.parseLogStream(fileContent);
-  } catch (error) {
-    throw new Error('Failed to parse session logs: ' + (error instanceof Error ? error.message : 'Unknown error'));
-  }
-
-  // Filter only Bash operations
-  const bashOperations = operations.filter(isBashOperation);
+  // Filter only Bash calls, of the requested agent
+  const bashCalls = filterBashCalls(
+    index.calls.filter(call => call.name === 'Bash' && (!params.agent || matchesAgent(call.agent, params.agent))),
+    params
+  );
 
   // Sort by timestamp (newest first) with stable tiebreaker
-  bashOperations.sort((a, b) => {
+  bashCalls.sort((a, b) => {
     const timeDiff = new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
     return timeDiff !== 0 ? timeDiff : b.id.localeCompare(a.id);
   });
 
-  // Apply limit
-  const totalCount = bashOperations.length;
-  const limitedOperations = bashOperations.slice(0, limit);
-  const hasMore = totalCount > limit;
-
-  // Parse raw log entries to get detailed Bash information
-  const fileLines = fileContent.split('\n').filter(line => line.trim());
-  const bashInfoArray: Array<{
-    timestamp: string;
-    command: string;
-    bashInfo: ReturnType<typeof extractBashInfo>;
-  }> = [];
-
-  for (const line of fileLines) {
-    const rawEntry = parseRawLogEntry(line);
-    if (rawEntry && rawEntry.tool === 'Bash') {
-      const bashInfo = extractBashInfo(rawEntry);
-      bashInfoArray.push({
-        timestamp: rawEntry.timestamp,
-        command: bashInfo.command,
-        bashInfo,
-      });
-    }
-  }
-
-  // Convert to BashHistoryItem format
-  const commands = limitedOperations.map(operation => {
-    // Find matching bash info using composite matching
-    const commandFromSummary = operation.summary?.split(' ').slice(0, 2).join(' ') || '';
-
-    let matchedBashInfo = bashInfoArray.find(entry =>
-      entry.timestamp === operation.timestamp &&
-      (entry.command === commandFromSummary || entry.command.startsWith(commandFromSummary.split(' ')[0] || ''))
-    );
-
-    // Fallback to timestamp-only matching
-    if (!matchedBashInfo) {
-      matchedBashInfo = bashInfoArray.find(entry => entry.timestamp === operation.timestamp);
-    }
-
-    if (matchedBashInfo) {
-      return convertToBashHistoryItem(operation, matchedBashInfo.bashInfo);
-    } else {
-      // Fallback for operations without detailed info
-      return convertToBashHistoryItem(operation, {
-        command: operation.summary || 'Unknown command',
-        stdout: '',
-        stderr: '',
-        exitCode: 0,
-        workingDirectory: process.cwd() || '',
-      });
-    }
-  });
+  // Apply limit, starting after the cursor
+  const totalCount = bashCalls.length;
+  const page = paginate(
+    bashCalls,
+    { limit, order: 'desc', ...(params.cursor && { cursor: params.cursor }) },
+    call => ({ id: call.id, timestamp: call.timestamp })
+  );
 
   return {
-    commands,
+    commands: page.items.map(convertToBashHistoryItem),
     totalCount,
-    hasMore,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
     limit,
   };
 }
@@ -279,82 +289,19 @@ export async function handleShowBashResult(
     throw new Error('Command ID is required');
   }
 
-  // Try to get cached session file first
-  let sessionFile = UIDManager.getCachedSessionFile();
-
-  if (!sessionFile) {
-    // Not cached yet - try to find it using toolUseId
-    if (!params.toolUseId) {
-      throw new Error('Tool use ID not provided by Claude Code');
-    }
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
 
-    const sessionDiscovery = new SessionDiscovery();
-    const sessionInfo = await sessionDiscovery.findSessionByToolUseId(params.toolUseId);
+  // Find the specific call; its result is paired by tool_use_id
+  const call = index.get(id);
 
-    if (!sessionInfo || !sessionInfo.sessionFile) {
-      // Session file not found - this shouldn't happen with toolUseId
-      throw new Error(`Session file not found for tool use ID: ${params.toolUseId}`);
-    }
-
-    // Found the session file - cache it for future calls
-    sessionFile = sessionInfo.sessionFile;
-    UIDManager.setCachedSessionFile(sessionFile);
-  }
-
-  // Read and parse session file
-  let fileContent: string;
-  try {
-    const buffer = await fs.readFile(sessionFile);
-    fileContent = buffer.toString('utf-8');
-  } catch (error) {
-    throw new Error('Failed to read session file: ' + (error instanceof Error ? error.message : 'Unknown error'));
-  }
-
-  // Parse operations
-  let operations: OperationIndex[];
-  try {
-    operations = LogParser.parseLogStream(fileContent);
-  } catch (error) {
-    throw new Error('Failed to parse session logs: ' + (error instanceof Error ? error.message : 'Unknown error'));
-  }
-
-  // Find the specific operation
-  const operation = operations.find(op => op.id === id);
-
-  if (!operation) {
+  if (!call) {
     throw new Error(`Bash command with ID ${id} not found`);
   }
 
-  if (operation.tool !== 'Bash') {
+  if (call.name !== 'Bash') {
     throw new Error(`Operation ${id} is not a Bash command`);
   }
 
-  // Parse raw log entries to get detailed Bash information
-  const fileLines = fileContent.split('\n').filter(line => line.trim());
-  let bashInfo: ReturnType<typeof extractBashInfo> | null = null;
-
-  // Try composite matching first for better accuracy
-  const commandFromSummary = operation.summary?.split(' ').slice(0, 2).join(' ') || '';
-
-  for (const line of fileLines) {
-    const rawEntry = parseRawLogEntry(line);
-    if (rawEntry && rawEntry.tool === 'Bash' && rawEntry.timestamp === operation.timestamp) {
-      const tempBashInfo = extractBashInfo(rawEntry);
-
-      // Prefer command match, but accept any bash operation at same timestamp
-      if (!bashInfo || tempBashInfo.command === commandFromSummary ||
-          tempBashInfo.command.startsWith(commandFromSummary.split(' ')[0] || '')) {
-        bashInfo = tempBashInfo;
-        if (tempBashInfo.command === commandFromSummary) {
-          break; // Exact match found
-        }
-      }
-    }
-  }
-
-  if (!bashInfo) {
-    throw new Error(`Detailed Bash information not found for operation ${id}`);
-  }
-
-  return convertToBashResult(operation, bashInfo);
-}
\ No newline at end of file
+  return convertToBashResult(call);
+}
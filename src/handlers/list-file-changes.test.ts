@@ -1,71 +1,84 @@
 import { handleListFileChanges } from './list-file-changes';
 import { ChangeType } from '../types/operation-index';
-import type { OperationIndex } from '../types/operation-index';
 import * as sessionDiscovery from '../session-discovery';
-import * as logParser from '../parsers/log-parser';
-import * as fs from 'fs/promises';
+import { SessionIndex } from '../parsers/session-index';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { UIDManager } from '../uid-manager';
 
 // Mock dependencies
 jest.mock('../session-discovery');
-jest.mock('../parsers/log-parser');
-jest.mock('fs/promises');
 
 describe('handleListFileChanges', () => {
   const mockSessionDiscovery = sessionDiscovery as jest.Mocked<
     typeof sessionDiscovery
   >;
-  const mockLogParser = logParser as jest.Mocked<typeof logParser>;
-  const mockFs = fs as jest.Mocked<typeof fs>;
+  let tmpDir: string;
+  let mockSessionFile: string;
 
-  const mockSessionFile = '/Users/test/.claude/projects/test-project/sessions/12345.jsonl';
+  // Writes the session log the handlers read
+  const writeSession = (content: string): void => {
+    fs.writeFileSync(mockSessionFile, content);
+  };
   const mockWorkspaceRoot = '/Users/test/test-project';
 
-  const mockOperations: OperationIndex[] = [
+  // Tool calls as recorded in the session log
+  const mockToolCalls: Array<{
+    id: string;
+    timestamp: string;
+    tool: string;
+    input: Record<string, unknown>;
+  }> = [
     {
       id: '1',
       timestamp: '2024-01-01T10:00:00.000Z',
       tool: 'Edit',
-      filePath: `${mockWorkspaceRoot}/src/index.ts`,
-      changeType: ChangeType.UPDATE,
-      summary: 'Updated index.ts',
+      input: { file_path: `${mockWorkspaceRoot}/src/index.ts`, old_string: 'a', new_string: 'b' },
     },
     {
       id: '2',
       timestamp: '2024-01-01T10:01:00.000Z',
       tool: 'Write',
-      filePath: `${mockWorkspaceRoot}/src/components/Button.tsx`,
-      changeType: ChangeType.CREATE,
-      summary: 'Created Button component',
+      input: { file_path: `${mockWorkspaceRoot}/src/components/Button.tsx`, content: '' },
     },
     {
       id: '3',
       timestamp: '2024-01-01T10:02:00.000Z',
       tool: 'Read',
-      filePath: `${mockWorkspaceRoot}/README.md`,
-      changeType: ChangeType.READ,
-      summary: 'Read README',
+      input: { file_path: `${mockWorkspaceRoot}/README.md` },
     },
     {
       id: '4',
       timestamp: '2024-01-01T10:03:00.000Z',
       tool: 'Edit',
-      filePath: `${mockWorkspaceRoot}/src/utils/helpers.ts`,
-      changeType: ChangeType.UPDATE,
-      summary: 'Updated helpers',
+      input: { file_path: `${mockWorkspaceRoot}/src/utils/helpers.ts`, old_string: 'a', new_string: 'b' },
     },
     {
       id: '5',
       timestamp: '2024-01-01T10:04:00.000Z',
-      tool: 'Bash',
-      filePath: `${mockWorkspaceRoot}/src/index.ts`,
-      changeType: ChangeType.DELETE,
-      summary: 'Deleted old index',
+      tool: 'Delete',
+      input: { file_path: `${mockWorkspaceRoot}/src/index.ts` },
     },
   ];
 
+  const toSessionLog = (calls: typeof mockToolCalls): string =>
+    calls
+      .map(call =>
+        JSON.stringify({
+          type: 'assistant',
+          timestamp: call.timestamp,
+          message: {
+            content: [{ type: 'tool_use', id: call.id, name: call.tool, input: call.input }],
+          },
+        })
+      )
+      .join('\n');
+
   beforeEach(() => {
     jest.clearAllMocks();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'session-test-')));
+    mockSessionFile = path.join(tmpDir, '12345.jsonl');
     process.env['CLAUDE_PROJECT_PATH'] = mockWorkspaceRoot;
     // Pre-cache the session file to bypass session discovery
     UIDManager.setCachedSessionFile(mockSessionFile);
@@ -75,14 +88,12 @@ describe('handleListFileChanges', () => {
     delete process.env['CLAUDE_PROJECT_PATH'];
     // Clear the cache
     UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
   describe('Successful operations', () => {
     beforeEach(() => {
-      mockFs.readFile.mockResolvedValue(JSON.stringify(mockOperations));
-      mockLogParser.LogParser.parseLogStream = jest
-        .fn()
-        .mockReturnValue(mockOperations);
+      writeSession(toSessionLog(mockToolCalls));
     });
 
     it('should return file changes for a specific file path', async () => {
@@ -174,19 +185,16 @@ describe('handleListFileChanges', () => {
     });
 
     it('should handle operations without filePath', async () => {
-      const opsWithoutPath: OperationIndex[] = [
-        {
-          id: '6',
-          timestamp: '2024-01-01T10:05:00.000Z',
-          tool: 'Bash',
-          changeType: ChangeType.UPDATE,
-          summary: 'Ran command',
-        },
-      ];
-
-      mockLogParser.LogParser.parseLogStream = jest
-        .fn()
-        .mockReturnValue(opsWithoutPath);
+      writeSession(
+        toSessionLog([
+          {
+            id: '6',
+            timestamp: '2024-01-01T10:05:00.000Z',
+            tool: 'Bash',
+            input: { command: 'cat any.ts' },
+          },
+        ])
+      );
 
       const result = await handleListFileChanges({
         filePath: 'any.ts',
@@ -195,6 +203,120 @@ describe('handleListFileChanges', () => {
 
       expect(result.operations).toHaveLength(0);
     });
+
+    it('should include changes inferred from Bash commands', async () => {
+      writeSession(
+        [
+          JSON.stringify({
+            type: 'assistant',
+            timestamp: '2024-01-01T10:05:00.000Z',
+            cwd: mockWorkspaceRoot,
+            message: {
+              content: [
+                {
+                  type: 'tool_use',
+                  id: '6',
+                  name: 'Bash',
+                  input: { command: "sed -i 's/a/b/' src/utils/helpers.ts && git mv src/old.ts src/utils/" },
+                },
+              ],
+            },
+          }),
+          toSessionLog(mockToolCalls.slice(3, 4)),
+        ].join('\n')
+      );
+
+      const result = await handleListFileChanges({ filePath: 'src/utils/helpers.ts' });
+
+      expect(result.operations).toHaveLength(2);
+      expect(result.operations[0]).toMatchObject({
+        id: '6',
+        tool: 'Bash',
+        filePath: `${mockWorkspaceRoot}/src/utils/helpers.ts`,
+        changeType: ChangeType.UPDATE,
+        inferred: true,
+        confidence: 'high',
+      });
+      expect(result.operations[1]).toMatchObject({ id: '4', tool: 'Edit' });
+      expect(result.operations[1]).not.toHaveProperty('inferred');
+
+      const moved = await handleListFileChanges({ filePath: 'src/utils/old.ts' });
+      expect(moved.operations).toEqual([
+        expect.objectContaining({ changeType: ChangeType.CREATE, confidence: 'medium' }),
+      ]);
+
+      const recordedOnly = await handleListFileChanges({
+        filePath: 'src/utils/helpers.ts',
+        includeInferred: false,
+      });
+      expect(recordedOnly.operations.map(op => op.id)).toEqual(['4']);
+    });
+
+    it('should include notebook cell edits', async () => {
+      writeSession(
+        toSessionLog([
+          {
+            id: '7',
+            timestamp: '2024-01-01T10:06:00.000Z',
+            tool: 'NotebookEdit',
+            input: {
+              notebook_path: `${mockWorkspaceRoot}/notebooks/analysis.ipynb`,
+              cell_id: 'load',
+              new_source: 'df = load()',
+            },
+          },
+        ])
+      );
+
+      const result = await handleListFileChanges({
+        filePath: 'analysis.ipynb',
+        limit: 10,
+      });
+
+      expect(result.operations).toHaveLength(1);
+      expect(result.operations[0]).toMatchObject({
+        tool: 'NotebookEdit',
+        filePath: `${mockWorkspaceRoot}/notebooks/analysis.ipynb`,
+        changeType: ChangeType.UPDATE,
+      });
+    });
+
+    it('should report and filter by the turn that caused each change', async () => {
+      const editIn = (uuid: string, parentUuid: string, id: string): string =>
+        JSON.stringify({
+          type: 'assistant',
+          uuid,
+          parentUuid,
+          timestamp: '2024-01-01T10:00:00.000Z',
+          message: {
+            content: [
+              {
+                type: 'tool_use',
+                id,
+                name: 'Edit',
+                input: { file_path: `${mockWorkspaceRoot}/src/index.ts`, old_string: 'a', new_string: 'b' },
+              },
+            ],
+          },
+        });
+      writeSession(
+        [
+          JSON.stringify({ type: 'user', uuid: 'prompt-1', parentUuid: null, timestamp: '2024-01-01T09:59:00.000Z', message: { content: 'Rename a' } }),
+          editIn('entry-1', 'prompt-1', 'toolu_first'),
+          JSON.stringify({ type: 'user', uuid: 'prompt-2', parentUuid: 'entry-1', timestamp: '2024-01-01T09:59:30.000Z', message: { content: 'Again' } }),
+          editIn('entry-2', 'prompt-2', 'toolu_second'),
+        ].join('\n')
+      );
+
+      const all = await handleListFileChanges({ filePath: 'src/index.ts' });
+      expect(all.operations.map(op => [op.id, op.turnId])).toEqual([
+        ['toolu_second', 'prompt-2'],
+        ['toolu_first', 'prompt-1'],
+      ]);
+
+      const firstTurn = await handleListFileChanges({ filePath: 'src/index.ts', turnId: 'prompt-1' });
+      expect(firstTurn.operations.map(op => op.id)).toEqual(['toolu_first']);
+    });
   });
 
   describe('Error handling', () => {
@@ -236,9 +358,8 @@ describe('handleListFileChanges', () => {
     });
 
     it('should handle file read errors gracefully', async () => {
-      // Re-cache for this test
+      // Re-cache for this test; the session file was never written
       UIDManager.setCachedSessionFile(mockSessionFile);
-      mockFs.readFile.mockRejectedValue(new Error('File read error'));
 
       await expect(
         handleListFileChanges({ filePath: 'test.ts', limit: 10 })
@@ -248,23 +369,21 @@ describe('handleListFileChanges', () => {
     it('should handle log parsing errors gracefully', async () => {
       // Re-cache for this test
       UIDManager.setCachedSessionFile(mockSessionFile);
-      mockFs.readFile.mockResolvedValue('invalid json');
-      mockLogParser.LogParser.parseLogStream = jest.fn().mockImplementation(() => {
+      writeSession('invalid json');
+      const appendSpy = jest.spyOn(SessionIndex.prototype, 'append').mockImplementation(() => {
         throw new Error('Parse error');
       });
 
       await expect(
         handleListFileChanges({ filePath: 'test.ts', limit: 10 })
       ).rejects.toThrow('Failed to parse session logs');
+      appendSpy.mockRestore();
     });
   });
 
   describe('Response format', () => {
     beforeEach(() => {
-      mockFs.readFile.mockResolvedValue(JSON.stringify(mockOperations));
-      mockLogParser.LogParser.parseLogStream = jest
-        .fn()
-        .mockReturnValue(mockOperations);
+      writeSession(toSessionLog(mockToolCalls));
     });
 
     it('should return properly formatted response', async () => {
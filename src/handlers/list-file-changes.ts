@@ -1,10 +1,10 @@
-import { SessionDiscovery } from '../session-discovery';
-import { LogParser } from '../parsers/log-parser';
-import { filterByFilePath, filterByChangeType } from '../filters/operation-filter-enhanced';
+import { SessionIndex } from '../parsers/session-index';
+import { filterByFilePath, filterByChangeType, filterByAgent } from '../filters/operation-filter-enhanced';
 import { ChangeType } from '../types/operation-index';
 import type { OperationIndex } from '../types/operation-index';
-import { UIDManager } from '../uid-manager';
-import * as fs from 'fs/promises';
+import { resolveSessionFile } from '../utils/session-utils';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
 
 /**
  * Parameters for the listFileChanges handler
@@ -18,10 +18,33 @@ export interface ListFileChangesParams {
 
   /**
    * Maximum number of operations to return
-   * Default: 100, Maximum: 1000
+   * Default: 100, Maximum: the configured maxLimit (1000 by default)
    */
   limit?: number;
 
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+
+  /**
+   * Only return operations made while answering this user prompt
+   * (a turn ID from listTurns)
+   */
+  turnId?: string;
+
+  /**
+   * Only return operations of this agent: `main`, a Task tool_use ID,
+   * or a subagent type
+   */
+  agent?: string;
+
+  /**
+   * Include changes inferred from Bash commands (`sed -i`, `mv`, `rm`,
+   * redirections, ...). Default: true
+   */
+  includeInferred?: boolean;
+
   /**
    * Tool use ID from Claude Code (for session identification)
    */
@@ -33,7 +56,8 @@ export interface ListFileChangesParams {
  */
 export interface ListFileChangesResponse {
   /**
-   * Array of file change operations (excludes READ operations)
+   * Array of file change operations (excludes READ operations).
+   * Changes inferred from Bash commands are marked with `inferred: true`
    */
   operations: OperationIndex[];
 
@@ -47,6 +71,11 @@ export interface ListFileChangesResponse {
    */
   hasMore: boolean;
 
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
   /**
    * The limit that was applied
    */
@@ -64,7 +93,6 @@ export interface ListFileChangesResponse {
 }
 
 const DEFAULT_LIMIT = 100;
-const MAX_LIMIT = 1000;
 
 /**
  * Handler for the listFileChanges MCP tool
@@ -82,49 +110,19 @@ export async function handleListFileChanges(
   }
 
   const limit = params.limit ?? DEFAULT_LIMIT;
-  if (limit <= 0 || limit > MAX_LIMIT) {
-    throw new Error(`Limit must be between 1 and ${MAX_LIMIT}`);
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
   }
 
   // Get workspace root from current working directory
   const workspaceRoot = process.cwd();
 
-  // Try to get cached session file first
-  let sessionFile = UIDManager.getCachedSessionFile();
-
-  if (!sessionFile) {
-    // Not cached yet - try to find it using toolUseId
-    if (!params.toolUseId) {
-      throw new Error('Tool use ID not provided by Claude Code');
-    }
-
-    const sessionDiscovery = new SessionDiscovery();
-    const sessionInfo = await sessionDiscovery.findSessionByToolUseId(params.toolUseId);
-
-    if (!sessionInfo || !sessionInfo.sessionFile) {
-      // Session file not found - this shouldn't happen with toolUseId
-      throw new Error(`Session file not found for tool use ID: ${params.toolUseId}`);
-    }
-
-    // Found the session file - cache it for future calls
-    sessionFile = sessionInfo.sessionFile;
-    UIDManager.setCachedSessionFile(sessionFile);
-  }
-
-  // Read and parse the session file
-  let fileContent: string;
-  try {
-    fileContent = await fs.readFile(sessionFile, 'utf-8');
-  } catch (error) {
-    throw new Error(`Failed to read session file: ${error instanceof Error ? error.message : 'Unknown error'}`);
-  }
-
-  // Parse the log entries
-  let operations: OperationIndex[];
-  try {
-    operations = LogParser.parseLogStream(fileContent);
-  } catch (error) {
-    throw new Error(`Failed to parse session logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+  const operations = index.getOperations();
+  if (params.includeInferred !== false) {
+    operations.push(...index.getInferredOperations());
   }
 
   // Filter operations by file path
@@ -142,6 +140,12 @@ export async function handleListFileChanges(
   ];
   filteredOperations = filterByChangeType(filteredOperations, changeTypes);
 
+  if (params.turnId) {
+    filteredOperations = filteredOperations.filter(op => op.turnId === params.turnId);
+  }
+
+  filteredOperations = filterByAgent(filteredOperations, params.agent);
+
   // Sort operations by timestamp (newest first) with deterministic tiebreaker
   filteredOperations.sort((a, b) => {
     const timeA = new Date(a.timestamp).getTime();
@@ -159,16 +163,21 @@ export async function handleListFileChanges(
   // Store total count before applying limit
   const totalCount = filteredOperations.length;
 
-  // Apply limit
-  const actualLimit = Math.min(limit, MAX_LIMIT);
-  const limitedOperations = filteredOperations.slice(0, actualLimit);
+  // Apply limit, starting after the cursor. Inferred operations share the
+  // ID of their Bash call, so the file path is part of the anchor.
+  const page = paginate(
+    filteredOperations,
+    { limit, order: 'desc', ...(params.cursor && { cursor: params.cursor }) },
+    op => ({ id: `${op.id}:${op.filePath}`, timestamp: op.timestamp })
+  );
 
   // Prepare response
   const response: ListFileChangesResponse = {
-    operations: limitedOperations,
+    operations: page.items,
     totalCount,
-    hasMore: totalCount > actualLimit,
-    limit: actualLimit,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
     filePath: params.filePath,
   };
 
@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { handleListSessions } from './list-sessions';
+import { SessionDiscovery } from '../session-discovery';
+import {
+  toJsonl,
+  toolUses,
+  userPrompt,
+  type SessionEntry,
+} from '../__tests__/helpers/session-fixtures';
+
+jest.mock('fs', () => {
+  const actual = jest.requireActual<typeof import('fs')>('fs');
+  return { ...actual, createReadStream: jest.fn(actual.createReadStream) };
+});
+
+describe('handleListSessions', () => {
+  let homeDir: string;
+  let projectsPathSpy: jest.SpyInstance;
+
+  const writeSession = (
+    projectHash: string,
+    sessionId: string,
+    entries: Array<SessionEntry | string>
+  ): string => {
+    const projectDir = path.join(homeDir, '.claude', 'projects', projectHash);
+    fs.mkdirSync(projectDir, { recursive: true });
+    const sessionFile = path.join(projectDir, `${sessionId}.jsonl`);
+    fs.writeFileSync(sessionFile, toJsonl(entries) + '\n');
+    return sessionFile;
+  };
+
+  beforeEach(() => {
+    homeDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'list-sessions-test-'))
+    );
+    projectsPathSpy = jest
+      .spyOn(SessionDiscovery.prototype, 'getClaudeProjectsPath')
+      .mockReturnValue(path.join(homeDir, '.claude', 'projects'));
+
+    writeSession('-work-api', 'session-api', [
+      userPrompt('hi', {
+        timestamp: '2024-01-01T09:00:00.000Z',
+        cwd: '/work/api',
+      }),
+      toolUses(
+        [
+          { id: 'toolu_api_read', name: 'Read' },
+          { id: 'toolu_api_edit', name: 'Edit' },
+        ],
+        {
+          timestamp: '2024-01-01T09:01:00.000Z',
+          cwd: '/work/api',
+          gitBranch: 'main',
+        }
+      ),
+      toolUses(
+        [
+          { id: 'toolu_api_migration', name: 'Edit' },
+          { id: 'toolu_api_migrate', name: 'Bash' },
+        ],
+        {
+          timestamp: '2024-01-01T09:30:00.000Z',
+          cwd: '/work/api',
+          gitBranch: 'feature/migrations',
+        }
+      ),
+    ]);
+    writeSession('-work-web', 'session-web', [
+      toolUses([{ id: 'toolu_web_write', name: 'Write' }], {
+        timestamp: '2024-01-02T14:00:00.000Z',
+        cwd: '/work/web',
+        gitBranch: 'main',
+      }),
+      'not json',
+      toolUses([{ id: 'toolu_web_build', name: 'Bash' }], {
+        timestamp: '2024-01-02T15:00:00.000Z',
+        cwd: '/work/web',
+        gitBranch: 'main',
+      }),
+    ]);
+  });
+
+  afterEach(() => {
+    projectsPathSpy.mockRestore();
+    fs.rmSync(homeDir, { recursive: true, force: true });
+  });
+
+  it('should summarize every session, most recently active first', async () => {
+    const result = await handleListSessions();
+
+    expect(result.totalCount).toBe(2);
+    expect(result.hasMore).toBe(false);
+    expect(result.sessions.map(session => session.sessionId)).toEqual([
+      'session-web',
+      'session-api',
+    ]);
+
+    const api = result.sessions[1]!;
+    expect(api).toMatchObject({
+      projectPath: '/work/api',
+      projectHash: '-work-api',
+      firstTimestamp: '2024-01-01T09:00:00.000Z',
+      lastTimestamp: '2024-01-01T09:30:00.000Z',
+      operationCounts: { Read: 1, Edit: 2, Bash: 1 },
+      totalOperations: 4,
+      gitBranch: 'feature/migrations',
+    });
+    expect(api.fileSize).toBe(fs.statSync(api.sessionFile).size);
+  });
+
+  it('should filter by project path fragment', async () => {
+    const result = await handleListSessions({ project: 'work/api' });
+
+    expect(result.sessions.map(session => session.sessionId)).toEqual([
+      'session-api',
+    ]);
+  });
+
+  const readFiles = (): string[] =>
+    (fs.createReadStream as jest.Mock).mock.calls.map(([file]) =>
+      path.basename(String(file))
+    );
+
+  it('should only read the session files of matching projects', async () => {
+    (fs.createReadStream as jest.Mock).mockClear();
+
+    const result = await handleListSessions({ project: '/work/web' });
+
+    expect(result.sessions.map(session => session.sessionId)).toEqual([
+      'session-web',
+    ]);
+    expect(readFiles()).toEqual(['session-web.jsonl']);
+  });
+
+  it('should reuse summaries of unchanged session files', async () => {
+    await handleListSessions();
+    (fs.createReadStream as jest.Mock).mockClear();
+
+    await handleListSessions();
+    expect(readFiles()).toEqual([]);
+
+    const apiFile = path.join(
+      homeDir,
+      '.claude',
+      'projects',
+      '-work-api',
+      'session-api.jsonl'
+    );
+    fs.appendFileSync(
+      apiFile,
+      toJsonl([
+        toolUses([{ id: 'toolu_api_grep', name: 'Grep' }], {
+          timestamp: '2024-01-03T08:00:00.000Z',
+          cwd: '/work/api',
+          gitBranch: 'main',
+        }),
+      ]) + '\n'
+    );
+    const result = await handleListSessions();
+
+    expect(readFiles()).toEqual(['session-api.jsonl']);
+    expect(result.sessions[0]).toMatchObject({
+      sessionId: 'session-api',
+      totalOperations: 5,
+    });
+  });
+
+  it('should keep sessions whose activity overlaps the time range', async () => {
+    const result = await handleListSessions({
+      since: '2024-01-01T09:15:00.000Z',
+      until: '2024-01-01T23:59:59.000Z',
+    });
+
+    expect(result.sessions.map(session => session.sessionId)).toEqual([
+      'session-api',
+    ]);
+  });
+
+  it('should apply the limit', async () => {
+    const result = await handleListSessions({ limit: 1 });
+
+    expect(result.sessions).toHaveLength(1);
+    expect(result.totalCount).toBe(2);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should return no sessions when the projects directory is missing', async () => {
+    fs.rmSync(path.join(homeDir, '.claude'), { recursive: true, force: true });
+
+    await expect(handleListSessions()).resolves.toMatchObject({
+      sessions: [],
+      totalCount: 0,
+    });
+  });
+
+  it('should reject invalid parameters', async () => {
+    await expect(handleListSessions({ limit: 0 })).rejects.toThrow(
+      'Limit must be between 1 and 1000'
+    );
+    await expect(handleListSessions({ since: 'yesterday' })).rejects.toThrow(
+      'Invalid timestamp format: yesterday'
+    );
+  });
+});
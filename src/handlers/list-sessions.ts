@@ -0,0 +1,300 @@
+import * as fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import * as readline from 'readline';
+import { SessionDiscovery } from '../session-discovery';
+import type { SessionInfo } from '../session-cache';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+import { parseTimestamp } from '../utils/time-utils';
+
+/**
+ * Parameters for the listSessions handler
+ */
+export interface ListSessionsParams {
+  /**
+   * Project path, directory name or fragment of either to match against
+   */
+  project?: string;
+
+  /**
+   * ISO 8601 timestamp; only sessions active at or after it are returned
+   */
+  since?: string;
+
+  /**
+   * ISO 8601 timestamp; only sessions active at or before it are returned
+   */
+  until?: string;
+
+  /**
+   * Maximum number of sessions to return
+   * Default: 100, Maximum: the configured maxLimit (1000 by default)
+   */
+  limit?: number;
+
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+}
+
+/**
+ * Summary of one Claude Code session file
+ */
+export interface SessionSummary {
+  sessionId: string;
+  /** Working directory recorded in the session, or the project directory name */
+  projectPath: string;
+  /** Directory name under ~/.claude/projects */
+  projectHash: string;
+  sessionFile: string;
+  firstTimestamp?: string;
+  lastTimestamp?: string;
+  /** Number of tool calls per tool name */
+  operationCounts: Record<string, number>;
+  totalOperations: number;
+  /** Size of the session file in bytes */
+  fileSize: number;
+  /** Git branch recorded with the latest entry */
+  gitBranch?: string;
+}
+
+/**
+ * Response from the listSessions handler
+ */
+export interface ListSessionsResponse {
+  /**
+   * Matching sessions, most recently active first
+   */
+  sessions: SessionSummary[];
+
+  /**
+   * Total count of matching sessions (before limit)
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more sessions beyond the limit
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
+  /**
+   * The limit that was applied
+   */
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Summaries of session files by path, reused while the file keeps the same
+ * size and modification time
+ */
+const summaryCache = new Map<string, { size: number; mtimeMs: number; summary: SessionSummary }>();
+
+/**
+ * Streams a session file once, collecting its time span, project path,
+ * git branch and tool call counts
+ */
+async function summarizeSession(session: SessionInfo, fileSize: number): Promise<SessionSummary> {
+  const operationCounts: Record<string, number> = {};
+  let totalOperations = 0;
+  let firstTimestamp: string | undefined;
+  let lastTimestamp: string | undefined;
+  let cwd: string | undefined;
+  let gitBranch: string | undefined;
+
+  const countTool = (name: unknown): void => {
+    if (typeof name === 'string') {
+      operationCounts[name] = (operationCounts[name] ?? 0) + 1;
+      totalOperations++;
+    }
+  };
+
+  const stream = createReadStream(session.sessionFile, { encoding: 'utf-8' });
+  const rl = readline.createInterface({
+    input: stream,
+    crlfDelay: Infinity,
+  });
+
+  try {
+    for await (const line of rl) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let entry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // Skip invalid JSON lines
+        continue;
+      }
+      if (typeof entry !== 'object' || entry === null) {
+        continue;
+      }
+
+      if (typeof entry.timestamp === 'string') {
+        firstTimestamp ??= entry.timestamp;
+        lastTimestamp = entry.timestamp;
+      }
+      if (typeof entry.cwd === 'string') {
+        cwd ??= entry.cwd;
+      }
+      if (typeof entry.gitBranch === 'string' && entry.gitBranch !== '') {
+        gitBranch = entry.gitBranch;
+      }
+
+      const content = entry.message?.content;
+      if (Array.isArray(content)) {
+        if (entry.type === 'assistant') {
+          for (const item of content) {
+            if (item?.type === 'tool_use') {
+              countTool(item.name);
+            }
+          }
+        }
+      } else if (typeof entry.tool === 'string') {
+        // Legacy format: one tool call per entry
+        countTool(entry.tool);
+      }
+    }
+  } finally {
+    rl.close();
+    stream.close();
+  }
+
+  return {
+    sessionId: session.sessionId,
+    projectPath: cwd ?? session.projectHash,
+    projectHash: session.projectHash,
+    sessionFile: session.sessionFile,
+    ...(firstTimestamp && { firstTimestamp }),
+    ...(lastTimestamp && { lastTimestamp }),
+    operationCounts,
+    totalOperations,
+    fileSize,
+    ...(gitBranch && { gitBranch }),
+  };
+}
+
+/**
+ * Whether a session in the project directory can match the project filter.
+ * Claude Code names project directories after the working directory with
+ * every other character than letters and digits replaced by `-`, so a
+ * working directory containing the filter gives a directory name containing
+ * the filter encoded the same way.
+ */
+function mayMatchProject(projectHash: string, project: string): boolean {
+  return projectHash.includes(project) || projectHash.includes(project.replace(/[^A-Za-z0-9]/g, '-'));
+}
+
+async function getSessionSummary(session: SessionInfo, size: number, mtimeMs: number): Promise<SessionSummary> {
+  const cached = summaryCache.get(session.sessionFile);
+  if (cached && cached.size === size && cached.mtimeMs === mtimeMs) {
+    return cached.summary;
+  }
+
+  const summary = await summarizeSession(session, size);
+  summaryCache.set(session.sessionFile, { size, mtimeMs, summary });
+  return summary;
+}
+
+/**
+ * Handler for the listSessions MCP tool
+ * Enumerates the Claude Code sessions of every project under ~/.claude/projects
+ *
+ * @param params - Project and time range filters
+ * @returns Session summaries, most recently active first
+ */
+export async function handleListSessions(
+  params: ListSessionsParams = {}
+): Promise<ListSessionsResponse> {
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
+  }
+
+  const sinceTime = parseTimestamp(params.since);
+  const untilTime = parseTimestamp(params.until);
+  const project = params.project?.trim();
+
+  const sessionDiscovery = new SessionDiscovery();
+  const sessionFiles = await sessionDiscovery.listSessionFiles();
+
+  const sessions: SessionSummary[] = [];
+  for (const sessionFile of sessionFiles) {
+    // Only read the files of projects that can match
+    if (project && !mayMatchProject(sessionFile.projectHash, project)) {
+      continue;
+    }
+
+    let stats;
+    try {
+      stats = await fs.stat(sessionFile.sessionFile);
+    } catch {
+      // Session file removed while listing
+      summaryCache.delete(sessionFile.sessionFile);
+      continue;
+    }
+
+    // Nothing was written to the file after its last modification
+    if (sinceTime !== undefined && stats.mtimeMs < sinceTime) {
+      continue;
+    }
+
+    let summary: SessionSummary;
+    try {
+      summary = await getSessionSummary(sessionFile, stats.size, stats.mtimeMs);
+    } catch {
+      // Skip unreadable session files
+      continue;
+    }
+
+    if (project && !summary.projectPath.includes(project) && !summary.projectHash.includes(project)) {
+      continue;
+    }
+
+    if (sinceTime !== undefined || untilTime !== undefined) {
+      // Keep sessions whose time span overlaps the requested range
+      if (!summary.firstTimestamp || !summary.lastTimestamp) {
+        continue;
+      }
+      if (sinceTime !== undefined && new Date(summary.lastTimestamp).getTime() < sinceTime) {
+        continue;
+      }
+      if (untilTime !== undefined && new Date(summary.firstTimestamp).getTime() > untilTime) {
+        continue;
+      }
+    }
+
+    sessions.push(summary);
+  }
+
+  // Most recently active first, with deterministic tiebreaker
+  sessions.sort((a, b) => {
+    const timeA = a.lastTimestamp ? new Date(a.lastTimestamp).getTime() : 0;
+    const timeB = b.lastTimestamp ? new Date(b.lastTimestamp).getTime() : 0;
+    return timeB !== timeA ? timeB - timeA : b.sessionId.localeCompare(a.sessionId);
+  });
+
+  const totalCount = sessions.length;
+  const page = paginate(
+    sessions,
+    { limit, order: 'desc', ...(params.cursor && { cursor: params.cursor }) },
+    session => ({ id: session.sessionId, timestamp: session.lastTimestamp ?? '' })
+  );
+  return {
+    sessions: page.items,
+    totalCount,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
+  };
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { handleListTurns } from './list-turns';
+import { UIDManager } from '../uid-manager';
+import { toolResult, toolUse, userPrompt, writeSessionFile } from '../__tests__/helpers/session-fixtures';
+
+describe('handleListTurns', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'list-turns-test-')));
+    const sessionFile = path.join(tmpDir, 'session.jsonl');
+    writeSessionFile(sessionFile, [
+      userPrompt('Add retries to the API client', { uuid: 'p1', parentUuid: null, timestamp: '2024-01-01T09:00:00.000Z' }),
+      toolUse('toolu_read', 'Read', { file_path: '/workspace/src/client.ts' }, { uuid: 'a1', parentUuid: 'p1' }),
+      toolResult('toolu_read', undefined, { uuid: 'r1', parentUuid: 'a1' }),
+      toolUse('toolu_edit', 'Edit', { file_path: '/workspace/src/client.ts', old_string: 'a', new_string: 'b' }, { uuid: 'a2', parentUuid: 'r1' }),
+      toolResult('toolu_edit', undefined, { uuid: 'r2', parentUuid: 'a2' }),
+      toolUse('toolu_edit2', 'Edit', { file_path: '/workspace/src/client.ts', old_string: 'b', new_string: 'c' }, { uuid: 'a3', parentUuid: 'r2' }),
+      toolResult('toolu_edit2', undefined, { uuid: 'r3', parentUuid: 'a3' }),
+      toolUse('toolu_test', 'Bash', { command: 'npm test' }, { uuid: 'a4', parentUuid: 'r3' }),
+      toolResult('toolu_test', undefined, { uuid: 'r4', parentUuid: 'a4', isError: true, content: 'Exit code 1\nFAIL' }),
+      userPrompt('Write the changelog entry for this release', { uuid: 'p2', parentUuid: 'r4', timestamp: '2024-01-01T09:30:00.000Z' }),
+      toolUse('toolu_write', 'Write', { file_path: '/workspace/CHANGELOG.md', content: '# 1.1.0' }, { uuid: 'a5', parentUuid: 'p2' }),
+      toolResult('toolu_write', undefined, { uuid: 'r5', parentUuid: 'a5' }),
+      toolUse('toolu_readme', 'Edit', { file_path: '/workspace/README.md', old_string: 'x', new_string: 'y' }, { uuid: 'a6', parentUuid: 'r5' }),
+      toolResult('toolu_readme', undefined, { uuid: 'r6', parentUuid: 'a6', isError: true, content: 'String to replace not found' }),
+      toolUse('toolu_build', 'Bash', { command: 'npm run build' }, { uuid: 'a7', parentUuid: 'r6' }),
+    ]);
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should list prompts newest first with the files they changed and commands they ran', async () => {
+    const result = await handleListTurns();
+
+    expect(result.totalCount).toBe(2);
+    expect(result.turns).toEqual([
+      {
+        id: 'p2',
+        timestamp: '2024-01-01T09:30:00.000Z',
+        prompt: 'Write the changelog entry for this release',
+        filesChanged: ['/workspace/CHANGELOG.md'],
+        commands: [{ id: 'toolu_build', command: 'npm run build' }],
+        operationCount: 3,
+      },
+      {
+        id: 'p1',
+        timestamp: '2024-01-01T09:00:00.000Z',
+        prompt: 'Add retries to the API client',
+        filesChanged: ['/workspace/src/client.ts'],
+        commands: [{ id: 'toolu_test', command: 'npm test', exitCode: 1 }],
+        operationCount: 4,
+      },
+    ]);
+  });
+
+  it('should truncate prompts and apply the limit', async () => {
+    const result = await handleListTurns({ maxPromptLength: 9, limit: 1 });
+
+    expect(result.turns).toHaveLength(1);
+    expect(result.turns[0]).toMatchObject({ prompt: 'Write the', promptTruncated: true });
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should reject invalid parameters', async () => {
+    await expect(handleListTurns({ limit: 0 })).rejects.toThrow('Limit must be between 1 and 1000');
+    await expect(handleListTurns({ maxPromptLength: -1 })).rejects.toThrow(
+      'Max prompt length must not be negative'
+    );
+  });
+});
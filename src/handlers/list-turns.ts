@@ -0,0 +1,187 @@
+import { SessionIndex, getBashExitCode, type ToolCallRecord } from '../parsers/session-index';
+import { ChangeType } from '../types/operation-index';
+import { resolveSessionFile } from '../utils/session-utils';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+
+/**
+ * Parameters for the listTurns handler
+ */
+export interface ListTurnsParams {
+  /**
+   * Maximum number of characters kept of each prompt. Default: 500, 0 disables truncation
+   */
+  maxPromptLength?: number;
+
+  /**
+   * Maximum number of turns to return
+   * Default: 100, Maximum: the configured maxLimit (1000 by default)
+   */
+  limit?: number;
+
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * A Bash command run while answering a prompt
+ */
+export interface TurnCommand {
+  id: string;
+  command: string;
+
+  /**
+   * Exit code of the command; omitted while it has no result
+   */
+  exitCode?: number;
+}
+
+/**
+ * A user prompt with the changes and commands that followed from it
+ */
+export interface TurnSummary {
+  /**
+   * Turn ID (UUID of the prompt entry), as returned in `turnId` by listFileChanges
+   */
+  id: string;
+  timestamp: string;
+  prompt: string;
+  promptTruncated?: boolean;
+
+  /**
+   * Files created, updated or deleted in the turn, in order of first change.
+   * Failed tool calls are left out.
+   */
+  filesChanged: string[];
+  commands: TurnCommand[];
+
+  /**
+   * Number of tool calls made in the turn
+   */
+  operationCount: number;
+}
+
+/**
+ * Response from the listTurns handler
+ */
+export interface ListTurnsResponse {
+  /**
+   * Turns, newest first
+   */
+  turns: TurnSummary[];
+
+  /**
+   * Total count of turns (before limit)
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more turns beyond the limit
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
+  /**
+   * The limit that was applied
+   */
+  limit: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_MAX_PROMPT_LENGTH = 500;
+
+function summarizeCalls(calls: ToolCallRecord[]): Pick<TurnSummary, 'filesChanged' | 'commands'> {
+  const filesChanged = new Set<string>();
+  const commands: TurnCommand[] = [];
+
+  for (const call of calls) {
+    const { filePath, changeType } = call.operation;
+    if (filePath && changeType !== ChangeType.READ && !call.isError) {
+      filesChanged.add(filePath);
+    }
+
+    if (call.name === 'Bash') {
+      const command = call.input['command'];
+      commands.push({
+        id: call.id,
+        command: typeof command === 'string' ? command : '',
+        ...(call.hasResult && { exitCode: getBashExitCode(call) }),
+      });
+    }
+  }
+
+  return { filesChanged: [...filesChanged], commands };
+}
+
+/**
+ * Handler for the listTurns MCP tool
+ * Lists the user prompts of the session with the files each one changed and
+ * the commands it ran. Tool calls are attributed to a prompt by following the
+ * `parentUuid` chain of their log entry.
+ *
+ * @param params - Parameters for the turn listing
+ * @returns Turns, newest first
+ */
+export async function handleListTurns(params: ListTurnsParams = {}): Promise<ListTurnsResponse> {
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
+  }
+
+  const maxPromptLength = params.maxPromptLength ?? DEFAULT_MAX_PROMPT_LENGTH;
+  if (maxPromptLength < 0) {
+    throw new Error('Max prompt length must not be negative');
+  }
+
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  // Group calls by turn in one pass
+  const callsByTurn = new Map<string, ToolCallRecord[]>();
+  for (const call of index.calls) {
+    if (call.turnId) {
+      const calls = callsByTurn.get(call.turnId) ?? [];
+      calls.push(call);
+      callsByTurn.set(call.turnId, calls);
+    }
+  }
+
+  const turns = [...index.turns].reverse();
+  const totalCount = turns.length;
+  const page = paginate(
+    turns,
+    { limit, order: 'desc', ...(params.cursor && { cursor: params.cursor }) },
+    turn => ({ id: turn.id, timestamp: turn.timestamp })
+  );
+
+  return {
+    turns: page.items.map(turn => {
+      const calls = callsByTurn.get(turn.id) ?? [];
+      const truncated = maxPromptLength > 0 && turn.prompt.length > maxPromptLength;
+      return {
+        id: turn.id,
+        timestamp: turn.timestamp,
+        prompt: truncated ? turn.prompt.slice(0, maxPromptLength) : turn.prompt,
+        ...(truncated && { promptTruncated: true }),
+        ...summarizeCalls(calls),
+        operationCount: calls.length,
+      };
+    }),
+    totalCount,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
+  };
+}
@@ -0,0 +1,170 @@
+import { handleListPrompts, handleGetPrompt } from './prompts';
+import * as listFileChanges from './list-file-changes';
+import * as listBashHistory from './list-bash-history';
+import { ChangeType } from '../types/operation-index';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+
+jest.mock('./list-file-changes');
+jest.mock('./list-bash-history');
+
+describe('MCP prompts', () => {
+  const mockListFileChanges = listFileChanges.handleListFileChanges as jest.MockedFunction<
+    typeof listFileChanges.handleListFileChanges
+  >;
+  const mockListBashHistory = listBashHistory.handleListBashHistory as jest.MockedFunction<
+    typeof listBashHistory.handleListBashHistory
+  >;
+  const mockShowBashResult = listBashHistory.handleShowBashResult as jest.MockedFunction<
+    typeof listBashHistory.handleShowBashResult
+  >;
+
+  const operations = [
+    {
+      id: 'toolu_edit_late',
+      timestamp: '2025-01-01T10:05:00.000Z',
+      tool: 'Edit',
+      filePath: '/workspace/src/app.ts',
+      summary: 'Edit operation on /workspace/src/app.ts',
+      changeType: ChangeType.UPDATE,
+    },
+    {
+      id: 'toolu_edit_early',
+      timestamp: '2025-01-01T10:00:00.000Z',
+      tool: 'Edit',
+      filePath: '/workspace/src/app.ts',
+      summary: 'Edit operation on /workspace/src/app.ts',
+      changeType: ChangeType.UPDATE,
+    },
+  ];
+
+  const commands = [
+    {
+      id: 'toolu_bash_ok',
+      timestamp: '2025-01-01T10:06:00.000Z',
+      command: 'npm run build',
+      exitCode: 0,
+      workingDirectory: '/workspace',
+      summary: 'Build complete',
+    },
+    {
+      id: 'toolu_bash_fail',
+      timestamp: '2025-01-01T10:02:00.000Z',
+      command: 'npm test',
+      exitCode: 1,
+      workingDirectory: '/workspace',
+      summary: 'Error: expected 1 to be 2',
+    },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    _setTestWorkspaceRoot('/workspace');
+    mockListFileChanges.mockResolvedValue({
+      operations,
+      totalCount: operations.length,
+      hasMore: false,
+      limit: 20,
+      filePath: '/workspace',
+    });
+    mockListBashHistory.mockResolvedValue({
+      commands,
+      totalCount: commands.length,
+      hasMore: false,
+      limit: 20,
+    });
+    mockShowBashResult.mockResolvedValue({
+      id: 'toolu_bash_fail',
+      timestamp: '2025-01-01T10:02:00.000Z',
+      command: 'npm test',
+      exitCode: 1,
+      workingDirectory: '/workspace',
+      stdout: 'Running tests...',
+      stderr: 'Error: expected 1 to be 2',
+    });
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+  });
+
+  describe('handleListPrompts', () => {
+    it('should list the built-in prompts with their arguments', async () => {
+      const result = await handleListPrompts();
+      const names = result.prompts.map(p => p.name);
+
+      expect(names).toEqual([
+        'review-session-changes',
+        'explain-failing-command',
+        'summarize-file-history',
+      ]);
+      const summarize = result.prompts.find(p => p.name === 'summarize-file-history');
+      expect(summarize?.arguments).toEqual([
+        expect.objectContaining({ name: 'filePath', required: true }),
+      ]);
+    });
+  });
+
+  describe('handleGetPrompt', () => {
+    it('should embed file changes and Bash history in review-session-changes', async () => {
+      const result = await handleGetPrompt('review-session-changes');
+      const text = result.messages[0]!.content.text;
+
+      expect(result.messages[0]!.role).toBe('user');
+      expect(mockListFileChanges).toHaveBeenCalledWith(expect.objectContaining({ filePath: '/workspace' }));
+      expect(text).toContain('toolu_edit_late');
+      expect(text).toContain('`npm test`');
+      expect(text).toContain('exit 1');
+    });
+
+    it('should default explain-failing-command to the latest failing command', async () => {
+      const result = await handleGetPrompt('explain-failing-command');
+      const text = result.messages[0]!.content.text;
+
+      expect(mockShowBashResult).toHaveBeenCalledWith({ id: 'toolu_bash_fail' });
+      expect(text).toContain('Error: expected 1 to be 2');
+      // Only edits made before the command are included
+      expect(text).toContain('toolu_edit_early');
+      expect(text).not.toContain('toolu_edit_late');
+    });
+
+    it('should use the given command id in explain-failing-command', async () => {
+      await handleGetPrompt('explain-failing-command', { id: 'toolu_bash_fail' }, 'toolu_meta');
+
+      expect(mockListBashHistory).not.toHaveBeenCalled();
+      expect(mockShowBashResult).toHaveBeenCalledWith({
+        id: 'toolu_bash_fail',
+        toolUseId: 'toolu_meta',
+      });
+    });
+
+    it('should report when there is no failing command', async () => {
+      mockListBashHistory.mockResolvedValue({
+        commands: [commands[0]!],
+        totalCount: 1,
+        hasMore: false,
+        limit: 1000,
+      });
+
+      await expect(handleGetPrompt('explain-failing-command')).rejects.toThrow(
+        'No failing Bash command found'
+      );
+    });
+
+    it('should embed the file history in summarize-file-history', async () => {
+      const result = await handleGetPrompt('summarize-file-history', { filePath: 'src/app.ts' });
+
+      expect(mockListFileChanges).toHaveBeenCalledWith({ filePath: 'src/app.ts', limit: 20 });
+      expect(result.messages[0]!.content.text).toContain('toolu_edit_early');
+    });
+
+    it('should require filePath for summarize-file-history', async () => {
+      await expect(handleGetPrompt('summarize-file-history')).rejects.toThrow(
+        'Prompt argument "filePath" is required'
+      );
+    });
+
+    it('should reject unknown prompts', async () => {
+      await expect(handleGetPrompt('unknown')).rejects.toThrow('Prompt not found: unknown');
+    });
+  });
+});
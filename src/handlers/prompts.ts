@@ -0,0 +1,242 @@
+import { handleListFileChanges } from './list-file-changes';
+import { handleListBashHistory, handleShowBashResult } from './list-bash-history';
+import type { BashHistoryItem } from './list-bash-history';
+import type { OperationIndex } from '../types/operation-index';
+import { getConfig } from '../config';
+import { getWorkspaceRoot } from '../utils/workspace-utils';
+
+/**
+ * Argument accepted by a prompt
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+/**
+ * Prompt as advertised by prompts/list
+ */
+export interface PromptDescriptor {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/**
+ * Response from prompts/get: a single user message populated with session data
+ */
+export interface GetPromptResponse {
+  [key: string]: unknown;
+  description: string;
+  messages: Array<{
+    role: 'user';
+    content: {
+      type: 'text';
+      text: string;
+    };
+  }>;
+}
+
+/**
+ * Maximum number of items embedded in a prompt per section
+ */
+const PROMPT_ITEM_LIMIT = 20;
+
+const PROMPTS: PromptDescriptor[] = [
+  {
+    name: 'review-session-changes',
+    description: 'Review the file changes and Bash commands of the current session',
+    arguments: [],
+  },
+  {
+    name: 'explain-failing-command',
+    description: 'Explain why a Bash command failed, using its output and the edits made before it',
+    arguments: [
+      {
+        name: 'id',
+        description: 'Bash operation ID from listBashHistory. Defaults to the most recent failing command.',
+        required: false,
+      },
+    ],
+  },
+  {
+    name: 'summarize-file-history',
+    description: 'Summarize how a file evolved during the current session',
+    arguments: [
+      {
+        name: 'filePath',
+        description: 'File path or pattern, as accepted by listFileChanges',
+        required: true,
+      },
+    ],
+  },
+];
+
+function formatOperations(operations: OperationIndex[]): string {
+  if (operations.length === 0) {
+    return '_No file changes recorded._';
+  }
+  return operations
+    .map(op => `- \`${op.id}\` ${op.timestamp} ${op.tool} ${op.changeType} ${op.filePath ?? ''}`.trimEnd())
+    .join('\n');
+}
+
+function formatCommands(commands: BashHistoryItem[]): string {
+  if (commands.length === 0) {
+    return '_No Bash commands recorded._';
+  }
+  return commands
+    .map(cmd => `- \`${cmd.id}\` ${cmd.timestamp} exit ${cmd.exitCode}: \`${cmd.command}\` — ${cmd.summary}`)
+    .join('\n');
+}
+
+function buildResponse(description: string, text: string): GetPromptResponse {
+  return {
+    description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text },
+      },
+    ],
+  };
+}
+
+async function buildReviewSessionChanges(toolUseId?: string): Promise<GetPromptResponse> {
+  const workspaceRoot = getWorkspaceRoot();
+  const [changes, history] = await Promise.all([
+    handleListFileChanges({
+      filePath: workspaceRoot,
+      limit: PROMPT_ITEM_LIMIT,
+      ...(toolUseId && { toolUseId }),
+    }),
+    handleListBashHistory({
+      limit: PROMPT_ITEM_LIMIT,
+      ...(toolUseId && { toolUseId }),
+    }),
+  ]);
+
+  const text = [
+    'Review the changes made in this Claude Code session. Point out risky edits, edits that look unfinished, and failing commands that were never resolved.',
+    'Use showOperationDiff with an operation ID to inspect a change in detail.',
+    '',
+    `## File changes (${changes.operations.length} of ${changes.totalCount}, newest first)`,
+    formatOperations(changes.operations),
+    '',
+    `## Bash commands (${history.commands.length} of ${history.totalCount}, newest first)`,
+    formatCommands(history.commands),
+  ].join('\n');
+
+  return buildResponse('Review of the current session changes', text);
+}
+
+async function buildExplainFailingCommand(
+  args: Record<string, string>,
+  toolUseId?: string
+): Promise<GetPromptResponse> {
+  let id = args['id'];
+  if (!id) {
+    const history = await handleListBashHistory({
+      limit: getConfig().maxLimit,
+      ...(toolUseId && { toolUseId }),
+    });
+    const failing = history.commands.find(cmd => cmd.exitCode !== 0);
+    if (!failing) {
+      throw new Error('No failing Bash command found in the current session');
+    }
+    id = failing.id;
+  }
+
+  const result = await handleShowBashResult({ id, ...(toolUseId && { toolUseId }) });
+  const changes = await handleListFileChanges({
+    filePath: getWorkspaceRoot(),
+    limit: getConfig().maxLimit,
+    ...(toolUseId && { toolUseId }),
+  });
+  const commandTime = new Date(result.timestamp).getTime();
+  const editsBefore = changes.operations
+    .filter(op => new Date(op.timestamp).getTime() <= commandTime)
+    .slice(0, PROMPT_ITEM_LIMIT);
+
+  const text = [
+    'Explain why the following Bash command failed. Relate the failure to the file changes made before it and suggest a fix.',
+    '',
+    '## Command',
+    `\`${result.command}\` (id \`${result.id}\`, exit code ${result.exitCode}, run at ${result.timestamp} in ${result.workingDirectory})`,
+    '',
+    '## stdout',
+    '```',
+    result.stdout,
+    '```',
+    '',
+    '## stderr',
+    '```',
+    result.stderr,
+    '```',
+    '',
+    `## File changes before the command (newest first)`,
+    formatOperations(editsBefore),
+  ].join('\n');
+
+  return buildResponse(`Explanation of failing command ${result.id}`, text);
+}
+
+async function buildSummarizeFileHistory(
+  args: Record<string, string>,
+  toolUseId?: string
+): Promise<GetPromptResponse> {
+  const filePath = args['filePath'];
+  if (!filePath) {
+    throw new Error('Prompt argument "filePath" is required');
+  }
+
+  const changes = await handleListFileChanges({
+    filePath,
+    limit: PROMPT_ITEM_LIMIT,
+    ...(toolUseId && { toolUseId }),
+  });
+
+  const text = [
+    `Summarize how \`${filePath}\` changed during this session: what was changed, in which order, and why it was likely changed.`,
+    'Use showOperationDiff with an operation ID to read each change.',
+    '',
+    `## Changes (${changes.operations.length} of ${changes.totalCount}, newest first)`,
+    formatOperations(changes.operations),
+  ].join('\n');
+
+  return buildResponse(`History of ${filePath}`, text);
+}
+
+/**
+ * Lists the prompts provided by this server
+ */
+export async function handleListPrompts(): Promise<{ prompts: PromptDescriptor[] }> {
+  return { prompts: PROMPTS };
+}
+
+/**
+ * Builds a prompt populated with data from the current session
+ *
+ * @param name - Prompt name from prompts/list
+ * @param args - Prompt arguments
+ * @param toolUseId - Tool use ID from Claude Code (for session identification)
+ * @returns Prompt messages
+ * @throws Error if the prompt is unknown or required arguments are missing
+ */
+export async function handleGetPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  toolUseId?: string
+): Promise<GetPromptResponse> {
+  switch (name) {
+    case 'review-session-changes':
+      return buildReviewSessionChanges(toolUseId);
+    case 'explain-failing-command':
+      return buildExplainFailingCommand(args, toolUseId);
+    case 'summarize-file-history':
+      return buildSummarizeFileHistory(args, toolUseId);
+    default:
+      throw new Error(`Prompt not found: ${name}`);
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  handleListResources,
+  handleListResourceTemplates,
+  handleReadResource,
+  operationDiffUri,
+  sessionOperationsUri,
+} from './resources';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('MCP resources', () => {
+  const sessionId = 'a1b2c3d4-session';
+  let tmpDir: string;
+  let sessionFile: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'resources-')));
+    sessionFile = path.join(tmpDir, `${sessionId}.jsonl`);
+    const filePath = path.join(tmpDir, 'a.ts');
+    _setTestWorkspaceRoot(tmpDir);
+    fs.writeFileSync(
+      sessionFile,
+      [
+        {
+          type: 'assistant',
+          timestamp: '2025-01-01T10:00:00.000Z',
+          message: {
+            content: [
+              {
+                type: 'tool_use',
+                id: 'toolu_edit',
+                name: 'Edit',
+                input: { file_path: filePath, old_string: 'a', new_string: 'b' },
+              },
+            ],
+          },
+        },
+        {
+          type: 'user',
+          timestamp: '2025-01-01T10:00:01.000Z',
+          message: { content: [{ type: 'tool_result', tool_use_id: 'toolu_edit', content: 'ok' }] },
+          toolUseResult: { filePath, oldString: 'a', newString: 'b', originalFile: 'const a = 1;\n' },
+        },
+      ]
+        .map(entry => JSON.stringify(entry))
+        .join('\n')
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('handleListResources', () => {
+    it('should list the operations resource of the current session', async () => {
+      const result = await handleListResources();
+
+      expect(result.resources).toHaveLength(1);
+      expect(result.resources[0]!.uri).toBe(`claude-ops://session/${sessionId}/operations`);
+      expect(result.resources[0]!.mimeType).toBe('application/json');
+    });
+
+    it('should list nothing before the session is identified', async () => {
+      UIDManager.setCachedSessionFile('');
+
+      const result = await handleListResources();
+
+      expect(result.resources).toEqual([]);
+    });
+  });
+
+  describe('handleListResourceTemplates', () => {
+    it('should advertise session and operation templates', async () => {
+      const result = await handleListResourceTemplates();
+      const templates = result.resourceTemplates.map(t => t.uriTemplate);
+
+      expect(templates).toEqual([
+        'claude-ops://session/{sessionId}/operations',
+        'claude-ops://operation/{id}/diff',
+      ]);
+    });
+  });
+
+  describe('handleReadResource', () => {
+    it('should return the operation index of a session', async () => {
+      const uri = sessionOperationsUri(sessionId);
+      const result = await handleReadResource(uri);
+
+      expect(result.contents[0]!.uri).toBe(uri);
+      const body = JSON.parse(result.contents[0]!.text);
+      expect(body.sessionId).toBe(sessionId);
+      expect(body.totalCount).toBe(1);
+      expect(body.operations[0].id).toBe('toolu_edit');
+    });
+
+    it('should return the diff of an operation', async () => {
+      const uri = operationDiffUri('toolu_edit');
+      const result = await handleReadResource(uri);
+
+      const body = JSON.parse(result.contents[0]!.text);
+      expect(body.id).toBe('toolu_edit');
+      expect(body.diff.oldString).toBe('a');
+      expect(body.diff.newString).toBe('b');
+      expect(body.diff.unified).toContain('+const b = 1;');
+    });
+
+    it('should reject malformed or traversing session IDs', async () => {
+      await expect(handleReadResource('claude-ops://session/%E0%A4%A/operations')).rejects.toThrow(
+        'Invalid resource URI: claude-ops://session/%E0%A4%A/operations'
+      );
+      await expect(handleReadResource('claude-ops://operation/%/diff')).rejects.toThrow('Invalid resource URI');
+      await expect(handleReadResource(sessionOperationsUri('../../secrets'))).rejects.toThrow(
+        'Invalid session ID: ../../secrets'
+      );
+    });
+
+    it('should reject unknown URIs', async () => {
+      await expect(handleReadResource('claude-ops://unknown')).rejects.toThrow(
+        'Unknown resource URI'
+      );
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { SessionIndex } from '../parsers/session-index';
+import { UIDManager } from '../uid-manager';
+import { getSessionIdFromFile, resolveSessionFileById } from '../utils/session-utils';
+import { handleShowOperationDiff } from './show-operation-diff';
+
+/**
+ * URI scheme for resources exposed by this server
+ */
+export const RESOURCE_URI_SCHEME = 'claude-ops';
+
+const SESSION_OPERATIONS_PATTERN = /^claude-ops:\/\/session\/([^/]+)\/operations$/;
+const OPERATION_DIFF_PATTERN = /^claude-ops:\/\/operation\/([^/]+)\/diff$/;
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ReadResourceResponse {
+  [key: string]: unknown;
+  contents: Array<{
+    uri: string;
+    mimeType: string;
+    text: string;
+  }>;
+}
+
+/**
+ * Decodes a percent-encoded segment of a resource URI
+ * @throws Error if the segment is not valid percent-encoding
+ */
+function decodeUriSegment(segment: string, uri: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch (error) {
+    if (error instanceof URIError) {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Builds the URI of the operations resource for a session
+ */
+export function sessionOperationsUri(sessionId: string): string {
+  return `${RESOURCE_URI_SCHEME}://session/${encodeURIComponent(sessionId)}/operations`;
+}
+
+/**
+ * Builds the URI of the diff resource for an operation
+ */
+export function operationDiffUri(operationId: string): string {
+  return `${RESOURCE_URI_SCHEME}://operation/${encodeURIComponent(operationId)}/diff`;
+}
+
+/**
+ * Lists concrete resources: the operations of the current session, once it is known
+ */
+export async function handleListResources(): Promise<{ resources: ResourceDescriptor[] }> {
+  const sessionFile = UIDManager.getCachedSessionFile();
+  if (!sessionFile) {
+    return { resources: [] };
+  }
+
+  const sessionId = getSessionIdFromFile(sessionFile);
+  return {
+    resources: [
+      {
+        uri: sessionOperationsUri(sessionId),
+        name: `Session ${sessionId} operations`,
+        description: 'All operations recorded in the current Claude Code session',
+        mimeType: 'application/json',
+      },
+    ],
+  };
+}
+
+/**
+ * Lists the resource templates clients can fill in to address sessions and operations
+ */
+export async function handleListResourceTemplates(): Promise<{
+  resourceTemplates: ResourceTemplateDescriptor[];
+}> {
+  return {
+    resourceTemplates: [
+      {
+        uriTemplate: `${RESOURCE_URI_SCHEME}://session/{sessionId}/operations`,
+        name: 'Session operations',
+        description: 'Operation index (id, timestamp, tool, filePath, changeType) of a Claude Code session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${RESOURCE_URI_SCHEME}://operation/{id}/diff`,
+        name: 'Operation diff',
+        description: 'Detailed diff of an operation in the current session, as returned by showOperationDiff',
+        mimeType: 'application/json',
+      },
+    ],
+  };
+}
+
+/**
+ * Reads a resource by URI
+ *
+ * @param uri - A claude-ops:// resource URI
+ * @returns Resource contents as JSON text
+ * @throws Error if the URI is not recognized or the resource cannot be found
+ */
+export async function handleReadResource(uri: string): Promise<ReadResourceResponse> {
+  const sessionMatch = SESSION_OPERATIONS_PATTERN.exec(uri);
+  if (sessionMatch) {
+    const sessionId = decodeUriSegment(sessionMatch[1]!, uri);
+    const sessionFile = await resolveSessionFileById(sessionId);
+
+    const operations = (await SessionIndex.load(sessionFile)).getOperations();
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify({ sessionId, operations, totalCount: operations.length }, null, 2),
+        },
+      ],
+    };
+  }
+
+  const diffMatch = OPERATION_DIFF_PATTERN.exec(uri);
+  if (diffMatch) {
+    const id = decodeUriSegment(diffMatch[1]!, uri);
+    const diff = await handleShowOperationDiff({ id });
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(diff, null, 2),
+        },
+      ],
+    };
+  }
+
+  throw new Error(`Unknown resource URI: ${uri}`);
+}
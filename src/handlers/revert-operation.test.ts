@@ -0,0 +1,246 @@
+import { handleRevertOperation } from './revert-operation';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+import { toolResult, toolUse, writeSessionFile } from '../__tests__/helpers/session-fixtures';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('handleRevertOperation', () => {
+  let workspaceRoot: string;
+  let sessionFile: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'revert-op-')));
+    sessionFile = path.join(workspaceRoot, '.session.jsonl');
+    _setTestWorkspaceRoot(workspaceRoot);
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  describe('Edit operations', () => {
+    it('should restore the replaced string on disk', async () => {
+      const filePath = path.join(workspaceRoot, 'index.ts');
+      fs.writeFileSync(filePath, 'const a = 2;\nconst b = 3;\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_edit', 'Edit', {
+          file_path: filePath,
+          old_string: 'const a = 1;',
+          new_string: 'const a = 2;',
+        }),
+        toolResult('toolu_edit', {}),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_edit' });
+
+      expect(result.status).toBe('applied');
+      expect(result.action).toBe('restore');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('const a = 1;\nconst b = 3;\n');
+    });
+
+    it('should restore the recorded original file when the file is unchanged since the edit', async () => {
+      const filePath = path.join(workspaceRoot, 'dup.ts');
+      const originalFile = 'x = 1;\ny = 2;\n';
+      fs.writeFileSync(filePath, 'y = 2;\ny = 2;\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_edit', 'Edit', {
+          file_path: filePath,
+          old_string: 'x = 1;',
+          new_string: 'y = 2;',
+        }),
+        toolResult('toolu_edit', { filePath, originalFile }),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_edit' });
+
+      expect(result.status).toBe('applied');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe(originalFile);
+    });
+
+    it('should report a conflict when the replacement text is gone', async () => {
+      const filePath = path.join(workspaceRoot, 'index.ts');
+      fs.writeFileSync(filePath, 'const a = 42;\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_edit', 'Edit', {
+          file_path: filePath,
+          old_string: 'const a = 1;',
+          new_string: 'const a = 2;',
+        }),
+        toolResult('toolu_edit', {}),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_edit' });
+
+      expect(result.status).toBe('conflict');
+      expect(result.conflict).toContain('no longer present');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('const a = 42;\n');
+    });
+
+    it('should report a conflict when the replacement text is ambiguous', async () => {
+      const filePath = path.join(workspaceRoot, 'index.ts');
+      fs.writeFileSync(filePath, 'foo();\nfoo();\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_edit', 'Edit', {
+          file_path: filePath,
+          old_string: 'bar();',
+          new_string: 'foo();',
+        }),
+        toolResult('toolu_edit', {}),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_edit' });
+
+      expect(result.status).toBe('conflict');
+      expect(result.conflict).toContain('appears 2 times');
+    });
+
+    it('should return the patch without writing in dryRun mode', async () => {
+      const filePath = path.join(workspaceRoot, 'index.ts');
+      fs.writeFileSync(filePath, 'const a = 2;\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_edit', 'Edit', {
+          file_path: filePath,
+          old_string: 'const a = 1;',
+          new_string: 'const a = 2;',
+        }),
+        toolResult('toolu_edit', {}),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_edit', dryRun: true });
+
+      expect(result.status).toBe('dry-run');
+      expect(result.patch).toContain('-const a = 2;');
+      expect(result.patch).toContain('+const a = 1;');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('const a = 2;\n');
+    });
+  });
+
+  describe('MultiEdit operations', () => {
+    it('should undo the edits in reverse order', async () => {
+      const filePath = path.join(workspaceRoot, 'api.ts');
+      fs.writeFileSync(filePath, 'const api = { newEndpoint, newMethod };');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_multi', 'MultiEdit', {
+          file_path: filePath,
+          edits: [
+            { old_string: 'oldEndpoint', new_string: 'newEndpoint' },
+            { old_string: 'oldMethod', new_string: 'newMethod' },
+          ],
+        }),
+        toolResult('toolu_multi', {}),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_multi' });
+
+      expect(result.status).toBe('applied');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('const api = { oldEndpoint, oldMethod };');
+    });
+  });
+
+  describe('Write operations', () => {
+    it('should delete a file the operation created', async () => {
+      const filePath = path.join(workspaceRoot, 'new.ts');
+      fs.writeFileSync(filePath, 'export {};\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_write', 'Write', { file_path: filePath, content: 'export {};\n' }),
+        toolResult('toolu_write', { type: 'create', filePath, content: 'export {};\n' }),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_write' });
+
+      expect(result.status).toBe('applied');
+      expect(result.action).toBe('delete');
+      expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('should restore the previous content of an overwritten file', async () => {
+      const filePath = path.join(workspaceRoot, 'config.json');
+      fs.writeFileSync(filePath, '{"b":2}');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_write', 'Write', { file_path: filePath, content: '{"b":2}' }),
+        toolResult('toolu_write', { type: 'update', filePath, originalFile: '{"a":1}' }),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_write' });
+
+      expect(result.status).toBe('applied');
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('{"a":1}');
+    });
+
+    it('should report a conflict when the written file has drifted', async () => {
+      const filePath = path.join(workspaceRoot, 'new.ts');
+      fs.writeFileSync(filePath, 'export const changed = true;\n');
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_write', 'Write', { file_path: filePath, content: 'export {};\n' }),
+        toolResult('toolu_write', { type: 'create', filePath }),
+      ]);
+
+      const result = await handleRevertOperation({ id: 'toolu_write' });
+
+      expect(result.status).toBe('conflict');
+      expect(fs.existsSync(filePath)).toBe(true);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should require an operation ID', async () => {
+      await expect(handleRevertOperation({ id: '' })).rejects.toThrow('Operation ID is required');
+    });
+
+    it('should refuse paths outside the workspace', async () => {
+      writeSessionFile(sessionFile, [
+        toolUse('toolu_edit', 'Edit', {
+          file_path: '/etc/hosts',
+          old_string: 'a',
+          new_string: 'b',
+        }),
+        toolResult('toolu_edit', {}),
+      ]);
+
+      await expect(handleRevertOperation({ id: 'toolu_edit' })).rejects.toThrow('outside the workspace');
+    });
+
+    it('should refuse non-file operations', async () => {
+      writeSessionFile(sessionFile, [toolUse('toolu_bash', 'Bash', { command: 'ls' })]);
+
+      await expect(handleRevertOperation({ id: 'toolu_bash' })).rejects.toThrow(
+        'only Edit, Write and MultiEdit can be reverted'
+      );
+    });
+
+    it('should refuse operations that failed or have no result yet', async () => {
+      const filePath = path.join(workspaceRoot, 'index.ts');
+      fs.writeFileSync(filePath, 'const a = 2;\n');
+      const edit = toolUse('toolu_edit', 'Edit', {
+        file_path: filePath,
+        old_string: 'const a = 1;',
+        new_string: 'const a = 2;',
+      });
+
+      writeSessionFile(sessionFile, [
+        edit,
+        toolResult('toolu_edit', undefined, { isError: true, content: 'String to replace not found in file.' }),
+      ]);
+      await expect(handleRevertOperation({ id: 'toolu_edit' })).rejects.toThrow(
+        'Operation toolu_edit failed; there is nothing to revert'
+      );
+
+      writeSessionFile(sessionFile, [edit]);
+      await expect(handleRevertOperation({ id: 'toolu_edit' })).rejects.toThrow(
+        'Operation toolu_edit has no recorded result yet'
+      );
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe('const a = 2;\n');
+    });
+
+    it('should report a missing operation', async () => {
+      writeSessionFile(sessionFile, []);
+
+      await expect(handleRevertOperation({ id: 'toolu_missing' })).rejects.toThrow('not found');
+    });
+  });
+});
@@ -0,0 +1,262 @@
+import * as fs from 'fs/promises';
+import { resolveSessionFile } from '../utils/session-utils';
+import { SessionIndex } from '../parsers/session-index';
+import { validateWorkspacePath } from '../utils/workspace-utils';
+import {
+  generateOptimizedDiff,
+  performOptimizedStringReplace,
+} from '../utils/performance-utils';
+
+/**
+ * Parameters for the revertOperation handler
+ */
+export interface RevertOperationParams {
+  /**
+   * The operation ID (tool_use id) of the Edit/Write/MultiEdit to revert
+   */
+  id: string;
+
+  /**
+   * When true, only compute the revert patch without touching the file
+   */
+  dryRun?: boolean;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * Response from the revertOperation handler
+ */
+export interface RevertOperationResponse {
+  id: string;
+  tool: string;
+  filePath: string;
+
+  /**
+   * Outcome of the revert:
+   * - applied: the inverse was written to disk
+   * - dry-run: the inverse applies cleanly but nothing was written
+   * - conflict: the file has drifted and the inverse no longer applies
+   */
+  status: 'applied' | 'dry-run' | 'conflict';
+
+  /**
+   * What the revert does to the file: restore previous content, or delete a file the operation created
+   */
+  action?: 'restore' | 'delete';
+
+  /**
+   * Unified diff from the current file content to the reverted content
+   */
+  patch?: string;
+
+  /**
+   * Human-readable reason when status is 'conflict'
+   */
+  conflict?: string;
+}
+
+const REVERTIBLE_TOOLS = new Set(['Edit', 'Write', 'MultiEdit']);
+
+interface EditSpec {
+  oldString: string;
+  newString: string;
+  replaceAll: boolean;
+}
+
+type RevertPlan =
+  | { action: 'restore'; content: string }
+  | { action: 'delete' }
+  | { conflict: string };
+
+function toEditSpec(raw: Record<string, unknown>): EditSpec {
+  return {
+    oldString: typeof raw['old_string'] === 'string' ? raw['old_string'] : '',
+    newString: typeof raw['new_string'] === 'string' ? raw['new_string'] : '',
+    replaceAll: raw['replace_all'] === true,
+  };
+}
+
+function countOccurrences(content: string, search: string): number {
+  if (search === '') {
+    return 0;
+  }
+  return content.split(search).length - 1;
+}
+
+function applyEdits(content: string, edits: EditSpec[]): string {
+  return edits.reduce(
+    (current, edit) =>
+      performOptimizedStringReplace(current, edit.oldString, edit.newString, edit.replaceAll),
+    content
+  );
+}
+
+/**
+ * Plans the inverse of a sequence of edits against the current file content.
+ * Prefers restoring the recorded original content when the file is still exactly
+ * in its post-operation state; otherwise undoes each edit in reverse order.
+ */
+function planEditRevert(
+  edits: EditSpec[],
+  originalFile: string | undefined,
+  currentContent: string
+): RevertPlan {
+  if (originalFile !== undefined && applyEdits(originalFile, edits) === currentContent) {
+    return { action: 'restore', content: originalFile };
+  }
+
+  let reverted = currentContent;
+  for (let i = edits.length - 1; i >= 0; i--) {
+    const edit = edits[i]!;
+    const label = edits.length > 1 ? `edit ${i + 1}: ` : '';
+    const occurrences = countOccurrences(reverted, edit.newString);
+
+    if (occurrences === 0) {
+      return { conflict: `${label}replacement text no longer present in file` };
+    }
+    if (occurrences > 1 && !edit.replaceAll) {
+      return {
+        conflict: `${label}replacement text appears ${occurrences} times; cannot determine which occurrence to revert`,
+      };
+    }
+
+    reverted = performOptimizedStringReplace(reverted, edit.newString, edit.oldString, edit.replaceAll);
+  }
+
+  return { action: 'restore', content: reverted };
+}
+
+function planWriteRevert(
+  input: Record<string, unknown>,
+  result: Record<string, unknown> | undefined,
+  currentContent: string
+): RevertPlan {
+  const writtenContent = typeof input['content'] === 'string' ? input['content'] : '';
+  if (currentContent !== writtenContent) {
+    return { conflict: 'file content has changed since it was written' };
+  }
+
+  if (result?.['type'] === 'create') {
+    return { action: 'delete' };
+  }
+
+  const originalFile = result?.['originalFile'];
+  if (typeof originalFile === 'string') {
+    return { action: 'restore', content: originalFile };
+  }
+
+  return { conflict: 'previous file content was not recorded in the session log' };
+}
+
+/**
+ * Handler for the revertOperation MCP tool
+ * Computes the inverse of an Edit/Write/MultiEdit operation and writes it back to disk
+ *
+ * @param params - Parameters for the revert
+ * @returns Revert outcome with the applied (or proposed) patch, or a conflict description
+ */
+export async function handleRevertOperation(
+  params: RevertOperationParams
+): Promise<RevertOperationResponse> {
+  if (!params.id || params.id.trim() === '') {
+    throw new Error('Operation ID is required');
+  }
+
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const call = (await SessionIndex.load(sessionFile)).get(params.id);
+  if (!call) {
+    throw new Error(`Operation with ID ${params.id} not found`);
+  }
+
+  const tool = call.name;
+  if (!REVERTIBLE_TOOLS.has(tool)) {
+    throw new Error(`Operation ${params.id} is a ${tool} operation; only Edit, Write and MultiEdit can be reverted`);
+  }
+
+  // Failed calls did not change the file, and pending ones may not have yet
+  if (call.isError) {
+    throw new Error(`Operation ${params.id} failed; there is nothing to revert`);
+  }
+  if (!call.hasResult) {
+    throw new Error(`Operation ${params.id} has no recorded result yet`);
+  }
+
+  const { input } = call;
+  const rawPath = input['file_path'];
+  if (typeof rawPath !== 'string' || rawPath === '') {
+    throw new Error(`Operation ${params.id} has no file path`);
+  }
+
+  // Refuse to touch anything outside the workspace
+  const filePath = validateWorkspacePath(rawPath);
+
+  const response: RevertOperationResponse = {
+    id: params.id,
+    tool,
+    filePath,
+    status: 'conflict',
+  };
+
+  let currentContent: string;
+  try {
+    currentContent = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    response.conflict = 'file no longer exists';
+    return response;
+  }
+
+  const { result } = call;
+  let plan: RevertPlan;
+  if (tool === 'Write') {
+    plan = planWriteRevert(input, result, currentContent);
+  } else if (tool === 'Edit') {
+    const originalFile = result?.['originalFile'];
+    plan = planEditRevert(
+      [toEditSpec(input)],
+      typeof originalFile === 'string' ? originalFile : undefined,
+      currentContent
+    );
+  } else {
+    const rawEdits = Array.isArray(input['edits']) ? (input['edits'] as Record<string, unknown>[]) : [];
+    const originalFile = result?.['originalFileContents'];
+    plan = planEditRevert(
+      rawEdits.map(toEditSpec),
+      typeof originalFile === 'string' ? originalFile : undefined,
+      currentContent
+    );
+  }
+
+  if ('conflict' in plan) {
+    response.conflict = plan.conflict;
+    return response;
+  }
+
+  const revertedContent = plan.action === 'restore' ? plan.content : '';
+  response.action = plan.action;
+  response.patch = generateOptimizedDiff(
+    filePath,
+    plan.action === 'delete' ? '/dev/null' : filePath,
+    currentContent,
+    revertedContent,
+    'Current',
+    'Reverted'
+  );
+
+  if (params.dryRun) {
+    response.status = 'dry-run';
+    return response;
+  }
+
+  if (plan.action === 'delete') {
+    await fs.unlink(filePath);
+  } else {
+    await fs.writeFile(filePath, plan.content, 'utf-8');
+  }
+
+  response.status = 'applied';
+  return response;
+}
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { handleSearchOperations } from './search-operations';
+import { UIDManager } from '../uid-manager';
+import { toJsonl, toolResult, toolUse } from '../__tests__/helpers/session-fixtures';
+
+describe('handleSearchOperations', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'search-operations-test-')));
+    const sessionFile = path.join(tmpDir, 'session.jsonl');
+    fs.writeFileSync(
+      sessionFile,
+      toJsonl([
+        toolUse('toolu_edit', 'Edit', {
+          file_path: '/workspace/src/client.ts',
+          old_string: 'const retries = 3;',
+          new_string: 'const retryCount = 3;\nconst delay = 100;',
+        }, { timestamp: '2024-01-01T10:00:00.000Z' }),
+        toolUse('toolu_multi', 'MultiEdit', {
+          file_path: '/workspace/src/server.ts',
+          edits: [
+            { old_string: 'a', new_string: 'b' },
+            { old_string: 'let count = 0;', new_string: 'let retryCount = 0;' },
+          ],
+        }, { timestamp: '2024-01-01T10:01:00.000Z' }),
+        toolUse('toolu_write', 'Write', {
+          file_path: '/workspace/README.md',
+          content: 'line 1\nline 2\nRetryCount is configurable\nline 4\nline 5\nline 6',
+        }, { timestamp: '2024-01-01T10:02:00.000Z' }),
+        toolUse('toolu_bash', 'Bash', { command: 'npm run start' }, { timestamp: '2024-01-01T10:03:00.000Z' }),
+        toolResult('toolu_bash', 'Error: Exit code 1\nconnect ECONNREFUSED 127.0.0.1:5432', {
+          timestamp: '2024-01-01T10:10:00.000Z',
+          isError: true,
+          content: 'Error: Exit code 1\nconnect ECONNREFUSED 127.0.0.1:5432',
+        }),
+        toolUse('toolu_grep', 'Grep', { pattern: 'retry[A-Z]\\w+' }, { timestamp: '2024-01-01T10:04:00.000Z' }),
+      ])
+    );
+    UIDManager.setCachedSessionFile(sessionFile);
+  });
+
+  afterEach(() => {
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should find a literal string across edits and writes, newest first', async () => {
+    const result = await handleSearchOperations({ query: 'retryCount' });
+
+    expect(result.results.map(r => r.id)).toEqual(['toolu_write', 'toolu_multi', 'toolu_edit']);
+    expect(result.totalCount).toBe(3);
+
+    const edit = result.results[2]!;
+    expect(edit.filePath).toBe('/workspace/src/client.ts');
+    expect(edit.matches).toEqual([
+      { field: 'new_string', line: 1, column: 7, snippet: 'const retryCount = 3;\nconst delay = 100;' },
+    ]);
+    expect(result.results[1]?.matches[0]?.field).toBe('edits[1].new_string');
+  });
+
+  it('should include surrounding lines in the snippet', async () => {
+    const result = await handleSearchOperations({ query: 'RetryCount is', contextLines: 1 });
+
+    expect(result.results).toHaveLength(1);
+    expect(result.results[0]?.matches[0]).toEqual({
+      field: 'content',
+      line: 3,
+      column: 1,
+      snippet: 'line 2\nRetryCount is configurable\nline 4',
+    });
+  });
+
+  it('should honor case sensitivity', async () => {
+    const result = await handleSearchOperations({ query: 'RetryCount', caseSensitive: true });
+
+    expect(result.results.map(r => r.id)).toEqual(['toolu_write']);
+  });
+
+  it('should search Bash commands and their output', async () => {
+    const output = await handleSearchOperations({ query: 'ECONNREFUSED' });
+    expect(output.results).toHaveLength(1);
+    expect(output.results[0]).toMatchObject({ id: 'toolu_bash', tool: 'Bash' });
+    expect(output.results[0]?.matches[0]).toMatchObject({ field: 'stderr', line: 2 });
+
+    const command = await handleSearchOperations({ query: 'npm run' });
+    expect(command.results[0]?.matches[0]?.field).toBe('command');
+  });
+
+  it('should treat the query as a regular expression when requested', async () => {
+    const literal = await handleSearchOperations({ query: 'retry[A-Z]' });
+    expect(literal.results.map(r => r.id)).toEqual(['toolu_grep']);
+
+    const regex = await handleSearchOperations({ query: 'retry[A-Z]\\w+ =', regex: true, caseSensitive: true });
+    expect(regex.results.map(r => r.id)).toEqual(['toolu_multi', 'toolu_edit']);
+  });
+
+  it('should apply the limit', async () => {
+    const result = await handleSearchOperations({ query: 'retry', limit: 2 });
+
+    expect(result.results).toHaveLength(2);
+    expect(result.hasMore).toBe(true);
+  });
+
+  it('should reject invalid parameters', async () => {
+    await expect(handleSearchOperations({ query: '' })).rejects.toThrow('Query is required');
+    await expect(handleSearchOperations({ query: '(', regex: true })).rejects.toThrow(
+      'Invalid regular expression'
+    );
+    await expect(handleSearchOperations({ query: 'x', limit: 0 })).rejects.toThrow(
+      'Limit must be between 1 and 1000'
+    );
+  });
+});
@@ -0,0 +1,282 @@
+import { SessionIndex, getBashOutput, type ToolCallRecord } from '../parsers/session-index';
+import { resolveSessionFile } from '../utils/session-utils';
+import { getConfig } from '../config';
+import { paginate } from '../utils/pagination-utils';
+
+/**
+ * Parameters for the searchOperations handler
+ */
+export interface SearchOperationsParams {
+  /**
+   * Text or regular expression to search for
+   */
+  query: string;
+
+  /**
+   * Treat `query` as a regular expression. Default: false (literal text)
+   */
+  regex?: boolean;
+
+  /**
+   * Match case exactly. Default: false
+   */
+  caseSensitive?: boolean;
+
+  /**
+   * Number of lines of context around each match. Default: 2, Maximum: 20
+   */
+  contextLines?: number;
+
+  /**
+   * Maximum number of operations to return
+   * Default: 100, Maximum: the configured maxLimit (1000 by default)
+   */
+  limit?: number;
+
+  /**
+   * `nextCursor` of a previous response, to get the page after it
+   */
+  cursor?: string;
+
+  /**
+   * Tool use ID from Claude Code (for session identification)
+   */
+  toolUseId?: string;
+}
+
+/**
+ * A line matching the query in one searchable field of an operation
+ */
+export interface SearchMatch {
+  /**
+   * Field the match was found in, e.g. "new_string", "edits[1].old_string", "stdout"
+   */
+  field: string;
+
+  /**
+   * 1-based line and column of the match within the field
+   */
+  line: number;
+  column: number;
+
+  /**
+   * The matching line with `contextLines` lines before and after it
+   */
+  snippet: string;
+}
+
+/**
+ * An operation with at least one match
+ */
+export interface SearchResult {
+  /**
+   * Operation ID, usable with showOperationDiff
+   */
+  id: string;
+  timestamp: string;
+  tool: string;
+  filePath?: string;
+  matches: SearchMatch[];
+
+  /**
+   * Whether matches beyond MAX_MATCHES_PER_OPERATION were dropped
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Response from the searchOperations handler
+ */
+export interface SearchOperationsResponse {
+  /**
+   * Matching operations, newest first
+   */
+  results: SearchResult[];
+
+  /**
+   * Total count of matching operations (before limit)
+   */
+  totalCount: number;
+
+  /**
+   * Whether there are more operations beyond the limit
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+
+  /**
+   * The limit that was applied
+   */
+  limit: number;
+
+  /**
+   * The query that was searched
+   */
+  query: string;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_CONTEXT_LINES = 2;
+const MAX_CONTEXT_LINES = 20;
+const MAX_MATCHES_PER_OPERATION = 20;
+
+/**
+ * Builds the search pattern. Literal queries are escaped so every character matches itself.
+ */
+function buildPattern(query: string, regex: boolean, caseSensitive: boolean): RegExp {
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  try {
+    return new RegExp(source, caseSensitive ? 'g' : 'gi');
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : query}`);
+  }
+}
+
+/**
+ * Searchable text of a tool call, keyed by field name
+ */
+function getSearchableFields(call: ToolCallRecord): Array<[string, string]> {
+  const fields: Array<[string, string]> = [];
+  const add = (field: string, value: unknown): void => {
+    if (typeof value === 'string' && value !== '') {
+      fields.push([field, value]);
+    }
+  };
+
+  switch (call.name) {
+    case 'Edit':
+      add('old_string', call.input['old_string']);
+      add('new_string', call.input['new_string']);
+      break;
+    case 'MultiEdit': {
+      const edits = call.input['edits'];
+      if (Array.isArray(edits)) {
+        edits.forEach((edit: unknown, i) => {
+          if (typeof edit === 'object' && edit !== null) {
+            const { old_string: oldString, new_string: newString } = edit as Record<string, unknown>;
+            add(`edits[${i}].old_string`, oldString);
+            add(`edits[${i}].new_string`, newString);
+          }
+        });
+      }
+      break;
+    }
+    case 'Write':
+      add('content', call.input['content']);
+      break;
+    case 'Bash': {
+      add('command', call.input['command']);
+      const { stdout, stderr } = getBashOutput(call);
+      add('stdout', stdout);
+      add('stderr', stderr);
+      break;
+    }
+    case 'Grep':
+      add('pattern', call.input['pattern']);
+      break;
+  }
+
+  return fields;
+}
+
+/**
+ * Finds every line of `text` matching `pattern`, with surrounding context
+ */
+function searchField(field: string, text: string, pattern: RegExp, contextLines: number): SearchMatch[] {
+  const lines = text.split('\n');
+  const matches: SearchMatch[] = [];
+
+  lines.forEach((lineText, i) => {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(lineText);
+    if (!match) {
+      return;
+    }
+
+    const start = Math.max(0, i - contextLines);
+    const end = Math.min(lines.length, i + contextLines + 1);
+    matches.push({
+      field,
+      line: i + 1,
+      column: match.index + 1,
+      snippet: lines.slice(start, end).join('\n'),
+    });
+  });
+
+  return matches;
+}
+
+/**
+ * Handler for the searchOperations MCP tool
+ * Searches the text recorded with Edit/MultiEdit/Write/Bash/Grep operations
+ *
+ * @param params - Query and search options
+ * @returns Matching operations with a snippet per matching line
+ */
+export async function handleSearchOperations(
+  params: SearchOperationsParams
+): Promise<SearchOperationsResponse> {
+  if (!params.query) {
+    throw new Error('Query is required');
+  }
+
+  const limit = params.limit ?? DEFAULT_LIMIT;
+  const maxLimit = getConfig().maxLimit;
+  if (limit <= 0 || limit > maxLimit) {
+    throw new Error(`Limit must be between 1 and ${maxLimit}`);
+  }
+
+  const contextLines = params.contextLines ?? DEFAULT_CONTEXT_LINES;
+  if (contextLines < 0 || contextLines > MAX_CONTEXT_LINES) {
+    throw new Error(`Context lines must be between 0 and ${MAX_CONTEXT_LINES}`);
+  }
+
+  const pattern = buildPattern(params.query, params.regex ?? false, params.caseSensitive ?? false);
+
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const index = await SessionIndex.load(sessionFile);
+
+  const results: SearchResult[] = [];
+  for (const call of index.calls) {
+    const matches = getSearchableFields(call).flatMap(([field, text]) =>
+      searchField(field, text, pattern, contextLines)
+    );
+    if (matches.length === 0) {
+      continue;
+    }
+
+    results.push({
+      id: call.id,
+      timestamp: call.timestamp,
+      tool: call.name,
+      ...(call.operation.filePath && { filePath: call.operation.filePath }),
+      matches: matches.slice(0, MAX_MATCHES_PER_OPERATION),
+      ...(matches.length > MAX_MATCHES_PER_OPERATION && { truncated: true }),
+    });
+  }
+
+  // Sort by timestamp (newest first) with deterministic tiebreaker
+  results.sort((a, b) => {
+    const timeDiff = new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+    return timeDiff !== 0 ? timeDiff : b.id.localeCompare(a.id);
+  });
+
+  const totalCount = results.length;
+  const page = paginate(
+    results,
+    { limit, order: 'desc', ...(params.cursor && { cursor: params.cursor }) },
+    result => ({ id: result.id, timestamp: result.timestamp })
+  );
+  return {
+    results: page.items,
+    totalCount,
+    hasMore: page.hasMore,
+    ...(page.nextCursor && { nextCursor: page.nextCursor }),
+    limit,
+    query: params.query,
+  };
+}
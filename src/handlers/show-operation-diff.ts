@@ -1,7 +1,8 @@
-import { SessionDiscovery } from '../session-discovery';
-import { UIDManager } from '../uid-manager';
-import { createReadStream } from 'fs';
-import * as readline from 'readline';
+import { resolveSessionFile } from '../utils/session-utils';
+import {
+  SessionFileOperationStore,
+  DIFF_SUPPORTED_TOOLS,
+} from '../stores/session-file-operation-store';
 
 export interface ShowOperationDiffParams {
   id: string;
@@ -18,101 +19,25 @@ export interface OperationDiffResponse {
     newString?: string;
     unified?: string;
   };
+  notebook?: {
+    cellId?: string;
+    cellType?: 'code' | 'markdown';
+    editMode: 'replace' | 'insert' | 'delete';
+  };
   bash?: {
     command: string;
     stdout: string;
     stderr: string;
     exitCode: number;
-  };
-  _debug?: {
-    hasToolResult: boolean;
-    toolResultKeys?: string[];
-    toolUseResultKeys?: string[];
-  };
-}
-
-interface ClaudeCodeLogEntry {
-  type: string;
-  timestamp: string;
-  message?: {
-    content?: Array<{
-      type: string;
-      id?: string;
-      name?: string;
-      input?: Record<string, unknown>;
-      tool_use_id?: string;
+    /**
+     * Files the command changed, inferred from the command string
+     */
+    affectedFiles?: Array<{
+      filePath: string;
+      changeType: string;
+      confidence?: string;
     }>;
   };
-  tool_use_id?: string;
-  toolUseResult?: Record<string, unknown>;
-}
-
-/**
- * Finds a log entry by tool use ID in the session file
- */
-async function findLogEntryById(
-  sessionFile: string,
-  operationId: string
-): Promise<{ toolUse: ClaudeCodeLogEntry | null; toolResult: ClaudeCodeLogEntry | null }> {
-  const stream = createReadStream(sessionFile, { encoding: 'utf-8' });
-  const rl = readline.createInterface({
-    input: stream,
-    crlfDelay: Infinity,
-  });
-
-  let toolUse: ClaudeCodeLogEntry | null = null;
-  let toolResult: ClaudeCodeLogEntry | null = null;
-
-  try {
-    for await (const line of rl) {
-      if (!line.trim()) {
-        continue;
-      }
-
-      try {
-        const entry: ClaudeCodeLogEntry = JSON.parse(line);
-
-        // Look for tool_use entry
-        if (entry.type === 'assistant' && entry.message?.content) {
-          const toolUseItem = entry.message.content.find(
-            item => item.type === 'tool_use' && item.id === operationId
-          );
-          if (toolUseItem) {
-            toolUse = entry;
-          }
-        }
-
-        // Look for tool_result entry (can be in two formats)
-        // Format 1: Direct tool_use_id field
-        if (entry.tool_use_id === operationId) {
-          toolResult = entry;
-        }
-
-        // Format 2: Inside message.content array
-        if (entry.type === 'user' && entry.message?.content) {
-          const toolResultItem = entry.message.content.find(
-            item => item.tool_use_id === operationId
-          );
-          if (toolResultItem) {
-            toolResult = entry;
-          }
-        }
-
-        // If we found both, we can stop
-        if (toolUse && toolResult) {
-          break;
-        }
-      } catch (parseError) {
-        // Skip invalid JSON lines
-        continue;
-      }
-    }
-  } finally {
-    rl.close();
-    stream.close();
-  }
-
-  return { toolUse, toolResult };
 }
 
 /**
@@ -127,127 +52,86 @@ export async function handleShowOperationDiff(
     throw new Error('Operation ID is required');
   }
 
-  // Try to get cached session file first
-  let sessionFile = UIDManager.getCachedSessionFile();
-
-  if (!sessionFile) {
-    // Not cached yet - try to find it using toolUseId
-    if (!params.toolUseId) {
-      throw new Error('Tool use ID not provided by Claude Code');
-    }
-
-    const sessionDiscovery = new SessionDiscovery();
-    const sessionInfo = await sessionDiscovery.findSessionByToolUseId(params.toolUseId);
+  const sessionFile = await resolveSessionFile(params.toolUseId);
+  const store = new SessionFileOperationStore(sessionFile);
 
-    if (!sessionInfo || !sessionInfo.sessionFile) {
-      throw new Error(`Session file not found for tool use ID: ${params.toolUseId}`);
-    }
+  const operation = await store.getOperation(params.id);
 
-    // Found the session file - cache it for future calls
-    sessionFile = sessionInfo.sessionFile;
-    UIDManager.setCachedSessionFile(sessionFile);
-  }
-
-  // Find the log entries for this operation
-  const { toolUse, toolResult } = await findLogEntryById(sessionFile, params.id);
+  const response: OperationDiffResponse = {
+    id: operation.id,
+    timestamp: operation.timestamp,
+    tool: operation.tool,
+    ...(operation.filePath && { filePath: operation.filePath }),
+  };
 
-  if (!toolUse) {
-    throw new Error(`Operation with ID ${params.id} not found`);
+  // Tools such as Grep or Glob have no diff to show
+  if (!DIFF_SUPPORTED_TOOLS.has(operation.tool)) {
+    return response;
   }
 
-  // Extract tool information
-  const toolUseContent = toolUse.message?.content?.find(
-    item => item.type === 'tool_use' && item.id === params.id
-  );
+  const { diff } = await store.getOperationDiff(params.id);
 
-  if (!toolUseContent) {
-    throw new Error(`Tool use content not found for operation ${params.id}`);
+  // Failed or pending file operations have no diff
+  if (!diff) {
+    return response;
   }
 
-  const tool = toolUseContent.name || 'Unknown';
-  const input = toolUseContent.input || {};
-  const timestamp = toolUse.timestamp;
+  switch (diff.tool) {
+    case 'Edit':
+      response.diff = {
+        oldString: diff.oldString,
+        newString: diff.newString,
+        unified: diff.unifiedDiff.diffText,
+      };
+      break;
 
-  // Build base response
-  const response: OperationDiffResponse = {
-    id: params.id,
-    timestamp,
-    tool,
-    _debug: {
-      hasToolResult: !!toolResult,
-      ...(toolResult && { toolResultKeys: Object.keys(toolResult) }),
-      ...(toolResult?.toolUseResult && { toolUseResultKeys: Object.keys(toolResult.toolUseResult) }),
-    },
-  };
+    case 'Write':
+      response.diff = {
+        ...(diff.previousContent !== undefined && { oldString: diff.previousContent }),
+        newString: diff.newContent,
+        unified: diff.unifiedDiff.diffText,
+      };
+      break;
 
-  // Extract file path if available
-  const filePath = (input['file_path'] || input['filePath'] || input['path']) as string | undefined;
-  if (filePath) {
-    response.filePath = filePath;
-  }
+    case 'MultiEdit':
+      response.diff = {
+        unified: diff.unifiedDiff.diffText,
+      };
+      break;
 
-  // Process tool-specific diff information
-  if (toolResult?.toolUseResult) {
-    const result = toolResult.toolUseResult;
-
-    // Handle Edit/Write tools
-    if (tool === 'Edit' || tool === 'Write' || tool === 'MultiEdit') {
-      const oldString = result['oldString'] as string | undefined;
-      const newString = result['newString'] as string | undefined;
-
-      response.diff = {};
-
-      if (oldString !== undefined) {
-        response.diff.oldString = oldString;
-      }
-      if (newString !== undefined) {
-        response.diff.newString = newString;
-      }
-
-      // Generate unified diff if we have old and new strings
-      if (oldString !== undefined && newString !== undefined) {
-        const oldLines = oldString.split('\n');
-        const newLines = newString.split('\n');
-
-        // Simple unified diff format
-        let unified = `--- ${filePath || 'original'}\n+++ ${filePath || 'modified'}\n`;
-        const maxLines = Math.max(oldLines.length, newLines.length);
-
-        for (let i = 0; i < maxLines; i++) {
-          const oldLine = oldLines[i];
-          const newLine = newLines[i];
-
-          if (oldLine !== newLine) {
-            if (oldLine !== undefined) {
-              unified += `-${oldLine}\n`;
-            }
-            if (newLine !== undefined) {
-              unified += `+${newLine}\n`;
-            }
-          } else if (oldLine !== undefined) {
-            unified += ` ${oldLine}\n`;
-          }
-        }
-
-        response.diff.unified = unified;
-      }
-    }
-
-    // Handle Bash tool
-    if (tool === 'Bash') {
-      const command = input['command'] as string;
-      const stdout = result['stdout'] as string || '';
-      const stderr = result['stderr'] as string || '';
-      const exitCode = result['exitCode'] as number || 0;
+    case 'NotebookEdit':
+      response.notebook = {
+        ...(diff.cellId !== undefined && { cellId: diff.cellId }),
+        ...(diff.cellType !== undefined && { cellType: diff.cellType }),
+        editMode: diff.editMode,
+      };
+      response.diff = {
+        ...(diff.oldSource !== undefined && { oldString: diff.oldSource }),
+        ...(diff.editMode !== 'delete' && { newString: diff.newSource }),
+        ...(diff.unifiedDiff && { unified: diff.unifiedDiff.diffText }),
+      };
+      break;
 
+    case 'Bash':
       response.bash = {
-        command,
-        stdout,
-        stderr,
-        exitCode,
+        command: diff.command,
+        stdout: diff.stdout,
+        stderr: diff.stderr,
+        exitCode: diff.exitCode,
+        ...(diff.affectedFiles.length > 0 && {
+          affectedFiles: diff.affectedFiles.map(file => ({
+            filePath: file.filePath,
+            changeType: file.changeType,
+            ...(file.confidence && { confidence: file.confidence }),
+          })),
+        }),
       };
-    }
+      break;
+
+    default:
+      // Read operations carry no changes
+      break;
   }
 
   return response;
-}
\ No newline at end of file
+}
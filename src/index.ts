@@ -1,25 +1,85 @@
 #!/usr/bin/env node
 
-import { MCPServer } from './server.js';
+import { MCPServer, type StartOptions } from './server.js';
+import { DEFAULT_HTTP_PORT } from './transports/http-transport.js';
+import { isCliCommand, runCli } from './cli.js';
+import { getConfig } from './config.js';
+
+/**
+ * Resolves transport options from CLI flags, falling back to environment variables:
+ *   --transport <stdio|http>  (CLAUDE_OPS_TRANSPORT)
+ *   --http                    shorthand for --transport http
+ *   --port <number>           (CLAUDE_OPS_HTTP_PORT, default 3100)
+ */
+function parseStartOptions(argv: string[]): StartOptions {
+  let transport = process.env['CLAUDE_OPS_TRANSPORT'];
+  let port = process.env['CLAUDE_OPS_HTTP_PORT'];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--http') {
+      transport = 'http';
+    } else if (arg === '--transport') {
+      transport = argv[++i];
+    } else if (arg?.startsWith('--transport=')) {
+      transport = arg.slice('--transport='.length);
+    } else if (arg === '--port') {
+      port = argv[++i];
+    } else if (arg?.startsWith('--port=')) {
+      port = arg.slice('--port='.length);
+    }
+  }
+
+  if (transport === undefined || transport === 'stdio') {
+    return { transport: 'stdio' };
+  }
+
+  if (transport !== 'http') {
+    throw new Error(`Unknown transport: ${transport} (expected "stdio" or "http")`);
+  }
+
+  const portNumber = port !== undefined ? parseInt(port, 10) : DEFAULT_HTTP_PORT;
+  if (isNaN(portNumber) || portNumber < 0 || portNumber > 65535) {
+    throw new Error(`Invalid port: ${port}`);
+  }
+
+  return { transport: 'http', http: { port: portNumber } };
+}
 
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (isCliCommand(argv[0])) {
+    process.exitCode = await runCli(argv);
+    return;
+  }
+
+  const options = parseStartOptions(argv);
+
+  // Load the configuration up front so invalid settings are reported before startup
+  try {
+    getConfig();
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+
   const server = new MCPServer();
-  
+
   try {
-    await server.start();
-    
+    await server.start(options);
+
     // Handle graceful shutdown
     process.once('SIGINT', async () => {
       console.error('Received SIGINT, shutting down gracefully...');
       await server.stop();
     });
-    
+
     process.once('SIGTERM', async () => {
       console.error('Received SIGTERM, shutting down gracefully...');
       await server.stop();
     });
-    
-    // Stdio transport connection keeps the process running naturally
+
+    // Stdio transport connection (or the HTTP listener) keeps the process running naturally
   } catch (error) {
     console.error('Failed to start server:', error);
     process.exit(1);
@@ -30,4 +90,4 @@ async function main(): Promise<void> {
 main().catch((error) => {
   console.error('Unhandled error:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
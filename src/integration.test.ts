@@ -1,28 +1,47 @@
 import { handleListFileChanges } from './handlers/list-file-changes';
 import { ChangeType } from './types/operation-index';
 import type { OperationIndex } from './types/operation-index';
-import * as fs from 'fs/promises';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { UIDManager } from './uid-manager';
 
 // Mock dependencies
-jest.mock('fs/promises');
 jest.mock('./session-discovery');
-jest.mock('./parsers/log-parser');
 
-const mockFs = fs as jest.Mocked<typeof fs>;
+// Session log with one Claude Code tool_use entry per operation
+const toSessionLog = (operations: OperationIndex[]): string =>
+  operations
+    .map(op =>
+      JSON.stringify({
+        type: 'assistant',
+        timestamp: op.timestamp,
+        message: {
+          content: [{ type: 'tool_use', id: op.id, name: op.tool, input: { file_path: op.filePath } }],
+        },
+      })
+    )
+    .join('\n');
 
 describe('listFileChanges Integration Test', () => {
   let mockSessionFile: string;
   let mockWorkspaceRoot: string;
 
+  let tmpDir: string;
+
+  // Writes the session log the handler reads
+  const writeSession = (content: string): void => {
+    fs.writeFileSync(mockSessionFile, content);
+  };
+
   beforeAll(() => {
-    mockSessionFile = '/tmp/claude-test/sessions/test-session.jsonl';
     mockWorkspaceRoot = '/tmp/test-project';
   });
 
   beforeEach(() => {
     jest.clearAllMocks();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'integration-test-')));
+    mockSessionFile = path.join(tmpDir, 'test-session.jsonl');
 
     // Set up environment variables and cache session file
     process.env['CLAUDE_PROJECT_PATH'] = mockWorkspaceRoot;
@@ -34,12 +53,12 @@ describe('listFileChanges Integration Test', () => {
     delete process.env['CLAUDE_PROJECT_PATH'];
     // Clear the cache
     UIDManager.setCachedSessionFile('');
+    fs.rmSync(tmpDir, { recursive: true, force: true });
   });
 
   describe('Complete Flow Integration', () => {
     beforeEach(() => {
-      // Mock fs.readFile
-      (mockFs.readFile as jest.Mock).mockResolvedValue('');
+      writeSession('');
 
       // Mock SessionDiscovery
       const mockSessionDiscovery = {
@@ -48,13 +67,7 @@ describe('listFileChanges Integration Test', () => {
         }),
       };
 
-      // Mock LogParser
-      const mockLogParser = {
-        parseLogStream: jest.fn().mockReturnValue([]),
-      };
-
       require('./session-discovery').SessionDiscovery = jest.fn().mockImplementation(() => mockSessionDiscovery);
-      require('./parsers/log-parser').LogParser = mockLogParser;
     });
 
     it('should handle listFileChanges with sample data', async () => {
@@ -87,9 +100,8 @@ describe('listFileChanges Integration Test', () => {
       ];
 
       // Set up mocks
-      const logContent = mockOperations.map(op => JSON.stringify(op)).join('\n');
-      (mockFs.readFile as jest.Mock).mockResolvedValue(logContent);
-      require('./parsers/log-parser').LogParser.parseLogStream.mockReturnValue(mockOperations);
+      const logContent = toSessionLog(mockOperations);
+      writeSession(logContent);
 
       // Test the handler
       const result = await handleListFileChanges({
@@ -125,9 +137,8 @@ describe('listFileChanges Integration Test', () => {
         },
       ];
 
-      const logContent = mockOperations.map(op => JSON.stringify(op)).join('\n');
-      (mockFs.readFile as jest.Mock).mockResolvedValue(logContent);
-      require('./parsers/log-parser').LogParser.parseLogStream.mockReturnValue(mockOperations);
+      const logContent = toSessionLog(mockOperations);
+      writeSession(logContent);
 
       // Test partial path matching
       const result = await handleListFileChanges({
@@ -168,9 +179,8 @@ describe('listFileChanges Integration Test', () => {
         },
       ];
 
-      const logContent = mockOperations.map(op => JSON.stringify(op)).join('\n');
-      (mockFs.readFile as jest.Mock).mockResolvedValue(logContent);
-      require('./parsers/log-parser').LogParser.parseLogStream.mockReturnValue(mockOperations);
+      const logContent = toSessionLog(mockOperations);
+      writeSession(logContent);
 
       const result = await handleListFileChanges({
         filePath: 'src/index.ts',
@@ -184,8 +194,7 @@ describe('listFileChanges Integration Test', () => {
     });
 
     it('should handle empty results with warning', async () => {
-      (mockFs.readFile as jest.Mock).mockResolvedValue('');
-      require('./parsers/log-parser').LogParser.parseLogStream.mockReturnValue([]);
+      writeSession('');
 
       const result = await handleListFileChanges({
         filePath: 'nonexistent.ts',
@@ -11,7 +11,7 @@ import type {
 } from './types/operation-index';
 import { ChangeType } from './types/operation-index';
 import type { OperationStore } from './types/operation-store';
-import { MockOperationStore } from './types/operation-store';
+import { SessionFileOperationStore } from './stores/session-file-operation-store';
 import { createTwoFilesPatch } from 'diff';
 import { generateOptimizedDiff, performOptimizedStringReplace } from './utils/performance-utils';
 import { getTestStrategy } from './strategies/test-strategy';
@@ -33,9 +33,10 @@ export { generateWriteDiff } from './diff-generators/write-diff';
 export { generateReadDiff } from './diff-generators/read-diff';
 export { generateMultiEditDiff } from './diff-generators/multiedit-diff';
 export { generateBashDiff } from './diff-generators/bash-diff';
+export { generateNotebookEditDiff } from './diff-generators/notebook-edit-diff';
 
-// Default store instance for backward compatibility
-let defaultStore: OperationStore = new MockOperationStore();
+// Default store reads the current Claude Code session file
+let defaultStore: OperationStore = new SessionFileOperationStore();
 
 /**
  * Sets the default operation store for showOperationDiff
@@ -57,7 +58,7 @@ export function getOperationStore(): OperationStore {
  * Shows the detailed differences for a specific operation.
  *
  * Now uses dependency injection with OperationStore interface for better testability
- * and production readiness. Falls back to MockOperationStore for backward compatibility.
+ * and production readiness. Defaults to a SessionFileOperationStore over the current session.
  *
  * @param id - The unique identifier of the operation
  * @param store - Optional operation store instance (uses default if not provided)
@@ -0,0 +1,90 @@
+import * as os from 'os';
+import * as path from 'path';
+import { analyzeBashCommand } from './bash-command-analyzer';
+import { ChangeType } from '../types/operation-index';
+
+describe('analyzeBashCommand', () => {
+  const cwd = '/workspace';
+
+  it('should infer in-place edits by sed', () => {
+    expect(analyzeBashCommand("sed -i 's/foo/bar/g' src/a.ts src/b.ts", { cwd })).toEqual([
+      { filePath: '/workspace/src/a.ts', changeType: ChangeType.UPDATE, confidence: 'high' },
+      { filePath: '/workspace/src/b.ts', changeType: ChangeType.UPDATE, confidence: 'high' },
+    ]);
+    expect(analyzeBashCommand("sed -i.bak -e 's/a/b/' -e 's/c/d/' conf.ini", { cwd })).toEqual([
+      { filePath: '/workspace/conf.ini', changeType: ChangeType.UPDATE, confidence: 'high' },
+    ]);
+    expect(analyzeBashCommand("sed -i '' 's/a/b/' conf.ini", { cwd })).toEqual([
+      { filePath: '/workspace/conf.ini', changeType: ChangeType.UPDATE, confidence: 'high' },
+    ]);
+    expect(analyzeBashCommand("sed -n 's/a/b/p' conf.ini", { cwd })).toEqual([]);
+  });
+
+  it('should infer moves, copies and removals', () => {
+    expect(analyzeBashCommand('mv old.ts new.ts', { cwd })).toEqual([
+      { filePath: '/workspace/old.ts', changeType: ChangeType.DELETE, confidence: 'high' },
+      { filePath: '/workspace/new.ts', changeType: ChangeType.CREATE, confidence: 'high' },
+    ]);
+    expect(analyzeBashCommand('cp a.ts b.ts lib/', { cwd })).toEqual([
+      { filePath: '/workspace/lib/a.ts', changeType: ChangeType.CREATE, confidence: 'medium' },
+      { filePath: '/workspace/lib/b.ts', changeType: ChangeType.CREATE, confidence: 'medium' },
+    ]);
+    expect(analyzeBashCommand('rm -f dist/out.js && rm -rf build', { cwd })).toEqual([
+      { filePath: '/workspace/dist/out.js', changeType: ChangeType.DELETE, confidence: 'high' },
+      { filePath: '/workspace/build', changeType: ChangeType.DELETE, confidence: 'medium' },
+    ]);
+  });
+
+  it('should infer redirections but not descriptor duplication or /dev/null', () => {
+    expect(
+      analyzeBashCommand('npm test 2>&1 | tee test.log > /dev/null; echo done >> notes.md 2>/dev/null', { cwd })
+    ).toEqual([
+      { filePath: '/workspace/test.log', changeType: ChangeType.CREATE, confidence: 'high' },
+      { filePath: '/workspace/notes.md', changeType: ChangeType.UPDATE, confidence: 'high' },
+    ]);
+  });
+
+  it('should infer files restored by git', () => {
+    expect(analyzeBashCommand('git checkout HEAD~1 -- src/a.ts && git checkout main', { cwd })).toEqual([
+      { filePath: '/workspace/src/a.ts', changeType: ChangeType.UPDATE, confidence: 'high' },
+    ]);
+    expect(analyzeBashCommand('git -C packages/core restore src/b.ts; git restore --staged c.ts', { cwd })).toEqual([
+      { filePath: '/workspace/packages/core/src/b.ts', changeType: ChangeType.UPDATE, confidence: 'high' },
+    ]);
+  });
+
+  it('should handle quoting, cd and heredocs', () => {
+    const command = [
+      "cd 'my app' && cat > \"notes file.md\" <<'EOF'",
+      'rm -rf everything',
+      'EOF',
+      'echo "# heading" > README.md # rm -rf /',
+    ].join('\n');
+
+    expect(analyzeBashCommand(command, { cwd })).toEqual([
+      { filePath: '/workspace/my app/notes file.md', changeType: ChangeType.CREATE, confidence: 'high' },
+      { filePath: '/workspace/my app/README.md', changeType: ChangeType.CREATE, confidence: 'high' },
+    ]);
+  });
+
+  it('should skip paths built from variables and lower confidence for globs and failures', () => {
+    expect(analyzeBashCommand('rm "$TMPDIR/x" $(find . -name "*.orig") *.log', { cwd })).toEqual([
+      { filePath: '/workspace/*.log', changeType: ChangeType.DELETE, confidence: 'low' },
+    ]);
+    expect(analyzeBashCommand('mv a.ts b.ts', { cwd, exitCode: 1 })).toEqual([
+      { filePath: '/workspace/a.ts', changeType: ChangeType.DELETE, confidence: 'low' },
+      { filePath: '/workspace/b.ts', changeType: ChangeType.CREATE, confidence: 'low' },
+    ]);
+  });
+
+  it('should keep relative paths without a working directory and expand ~', () => {
+    expect(analyzeBashCommand('touch ./src/../index.ts ~/notes.txt')).toEqual([
+      { filePath: 'index.ts', changeType: ChangeType.CREATE, confidence: 'medium' },
+      { filePath: path.join(os.homedir(), 'notes.txt'), changeType: ChangeType.CREATE, confidence: 'medium' },
+    ]);
+  });
+
+  it('should ignore read-only commands', () => {
+    expect(analyzeBashCommand('ls -la && grep -r "a > b" src | wc -l', { cwd })).toEqual([]);
+  });
+});
@@ -0,0 +1,550 @@
+import * as os from 'os';
+import * as path from 'path';
+import { ChangeType } from '../types/operation-index';
+import type { InferenceConfidence } from '../types/operation-index';
+
+/**
+ * A file change inferred from a Bash command string
+ */
+export interface BashFileEffect {
+  /**
+   * Path of the file. Absolute when the working directory is known,
+   * otherwise as written in the command
+   */
+  filePath: string;
+  changeType: ChangeType;
+  confidence: InferenceConfidence;
+}
+
+/**
+ * Options for analyzeBashCommand
+ */
+export interface BashAnalysisOptions {
+  /**
+   * Working directory the command ran in, used to resolve relative paths
+   */
+  cwd?: string;
+
+  /**
+   * Exit code of the command. Effects of failed commands get low confidence
+   */
+  exitCode?: number;
+}
+
+/**
+ * A shell word with its quotes removed
+ */
+interface Word {
+  text: string;
+  /** False when the word contains a parameter expansion or command substitution */
+  literal: boolean;
+  /** True when the word contains unquoted glob characters */
+  glob: boolean;
+}
+
+type Token =
+  | { kind: 'word'; word: Word }
+  | { kind: 'operator'; op: string }
+  | { kind: 'redirect'; op: string };
+
+interface Redirect {
+  op: string;
+  target?: Word;
+}
+
+interface SimpleCommand {
+  words: Word[];
+  redirects: Redirect[];
+}
+
+const OPERATOR_PATTERN = /^(?:&&|\|\||;;|\|&|[|&;()])/;
+const REDIRECT_PATTERN = /^(?:&>>|&>|>>|>\||>&|<<<|<<-|<<|<&|<>|>|<)/;
+const ASSIGNMENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*=/;
+
+/**
+ * Commands that run the command following them
+ */
+const COMMAND_PREFIXES = new Set(['sudo', 'command', 'env', 'time', 'nohup']);
+
+/**
+ * Index of the character closing a `$(`, `${` or backtick expansion starting at `start`
+ */
+function findExpansionEnd(command: string, start: number): number {
+  if (command.charAt(start) === '`') {
+    const end = command.indexOf('`', start + 1);
+    return end === -1 ? command.length - 1 : end;
+  }
+
+  const open = command.charAt(start + 1);
+  const close = open === '(' ? ')' : '}';
+  let depth = 0;
+  for (let i = start + 1; i < command.length; i++) {
+    const ch = command.charAt(i);
+    if (ch === open) {
+      depth++;
+    } else if (ch === close && --depth === 0) {
+      return i;
+    }
+  }
+  return command.length - 1;
+}
+
+/**
+ * Splits a command string into words, control operators and redirections.
+ * Quotes are removed, comments and here-document bodies are skipped.
+ */
+function tokenize(command: string): Token[] {
+  const tokens: Token[] = [];
+  const pendingHeredocs: string[] = [];
+  let expectHeredocDelimiter = false;
+  let word: Word | undefined;
+  let i = 0;
+
+  const current = (): Word => (word ??= { text: '', literal: true, glob: false });
+  const flush = (): void => {
+    if (!word) {
+      return;
+    }
+    if (expectHeredocDelimiter) {
+      pendingHeredocs.push(word.text);
+      expectHeredocDelimiter = false;
+    }
+    tokens.push({ kind: 'word', word });
+    word = undefined;
+  };
+
+  while (i < command.length) {
+    const ch = command.charAt(i);
+    const rest = command.slice(i);
+
+    if (ch === ' ' || ch === '\t') {
+      flush();
+      i++;
+    } else if (ch === '\n') {
+      flush();
+      tokens.push({ kind: 'operator', op: '\n' });
+      i++;
+      // Here-document bodies follow the line that opened them
+      for (const delimiter of pendingHeredocs.splice(0)) {
+        while (i < command.length) {
+          const lineEnd = command.indexOf('\n', i);
+          const line = command.slice(i, lineEnd === -1 ? command.length : lineEnd);
+          i = lineEnd === -1 ? command.length : lineEnd + 1;
+          if (line.replace(/^\t+/, '') === delimiter) {
+            break;
+          }
+        }
+      }
+    } else if (ch === '#' && !word) {
+      const lineEnd = command.indexOf('\n', i);
+      i = lineEnd === -1 ? command.length : lineEnd;
+    } else if (ch === '\\') {
+      if (command.charAt(i + 1) !== '\n') {
+        current().text += command.charAt(i + 1);
+      }
+      i += 2;
+    } else if (ch === "'") {
+      const end = command.indexOf("'", i + 1);
+      const close = end === -1 ? command.length : end;
+      current().text += command.slice(i + 1, close);
+      i = close + 1;
+    } else if (ch === '"') {
+      const target = current();
+      i++;
+      while (i < command.length && command.charAt(i) !== '"') {
+        const inner = command.charAt(i);
+        if (inner === '\\' && '"\\$`'.includes(command.charAt(i + 1))) {
+          target.text += command.charAt(i + 1);
+          i += 2;
+          continue;
+        }
+        if (inner === '$' || inner === '`') {
+          target.literal = false;
+        }
+        target.text += inner;
+        i++;
+      }
+      i++;
+    } else if (ch === '`' || (ch === '$' && (rest.startsWith('$(') || rest.startsWith('${')))) {
+      const end = findExpansionEnd(command, i);
+      const target = current();
+      target.text += command.slice(i, end + 1);
+      target.literal = false;
+      i = end + 1;
+    } else if (ch === '$' && /^\$[A-Za-z0-9_@*#?$!-]/.test(rest)) {
+      current().literal = false;
+      current().text += ch;
+      i++;
+    } else if (REDIRECT_PATTERN.test(rest) && !rest.startsWith('<(') && !rest.startsWith('>(')) {
+      const op = REDIRECT_PATTERN.exec(rest)?.[0] ?? ch;
+      // A number directly before the operator is a file descriptor (2>file)
+      if (word && /^\d+$/.test(word.text) && word.literal) {
+        word = undefined;
+      } else {
+        flush();
+      }
+      tokens.push({ kind: 'redirect', op });
+      expectHeredocDelimiter = op === '<<' || op === '<<-';
+      i += op.length;
+    } else if (OPERATOR_PATTERN.test(rest)) {
+      flush();
+      const op = OPERATOR_PATTERN.exec(rest)?.[0] ?? ch;
+      tokens.push({ kind: 'operator', op });
+      i += op.length;
+    } else {
+      const target = current();
+      if (ch === '*' || ch === '?' || ch === '[') {
+        target.glob = true;
+      }
+      target.text += ch;
+      i++;
+    }
+  }
+
+  flush();
+  return tokens;
+}
+
+/**
+ * Groups tokens into simple commands, splitting at control operators
+ * (`&&`, `||`, `;`, `|`, `&`, newlines and subshell parentheses)
+ */
+function parseCommands(tokens: Token[]): SimpleCommand[] {
+  const commands: SimpleCommand[] = [];
+  let command: SimpleCommand = { words: [], redirects: [] };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token) {
+      continue;
+    }
+
+    if (token.kind === 'operator') {
+      if (command.words.length > 0 || command.redirects.length > 0) {
+        commands.push(command);
+      }
+      command = { words: [], redirects: [] };
+    } else if (token.kind === 'redirect') {
+      const next = tokens[i + 1];
+      if (next?.kind === 'word') {
+        command.redirects.push({ op: token.op, target: next.word });
+        i++;
+      } else {
+        command.redirects.push({ op: token.op });
+      }
+    } else {
+      command.words.push(token.word);
+    }
+  }
+
+  if (command.words.length > 0 || command.redirects.length > 0) {
+    commands.push(command);
+  }
+  return commands;
+}
+
+/**
+ * Parsed command-line arguments of a single command
+ */
+interface ParsedArgs {
+  /** Short option letters and long option names that were given */
+  flags: Set<string>;
+  /** Values of options that take one, by option */
+  values: Map<string, string>;
+  operands: Word[];
+}
+
+/**
+ * Parses options and operands.
+ *
+ * @param args - Arguments after the command name
+ * @param withValue - Options whose value is the rest of the cluster or the next argument
+ * @param optionalValue - Short options whose value, if any, is attached (`sed -i.bak`)
+ */
+function parseArgs(
+  args: Word[],
+  withValue: ReadonlySet<string> = new Set(),
+  optionalValue: ReadonlySet<string> = new Set()
+): ParsedArgs {
+  const parsed: ParsedArgs = { flags: new Set(), values: new Map(), operands: [] };
+  let endOfOptions = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg) {
+      continue;
+    }
+    const text = arg.text;
+
+    if (endOfOptions || !text.startsWith('-') || text === '-') {
+      parsed.operands.push(arg);
+    } else if (text === '--') {
+      endOfOptions = true;
+    } else if (text.startsWith('--')) {
+      const separator = text.indexOf('=');
+      const name = separator === -1 ? text.slice(2) : text.slice(2, separator);
+      parsed.flags.add(name);
+      if (separator !== -1) {
+        parsed.values.set(name, text.slice(separator + 1));
+      } else if (withValue.has(name)) {
+        parsed.values.set(name, args[++i]?.text ?? '');
+      }
+    } else {
+      for (let j = 1; j < text.length; j++) {
+        const flag = text.charAt(j);
+        parsed.flags.add(flag);
+        if (optionalValue.has(flag)) {
+          parsed.values.set(flag, text.slice(j + 1));
+          break;
+        }
+        if (withValue.has(flag)) {
+          parsed.values.set(flag, j + 1 < text.length ? text.slice(j + 1) : (args[++i]?.text ?? ''));
+          break;
+        }
+      }
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Collects the effects of the simple commands of one command string
+ */
+class EffectCollector {
+  readonly effects: BashFileEffect[] = [];
+
+  constructor(private cwd: string | undefined) {}
+
+  private resolve(filePath: string): string {
+    if (filePath === '~' || filePath.startsWith('~/')) {
+      return path.join(os.homedir(), filePath.slice(1));
+    }
+    if (path.isAbsolute(filePath)) {
+      return path.normalize(filePath);
+    }
+    return this.cwd ? path.resolve(this.cwd, filePath) : path.normalize(filePath);
+  }
+
+  private add(word: Word, changeType: ChangeType, confidence: InferenceConfidence): void {
+    // Paths built from variables or command output cannot be resolved
+    if (!word.literal || word.text === '' || word.text.startsWith('/dev/')) {
+      return;
+    }
+
+    const effect: BashFileEffect = {
+      filePath: this.resolve(word.text),
+      changeType,
+      confidence: word.glob ? 'low' : confidence,
+    };
+    const duplicate = this.effects.some(
+      e => e.filePath === effect.filePath && e.changeType === effect.changeType
+    );
+    if (!duplicate) {
+      this.effects.push(effect);
+    }
+  }
+
+  analyze(command: SimpleCommand): void {
+    for (const redirect of command.redirects) {
+      this.addRedirect(redirect);
+    }
+
+    let words = command.words;
+    // Skip variable assignments and wrappers such as sudo or env
+    while (words[0] && (ASSIGNMENT_PATTERN.test(words[0].text) || COMMAND_PREFIXES.has(words[0].text))) {
+      words = words.slice(1);
+    }
+
+    const [name, ...args] = words;
+    if (!name?.literal) {
+      return;
+    }
+
+    switch (path.basename(name.text)) {
+      case 'cd':
+        if (args[0]?.literal) {
+          this.cwd = this.resolve(args[0].text);
+        }
+        break;
+      case 'sed':
+        this.addSed(args);
+        break;
+      case 'mv':
+        this.addMoveOrCopy(args, true);
+        break;
+      case 'cp':
+        this.addMoveOrCopy(args, false);
+        break;
+      case 'rm':
+      case 'unlink':
+        this.addRemove(args);
+        break;
+      case 'touch': {
+        const { operands } = parseArgs(args, new Set(['d', 'r', 't', 'date', 'reference']));
+        operands.forEach(operand => this.add(operand, ChangeType.CREATE, 'medium'));
+        break;
+      }
+      case 'tee': {
+        const { flags, operands } = parseArgs(args);
+        const changeType = flags.has('a') || flags.has('append') ? ChangeType.UPDATE : ChangeType.CREATE;
+        operands.forEach(operand => this.add(operand, changeType, 'high'));
+        break;
+      }
+      case 'git':
+        this.addGit(args);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private addRedirect({ op, target }: Redirect): void {
+    if (!target) {
+      return;
+    }
+    // >&2 and >&- duplicate or close descriptors
+    if (op === '>&' && /^(\d+|-)$/.test(target.text)) {
+      return;
+    }
+    if (op === '>>' || op === '&>>') {
+      this.add(target, ChangeType.UPDATE, 'high');
+    } else if (op === '>' || op === '>|' || op === '&>' || op === '>&') {
+      this.add(target, ChangeType.CREATE, 'high');
+    }
+  }
+
+  private addSed(args: Word[]): void {
+    const { flags, operands } = parseArgs(
+      args,
+      new Set(['e', 'f', 'l', 'expression', 'file', 'line-length']),
+      new Set(['i'])
+    );
+    if (!flags.has('i') && !flags.has('in-place')) {
+      return;
+    }
+
+    // BSD sed takes the backup suffix as a separate, usually empty, argument
+    const remaining = operands[0]?.text === '' ? operands.slice(1) : operands;
+    // Without -e or -f the first operand is the script
+    const hasScript = flags.has('e') || flags.has('f') || flags.has('expression') || flags.has('file');
+    const files = hasScript ? remaining : remaining.slice(1);
+    files.forEach(file => this.add(file, ChangeType.UPDATE, 'high'));
+  }
+
+  private addMoveOrCopy(args: Word[], isMove: boolean): void {
+    const { flags, values, operands } = parseArgs(
+      args,
+      new Set(['t', 'S', 'target-directory', 'suffix'])
+    );
+    const targetDirectory = values.get('t') ?? values.get('target-directory');
+    const sources = targetDirectory !== undefined ? operands : operands.slice(0, -1);
+    const destination = targetDirectory !== undefined ? undefined : operands[operands.length - 1];
+    if (sources.length === 0) {
+      return;
+    }
+
+    const recursive = flags.has('r') || flags.has('R') || flags.has('recursive');
+    if (isMove) {
+      sources.forEach(source => this.add(source, ChangeType.DELETE, 'high'));
+    }
+
+    const intoDirectory =
+      targetDirectory !== undefined || sources.length > 1 || destination?.text.endsWith('/');
+    if (!intoDirectory && destination) {
+      this.add(destination, ChangeType.CREATE, recursive ? 'medium' : 'high');
+      return;
+    }
+
+    const directory = destination ?? { text: targetDirectory ?? '', literal: true, glob: false };
+    for (const source of sources) {
+      const target: Word = {
+        text: path.join(directory.text, path.basename(source.text)),
+        literal: directory.literal && source.literal,
+        glob: directory.glob || source.glob,
+      };
+      this.add(target, ChangeType.CREATE, 'medium');
+    }
+  }
+
+  private addRemove(args: Word[]): void {
+    const { flags, operands } = parseArgs(args);
+    const recursive = flags.has('r') || flags.has('R') || flags.has('recursive');
+    operands.forEach(operand => this.add(operand, ChangeType.DELETE, recursive ? 'medium' : 'high'));
+  }
+
+  private addGit(args: Word[]): void {
+    // Global options come before the subcommand
+    let i = 0;
+    while (args[i]?.text.startsWith('-')) {
+      const option = args[i]?.text;
+      if ((option === '-C' || option === '-c') && args[i + 1]) {
+        if (option === '-C' && args[i + 1]?.literal) {
+          this.cwd = this.resolve(args[i + 1]?.text ?? '');
+        }
+        i++;
+      }
+      i++;
+    }
+
+    const subcommand = args[i]?.text;
+    const rest = args.slice(i + 1);
+
+    switch (subcommand) {
+      case 'mv':
+        this.addMoveOrCopy(rest, true);
+        break;
+      case 'rm': {
+        const { flags, operands } = parseArgs(rest);
+        if (!flags.has('cached')) {
+          const recursive = flags.has('r');
+          operands.forEach(operand => this.add(operand, ChangeType.DELETE, recursive ? 'medium' : 'high'));
+        }
+        break;
+      }
+      case 'checkout': {
+        // Only `git checkout [<tree-ish>] -- <paths>` unambiguously restores files
+        const separator = rest.findIndex(arg => arg.text === '--');
+        if (separator !== -1) {
+          rest.slice(separator + 1).forEach(file => this.add(file, ChangeType.UPDATE, 'high'));
+        }
+        break;
+      }
+      case 'restore': {
+        const { flags, operands } = parseArgs(rest, new Set(['s', 'source']));
+        const worktree = !(flags.has('S') || flags.has('staged')) || flags.has('W') || flags.has('worktree');
+        if (worktree) {
+          operands.forEach(file => this.add(file, ChangeType.UPDATE, 'high'));
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Infers the files a Bash command created, changed or deleted from the
+ * command string alone.
+ *
+ * Recognizes output redirection (`>`, `>>`), `sed -i`, `mv`, `cp`, `rm`,
+ * `touch`, `tee`, `git mv`/`git rm`, and `git checkout -- <file>` /
+ * `git restore`, across `&&`, `||`, `;`, pipes and `cd` into other
+ * directories. Paths containing variables or command substitutions are skipped.
+ *
+ * @param command - The Bash command string
+ * @param options - Working directory and exit code of the command
+ * @returns Inferred effects in command order
+ */
+export function analyzeBashCommand(command: string, options: BashAnalysisOptions = {}): BashFileEffect[] {
+  const collector = new EffectCollector(options.cwd);
+  for (const simpleCommand of parseCommands(tokenize(command))) {
+    collector.analyze(simpleCommand);
+  }
+
+  if (options.exitCode !== undefined && options.exitCode !== 0) {
+    return collector.effects.map(effect => ({ ...effect, confidence: 'low' }));
+  }
+  return collector.effects;
+}
@@ -138,6 +138,28 @@ describe('LogParser', () => {
       expect(result!.changeType).toBe(ChangeType.UPDATE);
     });
 
+    it('should parse a valid NotebookEdit tool log entry', () => {
+      const logEntry = JSON.stringify({
+        timestamp: '2024-01-01T10:06:00.000Z',
+        tool: 'NotebookEdit',
+        parameters: {
+          notebook_path: '/path/to/analysis.ipynb',
+          cell_id: 'a1b2c3',
+          new_source: 'df.describe()',
+          edit_mode: 'replace',
+        },
+        result: 'success',
+      });
+
+      const result = LogParser.parseLogEntry(logEntry);
+
+      expect(result).toBeDefined();
+      expect(result!.tool).toBe('NotebookEdit');
+      expect(result!.filePath).toBe('/path/to/analysis.ipynb');
+      expect(result!.summary).toBe('NotebookEdit operation on /path/to/analysis.ipynb');
+      expect(result!.changeType).toBe(ChangeType.UPDATE);
+    });
+
     it('should throw LogParseError for malformed JSON', () => {
       const malformedJson = '{ invalid json }';
 
@@ -81,16 +81,18 @@ export class LogParser {
     'Write',
     'Read',
     'MultiEdit',
+    'NotebookEdit',
     'Delete',
   ]);
 
-  private static readonly FILE_PATH_KEYS = ['file_path', 'filepath', 'path'];
+  private static readonly FILE_PATH_KEYS = ['file_path', 'filepath', 'path', 'notebook_path'];
 
   // Tool to change type mapping for performance
   private static readonly TOOL_CHANGE_TYPE_MAP = new Map<string, ChangeType>([
     ['Write', ChangeType.CREATE],
     ['Edit', ChangeType.UPDATE],
     ['MultiEdit', ChangeType.UPDATE],
+    ['NotebookEdit', ChangeType.UPDATE],
     ['Delete', ChangeType.DELETE],
     ['Read', ChangeType.READ],
     ['Bash', ChangeType.READ],
@@ -162,6 +164,28 @@ export class LogParser {
       throw new LogParseError(`Invalid timestamp format: ${timestamp}`);
     }
 
+    return this.createOperation(
+      toolUse.id || UIDManager.generateUID(),
+      timestamp,
+      tool,
+      parameters
+    );
+  }
+
+  /**
+   * Builds an OperationIndex for a single tool call
+   * @param id - Operation ID (tool use ID)
+   * @param timestamp - ISO 8601 timestamp of the call
+   * @param tool - Tool name
+   * @param parameters - Tool input parameters
+   * @returns OperationIndex with file path, summary and change type filled in
+   */
+  static createOperation(
+    id: string,
+    timestamp: string,
+    tool: string,
+    parameters: Record<string, unknown>
+  ): OperationIndex {
     // Extract file path from parameters if available
     const filePath = this.extractFilePath(parameters, tool);
 
@@ -172,7 +196,7 @@ export class LogParser {
     const changeType = this.determineChangeType(tool);
 
     const operation: OperationIndex = {
-      id: toolUse.id || UIDManager.generateUID(),
+      id,
       timestamp,
       tool,
       summary,
@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionFileTail } from './session-file-tail';
+
+describe('SessionFileTail', () => {
+  let tmpDir: string;
+  let sessionFile: string;
+
+  const line = (id: number): string => JSON.stringify({ type: 'assistant', id }) + '\n';
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'session-tail-test-')));
+    sessionFile = path.join(tmpDir, 'session.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should return the whole file on the first read', async () => {
+    fs.writeFileSync(sessionFile, line(1) + line(2));
+    const tail = new SessionFileTail(sessionFile);
+
+    await expect(tail.read()).resolves.toEqual({ text: line(1) + line(2), reset: true });
+  });
+
+  it('should only return lines appended since the previous read', async () => {
+    fs.writeFileSync(sessionFile, line(1));
+    const tail = new SessionFileTail(sessionFile);
+    await tail.read();
+
+    fs.appendFileSync(sessionFile, line(2) + line(3));
+
+    await expect(tail.read()).resolves.toEqual({ text: line(2) + line(3), reset: false });
+    await expect(tail.read()).resolves.toEqual({ text: '', reset: false });
+  });
+
+  it('should hold back a partially written last line until it is complete', async () => {
+    const partial = line(2);
+    fs.writeFileSync(sessionFile, line(1) + partial.slice(0, 10));
+    const tail = new SessionFileTail(sessionFile);
+
+    await expect(tail.read()).resolves.toEqual({ text: line(1), reset: true });
+
+    fs.appendFileSync(sessionFile, partial.slice(10));
+
+    await expect(tail.read()).resolves.toEqual({ text: partial, reset: false });
+  });
+
+  it('should return a complete last line without a trailing newline', async () => {
+    fs.writeFileSync(sessionFile, line(1) + line(2).trimEnd());
+    const tail = new SessionFileTail(sessionFile);
+
+    await expect(tail.read()).resolves.toEqual({ text: line(1) + line(2).trimEnd(), reset: true });
+  });
+
+  it('should start over when the file is truncated', async () => {
+    fs.writeFileSync(sessionFile, line(1) + line(2));
+    const tail = new SessionFileTail(sessionFile);
+    await tail.read();
+
+    fs.writeFileSync(sessionFile, line(3));
+
+    await expect(tail.read()).resolves.toEqual({ text: line(3), reset: true });
+  });
+
+  it('should start over when already read content is rewritten', async () => {
+    fs.writeFileSync(sessionFile, line(1));
+    const tail = new SessionFileTail(sessionFile);
+    await tail.read();
+
+    fs.writeFileSync(sessionFile, line(7) + line(8));
+
+    await expect(tail.read()).resolves.toEqual({ text: line(7) + line(8), reset: true });
+  });
+
+  it('should reject when the file does not exist', async () => {
+    const tail = new SessionFileTail(path.join(tmpDir, 'missing.jsonl'));
+
+    await expect(tail.read()).rejects.toThrow();
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'fs/promises';
+
+/**
+ * Text appended to a session file since the previous read
+ */
+export interface SessionFileChunk {
+  /** Complete JSONL lines appended since the previous read */
+  text: string;
+
+  /**
+   * True when the file was replaced, truncated or rewritten: `text` then
+   * holds the whole file and previously read content must be discarded
+   */
+  reset: boolean;
+}
+
+/**
+ * Number of bytes before the read offset remembered to detect rewrites
+ */
+const FINGERPRINT_SIZE = 64;
+
+/**
+ * Incremental reader for an append-only JSONL session file.
+ *
+ * Remembers the byte offset of the last complete line it returned, keyed by
+ * the file's inode, size and mtime, so each read only touches newly appended
+ * bytes. A partially written last line is left for the next read unless it
+ * already parses as JSON (a final line without a trailing newline).
+ */
+export class SessionFileTail {
+  private offset = 0;
+  private fingerprint: Buffer = Buffer.alloc(0);
+  private ino: number | undefined;
+  private size: number | undefined;
+  private mtimeMs: number | undefined;
+
+  constructor(readonly filePath: string) {}
+
+  /**
+   * Reads the lines appended since the previous call
+   * @returns The appended text, or the whole file with `reset` set if it was rewritten
+   * @throws Error if the file cannot be read
+   */
+  async read(): Promise<SessionFileChunk> {
+    const stats = await fs.stat(this.filePath);
+
+    // Unchanged since the last read
+    if (stats.ino === this.ino && stats.size === this.size && stats.mtimeMs === this.mtimeMs) {
+      return { text: '', reset: false };
+    }
+
+    const handle = await fs.open(this.filePath, 'r');
+    try {
+      const reset = stats.ino !== this.ino || stats.size < this.offset || !(await this.prefixMatches(handle));
+      if (reset) {
+        this.offset = 0;
+        this.fingerprint = Buffer.alloc(0);
+      }
+
+      const length = stats.size - this.offset;
+      const buffer = Buffer.alloc(length);
+      let bytesRead = 0;
+      while (bytesRead < length) {
+        const result = await handle.read(buffer, bytesRead, length - bytesRead, this.offset + bytesRead);
+        if (result.bytesRead === 0) {
+          break;
+        }
+        bytesRead += result.bytesRead;
+      }
+
+      const consumed = SessionFileTail.completeLength(buffer.subarray(0, bytesRead));
+      const text = buffer.subarray(0, consumed).toString('utf-8');
+
+      this.offset += consumed;
+      if (consumed > 0) {
+        const start = Math.max(0, consumed - FINGERPRINT_SIZE);
+        this.fingerprint = Buffer.from(buffer.subarray(start, consumed));
+      }
+      this.ino = stats.ino;
+      this.size = stats.size;
+      this.mtimeMs = stats.mtimeMs;
+
+      return { text, reset };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Checks that the bytes before the offset are still the ones read last time
+   */
+  private async prefixMatches(handle: fs.FileHandle): Promise<boolean> {
+    if (this.fingerprint.length === 0) {
+      return this.offset === 0;
+    }
+    const current = Buffer.alloc(this.fingerprint.length);
+    const { bytesRead } = await handle.read(
+      current,
+      0,
+      current.length,
+      this.offset - this.fingerprint.length
+    );
+    return bytesRead === current.length && current.equals(this.fingerprint);
+  }
+
+  /**
+   * Length of the buffer up to the end of its last complete line
+   */
+  private static completeLength(buffer: Buffer): number {
+    const lastNewline = buffer.lastIndexOf(0x0a);
+    const rest = buffer.subarray(lastNewline + 1).toString('utf-8').trim();
+    if (rest === '') {
+      return buffer.length;
+    }
+
+    // A truncated JSON object never parses, so a parsable rest is a complete final line
+    try {
+      JSON.parse(rest);
+      return buffer.length;
+    } catch {
+      return lastNewline + 1;
+    }
+  }
+}
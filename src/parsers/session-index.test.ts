@@ -0,0 +1,616 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionIndex, getBashExitCode, getBashOutput } from './session-index';
+import { ChangeType } from '../types/operation-index';
+import {
+  toJsonl,
+  toolResult,
+  toolUse,
+  toolUses,
+  type SessionEntry,
+} from '../__tests__/helpers/session-fixtures';
+
+describe('SessionIndex', () => {
+  describe('parse', () => {
+    it('should pair every tool_use in a message with its result by tool_use_id', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          toolUses(
+            [
+              { id: 'toolu_a', name: 'Bash', input: { command: 'ls' } },
+              { id: 'toolu_b', name: 'Bash', input: { command: 'pwd' } },
+            ],
+            { cwd: '/workspace' }
+          ),
+          toolResult('toolu_b', { stdout: '/workspace', stderr: '' }),
+          toolResult('toolu_a', { stdout: 'README.md', stderr: '' }),
+        ])
+      );
+
+      expect(index.calls.map(call => call.id)).toEqual(['toolu_a', 'toolu_b']);
+      expect(index.get('toolu_a')?.result?.['stdout']).toBe('README.md');
+      expect(index.get('toolu_b')?.result?.['stdout']).toBe('/workspace');
+      expect(index.get('toolu_a')?.cwd).toBe('/workspace');
+      expect(index.get('toolu_a')?.resultTimestamp).toBe(
+        '2024-01-01T10:00:01.000Z'
+      );
+    });
+
+    it('should expose tool uses without a result and results without a tool use', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          toolUses([
+            {
+              id: 'toolu_pending',
+              name: 'Bash',
+              input: { command: 'npm run dev' },
+            },
+          ]),
+          toolResult('toolu_unknown', { stdout: 'orphan', stderr: '' }),
+        ])
+      );
+
+      expect(index.getOrphanedUses().map(call => call.id)).toEqual([
+        'toolu_pending',
+      ]);
+      expect(index.get('toolu_pending')?.hasResult).toBe(false);
+      expect(index.getOrphanedResults()).toEqual([
+        expect.objectContaining({
+          toolUseId: 'toolu_unknown',
+          output: 'ok',
+          isError: false,
+        }),
+      ]);
+    });
+
+    it('should build operation index entries and mark overwriting writes as updates', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          toolUses([
+            {
+              id: 'toolu_create',
+              name: 'Write',
+              input: { file_path: '/workspace/new.ts', content: '' },
+            },
+            {
+              id: 'toolu_update',
+              name: 'Write',
+              input: { file_path: '/workspace/old.ts', content: '' },
+            },
+          ]),
+          toolResult('toolu_create', {
+            type: 'create',
+            filePath: '/workspace/new.ts',
+          }),
+          toolResult('toolu_update', {
+            type: 'update',
+            filePath: '/workspace/old.ts',
+          }),
+        ])
+      );
+
+      const operations = index.getOperations();
+      expect(operations).toHaveLength(2);
+      expect(operations[0]).toMatchObject({
+        id: 'toolu_create',
+        filePath: '/workspace/new.ts',
+        changeType: ChangeType.CREATE,
+      });
+      expect(operations[1]).toMatchObject({
+        id: 'toolu_update',
+        changeType: ChangeType.UPDATE,
+      });
+    });
+
+    it('should read legacy entries with their inline result', () => {
+      const index = SessionIndex.parse(
+        JSON.stringify({
+          timestamp: '2024-01-01T10:00:00.000Z',
+          tool: 'Bash',
+          parameters: { command: 'ls' },
+          result: { stdout: 'README.md', stderr: '', exitCode: 0 },
+        })
+      );
+
+      expect(index.calls).toHaveLength(1);
+      expect(index.calls[0]).toMatchObject({
+        name: 'Bash',
+        input: { command: 'ls' },
+        hasResult: true,
+        result: { stdout: 'README.md' },
+      });
+    });
+
+    it('should skip malformed lines and non-tool entries', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          'not json',
+          JSON.stringify({
+            type: 'user',
+            timestamp: '2024-01-01T10:00:00.000Z',
+            message: { content: 'hello' },
+          }),
+          toolUse(
+            'toolu_a',
+            'Read',
+            { file_path: '/a.ts' },
+            { timestamp: '2024-01-01T10:00:01.000Z' }
+          ),
+        ])
+      );
+
+      expect(index.calls.map(call => call.id)).toEqual(['toolu_a']);
+    });
+  });
+
+  describe('events', () => {
+    it('should record prompts, assistant text, tool calls and results in log order', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          JSON.stringify({
+            type: 'user',
+            timestamp: '2024-01-01T10:00:00.000Z',
+            message: { content: 'List files' },
+          }),
+          JSON.stringify({
+            type: 'user',
+            timestamp: '2024-01-01T10:00:00.000Z',
+            isMeta: true,
+            message: { content: 'Caveat: injected by the client' },
+          }),
+          JSON.stringify({
+            type: 'assistant',
+            timestamp: '2024-01-01T10:00:01.000Z',
+            message: {
+              content: [
+                { type: 'text', text: 'Listing them now.' },
+                {
+                  type: 'tool_use',
+                  id: 'toolu_ls',
+                  name: 'Bash',
+                  input: { command: 'ls' },
+                },
+              ],
+            },
+          }),
+          toolResult(
+            'toolu_ls',
+            { stdout: 'README.md', stderr: '' },
+            { timestamp: '2024-01-01T10:00:05.000Z' }
+          ),
+        ])
+      );
+
+      expect(index.events).toEqual([
+        {
+          type: 'user_prompt',
+          timestamp: '2024-01-01T10:00:00.000Z',
+          text: 'List files',
+        },
+        {
+          type: 'assistant_text',
+          timestamp: '2024-01-01T10:00:01.000Z',
+          text: 'Listing them now.',
+        },
+        {
+          type: 'tool_call',
+          timestamp: '2024-01-01T10:00:01.000Z',
+          toolUseId: 'toolu_ls',
+        },
+        {
+          type: 'tool_result',
+          timestamp: '2024-01-01T10:00:05.000Z',
+          toolUseId: 'toolu_ls',
+        },
+      ]);
+    });
+  });
+
+  describe('turns', () => {
+    const entry = (fields: Record<string, unknown>): string =>
+      JSON.stringify({ timestamp: '2024-01-01T10:00:00.000Z', ...fields });
+
+    it('should attribute tool calls to the prompt their parentUuid chain leads to', () => {
+      const index = SessionIndex.parse(
+        [
+          entry({
+            type: 'user',
+            uuid: 'caveat',
+            parentUuid: null,
+            isMeta: true,
+            message: { content: 'Caveat' },
+          }),
+          entry({
+            type: 'user',
+            uuid: 'p1',
+            parentUuid: 'caveat',
+            message: { content: 'Add a test' },
+          }),
+          entry({
+            type: 'assistant',
+            uuid: 'a1',
+            parentUuid: 'p1',
+            message: {
+              content: [
+                {
+                  type: 'tool_use',
+                  id: 'toolu_write',
+                  name: 'Write',
+                  input: { file_path: '/a.test.ts' },
+                },
+              ],
+            },
+          }),
+          entry({
+            type: 'user',
+            uuid: 'r1',
+            parentUuid: 'a1',
+            message: {
+              content: [
+                {
+                  type: 'tool_result',
+                  tool_use_id: 'toolu_write',
+                  content: 'ok',
+                },
+              ],
+            },
+          }),
+          entry({
+            type: 'assistant',
+            uuid: 'a2',
+            parentUuid: 'r1',
+            message: {
+              content: [
+                {
+                  type: 'tool_use',
+                  id: 'toolu_run',
+                  name: 'Bash',
+                  input: { command: 'npm test' },
+                },
+              ],
+            },
+          }),
+          entry({
+            type: 'user',
+            uuid: 'p2',
+            parentUuid: 'a2',
+            message: { content: [{ type: 'text', text: 'Now commit' }] },
+          }),
+          entry({
+            type: 'assistant',
+            uuid: 'a3',
+            parentUuid: 'p2',
+            message: {
+              content: [
+                {
+                  type: 'tool_use',
+                  id: 'toolu_commit',
+                  name: 'Bash',
+                  input: { command: 'git commit' },
+                },
+              ],
+            },
+          }),
+          entry({
+            type: 'assistant',
+            uuid: 'a4',
+            parentUuid: 'unknown',
+            message: {
+              content: [
+                {
+                  type: 'tool_use',
+                  id: 'toolu_lost',
+                  name: 'Bash',
+                  input: { command: 'ls' },
+                },
+              ],
+            },
+          }),
+        ].join('\n')
+      );
+
+      expect(index.turns).toEqual([
+        {
+          id: 'p1',
+          timestamp: '2024-01-01T10:00:00.000Z',
+          prompt: 'Add a test',
+        },
+        {
+          id: 'p2',
+          timestamp: '2024-01-01T10:00:00.000Z',
+          prompt: 'Now commit',
+        },
+      ]);
+      expect(index.calls.map(call => [call.id, call.turnId])).toEqual([
+        ['toolu_write', 'p1'],
+        ['toolu_run', 'p1'],
+        ['toolu_commit', 'p2'],
+        ['toolu_lost', undefined],
+      ]);
+      expect(index.get('toolu_write')?.operation.turnId).toBe('p1');
+    });
+  });
+
+  describe('subagents', () => {
+    const entry = (fields: Record<string, unknown>): string =>
+      JSON.stringify({ timestamp: '2024-01-01T10:00:00.000Z', ...fields });
+    const task = (
+      id: string,
+      description: string,
+      prompt: string
+    ): Record<string, unknown> => ({
+      type: 'tool_use',
+      id,
+      name: 'Task',
+      input: { description, subagent_type: 'general-purpose', prompt },
+    });
+    const sidechainEdit = (
+      uuid: string,
+      parentUuid: string,
+      id: string,
+      filePath: string
+    ): string =>
+      entry({
+        type: 'assistant',
+        uuid,
+        parentUuid,
+        isSidechain: true,
+        message: {
+          content: [
+            {
+              type: 'tool_use',
+              id,
+              name: 'Edit',
+              input: { file_path: filePath },
+            },
+          ],
+        },
+      });
+
+    it('should attribute sidechain operations to the Task call that started them', () => {
+      const index = SessionIndex.parse(
+        [
+          entry({
+            type: 'user',
+            uuid: 'p1',
+            parentUuid: null,
+            message: { content: 'Fix both packages' },
+          }),
+          entry({
+            type: 'assistant',
+            uuid: 'a1',
+            parentUuid: 'p1',
+            message: {
+              content: [
+                task('toolu_task_api', 'Fix api', 'Fix the api package'),
+                task('toolu_task_web', 'Fix web', 'Fix the web package'),
+              ],
+            },
+          }),
+          // Parallel subagents interleave in the log
+          entry({
+            type: 'user',
+            uuid: 's-web',
+            parentUuid: null,
+            isSidechain: true,
+            message: { content: 'Fix the web package' },
+          }),
+          entry({
+            type: 'user',
+            uuid: 's-api',
+            parentUuid: null,
+            isSidechain: true,
+            message: { content: 'Fix the api package' },
+          }),
+          sidechainEdit(
+            's-web-1',
+            's-web',
+            'toolu_web_edit',
+            '/repo/web/index.ts'
+          ),
+          sidechainEdit(
+            's-api-1',
+            's-api',
+            'toolu_api_edit',
+            '/repo/api/index.ts'
+          ),
+          entry({
+            type: 'assistant',
+            uuid: 'a2',
+            parentUuid: 'a1',
+            message: {
+              content: [
+                {
+                  type: 'tool_use',
+                  id: 'toolu_main_edit',
+                  name: 'Edit',
+                  input: { file_path: '/repo/README.md' },
+                },
+              ],
+            },
+          }),
+        ].join('\n')
+      );
+
+      expect(index.subagents).toEqual([
+        {
+          taskId: 'toolu_task_api',
+          description: 'Fix api',
+          subagentType: 'general-purpose',
+        },
+        {
+          taskId: 'toolu_task_web',
+          description: 'Fix web',
+          subagentType: 'general-purpose',
+        },
+      ]);
+      expect(index.get('toolu_web_edit')?.agent?.taskId).toBe('toolu_task_web');
+      expect(index.get('toolu_api_edit')?.operation.agent).toEqual({
+        taskId: 'toolu_task_api',
+        description: 'Fix api',
+        subagentType: 'general-purpose',
+      });
+      expect(index.get('toolu_api_edit')?.turnId).toBe('p1');
+      expect(index.get('toolu_main_edit')?.agent).toBeUndefined();
+
+      // Subagent prompts are not user turns
+      expect(index.turns.map(turn => turn.id)).toEqual(['p1']);
+    });
+  });
+
+  describe('Bash helpers', () => {
+    it('should read the exit code and error text of failed commands', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          toolUse('toolu_fail', 'Bash', { command: 'npm test' }),
+          toolResult('toolu_fail', 'Error: Exit code 127\ncommand not found', {
+            isError: true,
+            content: [
+              { type: 'text', text: 'Exit code 127\ncommand not found' },
+            ],
+          }),
+        ])
+      );
+      const call = index.get('toolu_fail')!;
+
+      expect(getBashExitCode(call)).toBe(127);
+      expect(getBashOutput(call)).toEqual({
+        stdout: '',
+        stderr: 'Exit code 127\ncommand not found',
+      });
+    });
+
+    it('should treat successful commands as exit code 0', () => {
+      const index = SessionIndex.parse(
+        toJsonl([
+          toolUse('toolu_ok', 'Bash', { command: 'ls' }),
+          toolResult('toolu_ok', { stdout: 'README.md', stderr: '' }),
+        ])
+      );
+
+      expect(getBashExitCode(index.get('toolu_ok')!)).toBe(0);
+    });
+  });
+
+  describe('load', () => {
+    let tmpDir: string;
+    let sessionFile: string;
+
+    beforeEach(() => {
+      tmpDir = fs.realpathSync(
+        fs.mkdtempSync(path.join(os.tmpdir(), 'session-index-test-'))
+      );
+      sessionFile = path.join(tmpDir, 'session.jsonl');
+      SessionIndex.clearCache();
+    });
+
+    afterEach(() => {
+      SessionIndex.clearCache();
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should pair results appended after the first load with earlier tool uses', async () => {
+      fs.writeFileSync(
+        sessionFile,
+        toJsonl([toolUse('toolu_a', 'Bash', { command: 'ls' })]) + '\n'
+      );
+      const first = await SessionIndex.load(sessionFile);
+      expect(first.get('toolu_a')?.hasResult).toBe(false);
+
+      fs.appendFileSync(
+        sessionFile,
+        toJsonl([toolResult('toolu_a', { stdout: 'README.md', stderr: '' })]) +
+          '\n'
+      );
+      const second = await SessionIndex.load(sessionFile);
+
+      expect(second.calls).toHaveLength(1);
+      expect(second.get('toolu_a')?.result?.['stdout']).toBe('README.md');
+    });
+
+    it('should ignore a partially written last line until it is complete', async () => {
+      const use = JSON.stringify(
+        toolUse('toolu_b', 'Read', { file_path: '/b.ts' })
+      );
+      fs.writeFileSync(sessionFile, use.slice(0, 20));
+      expect((await SessionIndex.load(sessionFile)).calls).toHaveLength(0);
+
+      fs.appendFileSync(sessionFile, use.slice(20) + '\n');
+      expect(
+        (await SessionIndex.load(sessionFile)).calls.map(call => call.id)
+      ).toEqual(['toolu_b']);
+    });
+
+    it('should rebuild the index when the session file is rewritten', async () => {
+      fs.writeFileSync(
+        sessionFile,
+        toJsonl([toolUse('toolu_old', 'Read', { file_path: '/a.ts' })]) + '\n'
+      );
+      await SessionIndex.load(sessionFile);
+
+      fs.writeFileSync(
+        sessionFile,
+        toJsonl([toolUse('toolu_new', 'Read', { file_path: '/a.ts' })]) + '\n'
+      );
+      const index = await SessionIndex.load(sessionFile);
+
+      expect(index.calls.map(call => call.id)).toEqual(['toolu_new']);
+    });
+
+    it('should report unreadable session files', async () => {
+      await expect(
+        SessionIndex.load(path.join(tmpDir, 'missing.jsonl'))
+      ).rejects.toThrow('Failed to read session file');
+    });
+
+    it('should only parse appended lines of a large session file', async () => {
+      const callCount = 2000;
+      const entries: SessionEntry[] = [];
+      for (let i = 0; i < callCount; i++) {
+        entries.push(
+          toolUses([
+            {
+              id: `toolu_${i}`,
+              name: 'Edit',
+              input: {
+                file_path: `/workspace/src/file-${i % 50}.ts`,
+                old_string: 'a',
+                new_string: 'b',
+              },
+            },
+          ]),
+          toolResult(`toolu_${i}`, {
+            filePath: `/workspace/src/file-${i % 50}.ts`,
+            originalFile: 'a'.repeat(100),
+          })
+        );
+      }
+      fs.writeFileSync(sessionFile, toJsonl(entries) + '\n');
+
+      const full = await SessionIndex.load(sessionFile);
+      expect(full.calls).toHaveLength(callCount);
+
+      const appended =
+        toJsonl([
+          toolUse(
+            'toolu_last',
+            'Bash',
+            { command: 'ls' },
+            { timestamp: '2024-01-01T11:00:00.000Z' }
+          ),
+        ]) + '\n';
+      fs.appendFileSync(sessionFile, appended);
+      const appendSpy = jest.spyOn(SessionIndex.prototype, 'append');
+
+      const incremental = await SessionIndex.load(sessionFile);
+
+      expect(incremental).toBe(full);
+      expect(incremental.calls).toHaveLength(callCount + 1);
+      expect(incremental.get('toolu_last')).toBeDefined();
+      expect(appendSpy).toHaveBeenCalledTimes(1);
+      expect(appendSpy).toHaveBeenCalledWith(appended);
+      appendSpy.mockRestore();
+    });
+  });
+});
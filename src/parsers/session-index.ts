@@ -0,0 +1,593 @@
+import type { OperationIndex, SubagentAttribution } from '../types/operation-index';
+import { ChangeType } from '../types/operation-index';
+import { LogParser } from './log-parser';
+import { SessionFileTail, type SessionFileChunk } from './session-file-tail';
+import { analyzeBashCommand } from './bash-command-analyzer';
+
+/**
+ * Content item inside a Claude Code message (tool_use, tool_result, text, ...)
+ */
+export interface ClaudeCodeContentItem {
+  type: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+  text?: string;
+}
+
+/**
+ * Raw Claude Code log entry as written to the session JSONL file
+ */
+export interface ClaudeCodeLogEntry {
+  type: string;
+  timestamp: string;
+  cwd?: string;
+  uuid?: string;
+  /** UUID of the entry this one answers or continues */
+  parentUuid?: string | null;
+  /** Set on messages injected by Claude Code rather than typed by the user */
+  isMeta?: boolean;
+  /** Set on entries of a subagent conversation started by the Task tool */
+  isSidechain?: boolean;
+  message?: {
+    content?: string | ClaudeCodeContentItem[];
+  };
+  toolUseResult?: unknown;
+}
+
+/**
+ * Legacy log entry format (`{ timestamp, tool, parameters, result }`)
+ */
+interface LegacyLogEntry {
+  timestamp: string;
+  tool: string;
+  parameters: Record<string, unknown>;
+  result?: unknown;
+}
+
+/**
+ * A tool call from the session log paired with its result (when available)
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  timestamp: string;
+  /** Working directory recorded with the call */
+  cwd?: string;
+  /** UUID of the user prompt (turn) that led to the call */
+  turnId?: string;
+  /** Subagent that made the call; omitted for calls of the main agent */
+  agent?: SubagentAttribution;
+  /** Operation summary (file path, change type) of the call */
+  operation: OperationIndex;
+  /** Structured tool result (`toolUseResult`) recorded by Claude Code */
+  result?: Record<string, unknown>;
+  /** Text of the tool_result block as shown to the model */
+  output?: string;
+  /** Whether a tool_result was recorded for this call */
+  hasResult: boolean;
+  /** Timestamp of the entry carrying the tool_result; omitted for legacy entries */
+  resultTimestamp?: string;
+  /** Whether the tool_result was flagged as an error */
+  isError: boolean;
+}
+
+/**
+ * A tool_result whose tool_use does not appear in the session log
+ */
+export interface OrphanedToolResult {
+  toolUseId: string;
+  timestamp: string;
+  result?: Record<string, unknown>;
+  output?: string;
+  isError: boolean;
+}
+
+/**
+ * Kind of entry in the conversational flow of a session
+ */
+export type SessionEventType = 'user_prompt' | 'assistant_text' | 'tool_call' | 'tool_result';
+
+/**
+ * One step of the conversation, in log order. Tool events reference their
+ * call through `toolUseId`; prompts and assistant text carry `text`.
+ */
+export interface SessionEvent {
+  type: SessionEventType;
+  timestamp: string;
+  text?: string;
+  toolUseId?: string;
+}
+
+/**
+ * A user prompt and the entries that follow from it through `parentUuid` links
+ */
+export interface SessionTurn {
+  /** UUID of the prompt entry */
+  id: string;
+  timestamp: string;
+  prompt: string;
+}
+
+/**
+ * Turn and subagent an entry belongs to, inherited through `parentUuid`
+ */
+interface EntryLineage {
+  turnId?: string;
+  agent?: SubagentAttribution;
+}
+
+/**
+ * A Task tool call whose subagent conversation has not been found yet
+ */
+interface PendingTask {
+  prompt: string;
+  lineage: EntryLineage;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flattens tool_result content (a string or an array of text blocks) to text
+ */
+function toOutputText(content: unknown): string | undefined {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(block => (isRecord(block) && typeof block['text'] === 'string' ? block['text'] : ''))
+      .join('');
+  }
+  return undefined;
+}
+
+/**
+ * Cached index of a session file, extended as the file grows
+ */
+interface CachedSessionIndex {
+  tail: SessionFileTail;
+  index: SessionIndex;
+  /** Serializes updates so concurrent loads never read the same bytes twice */
+  pending: Promise<unknown>;
+}
+
+/**
+ * Maximum number of session files whose index is kept in memory
+ */
+const MAX_CACHED_SESSIONS = 8;
+
+/**
+ * Index of every tool call in a session, pairing each tool_use with its
+ * tool_result by tool_use_id in a single pass over the log.
+ *
+ * Legacy entries (`{ timestamp, tool, parameters, result }`) carry their
+ * result inline and get generated IDs, as in LogParser.
+ */
+export class SessionIndex {
+  /** Every tool call in log order */
+  readonly calls: ToolCallRecord[] = [];
+
+  /** Prompts, assistant text, tool calls and tool results in log order */
+  readonly events: SessionEvent[] = [];
+
+  /** User prompts in log order */
+  readonly turns: SessionTurn[] = [];
+
+  /** Subagents started with the Task tool, in log order */
+  readonly subagents: SubagentAttribution[] = [];
+
+  private readonly callsById = new Map<string, ToolCallRecord>();
+  private readonly lineageByUuid = new Map<string, EntryLineage>();
+  private readonly pendingTasks: PendingTask[] = [];
+  private readonly orphanedResults = new Map<string, OrphanedToolResult>();
+
+  private static readonly cache = new Map<string, CachedSessionIndex>();
+
+  private constructor() {}
+
+  /**
+   * Builds the index from JSONL content. Malformed lines are skipped.
+   * @param jsonlContent - Session file content
+   * @returns SessionIndex over all tool calls in the content
+   */
+  static parse(jsonlContent: string): SessionIndex {
+    const index = new SessionIndex();
+    index.append(jsonlContent);
+    return index;
+  }
+
+  /**
+   * Reads a session file and returns its index. The index is cached per file
+   * and only lines appended since the previous call are parsed.
+   * @param sessionFile - Path to the session JSONL file
+   * @throws Error if the file cannot be read or parsed
+   */
+  static async load(sessionFile: string): Promise<SessionIndex> {
+    let cached = SessionIndex.cache.get(sessionFile);
+    if (!cached) {
+      if (SessionIndex.cache.size >= MAX_CACHED_SESSIONS) {
+        const oldest = SessionIndex.cache.keys().next().value;
+        if (oldest !== undefined) {
+          SessionIndex.cache.delete(oldest);
+        }
+      }
+      cached = {
+        tail: new SessionFileTail(sessionFile),
+        index: new SessionIndex(),
+        pending: Promise.resolve(),
+      };
+      SessionIndex.cache.set(sessionFile, cached);
+    }
+
+    const entry = cached;
+    const update = entry.pending.then(() => SessionIndex.update(sessionFile, entry));
+    entry.pending = update.catch(() => undefined);
+    return update;
+  }
+
+  /**
+   * Drops every cached session index
+   */
+  static clearCache(): void {
+    SessionIndex.cache.clear();
+  }
+
+  private static async update(sessionFile: string, entry: CachedSessionIndex): Promise<SessionIndex> {
+    let chunk: SessionFileChunk;
+    try {
+      chunk = await entry.tail.read();
+    } catch (error) {
+      SessionIndex.cache.delete(sessionFile);
+      throw new Error(`Failed to read session file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    try {
+      if (chunk.reset) {
+        entry.index = new SessionIndex();
+      }
+      entry.index.append(chunk.text);
+    } catch (error) {
+      SessionIndex.cache.delete(sessionFile);
+      throw new Error(`Failed to parse session logs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return entry.index;
+  }
+
+  /**
+   * Adds JSONL lines to the index, pairing new results with earlier uses
+   * and new uses with results seen before them. Malformed lines are skipped.
+   * @param jsonlContent - Complete JSONL lines
+   */
+  append(jsonlContent: string): void {
+    for (const line of jsonlContent.split('\n')) {
+      const trimmedLine = line.trim();
+      if (trimmedLine === '') {
+        continue;
+      }
+
+      let entry: unknown;
+      try {
+        entry = JSON.parse(trimmedLine);
+      } catch {
+        continue;
+      }
+      if (!isRecord(entry)) {
+        continue;
+      }
+
+      const logEntry = entry as unknown as ClaudeCodeLogEntry;
+      const content = logEntry.message?.content;
+      const lineage = this.trackLineage(logEntry);
+      if (typeof content === 'string') {
+        if (SessionIndex.isPrompt(logEntry)) {
+          this.events.push({ type: 'user_prompt', timestamp: logEntry.timestamp, text: content });
+        }
+        continue;
+      }
+      if (!Array.isArray(content)) {
+        const legacyCall = SessionIndex.parseLegacyEntry(entry, trimmedLine);
+        if (legacyCall) {
+          this.calls.push(legacyCall);
+          this.callsById.set(legacyCall.id, legacyCall);
+          this.events.push({ type: 'tool_call', timestamp: legacyCall.timestamp, toolUseId: legacyCall.id });
+          if (legacyCall.hasResult) {
+            this.events.push({ type: 'tool_result', timestamp: legacyCall.timestamp, toolUseId: legacyCall.id });
+          }
+        }
+        continue;
+      }
+
+      for (const item of content) {
+        if (logEntry.type === 'assistant' && item.type === 'tool_use' && item.id && item.name) {
+          this.addToolUse(logEntry, item.id, item.name, item.input ?? {}, lineage);
+          this.events.push({ type: 'tool_call', timestamp: logEntry.timestamp, toolUseId: item.id });
+        } else if (logEntry.type === 'user' && item.type === 'tool_result' && item.tool_use_id) {
+          const output = toOutputText(item.content);
+          const result = isRecord(logEntry.toolUseResult) ? logEntry.toolUseResult : undefined;
+          this.addToolResult({
+            toolUseId: item.tool_use_id,
+            timestamp: logEntry.timestamp,
+            ...(result && { result }),
+            ...(output !== undefined && { output }),
+            isError: item.is_error === true,
+          });
+          this.events.push({ type: 'tool_result', timestamp: logEntry.timestamp, toolUseId: item.tool_use_id });
+        } else if (item.type === 'text' && typeof item.text === 'string') {
+          if (logEntry.type === 'assistant') {
+            this.events.push({ type: 'assistant_text', timestamp: logEntry.timestamp, text: item.text });
+          } else if (SessionIndex.isPrompt(logEntry)) {
+            this.events.push({ type: 'user_prompt', timestamp: logEntry.timestamp, text: item.text });
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Attributes an entry to a turn and a subagent. Prompts start a turn, the
+   * first entry of a sidechain starts the subagent of the Task call whose
+   * prompt it carries, and every other entry inherits from its parent.
+   * @returns Turn and subagent of the entry (empty if its parent chain is unknown)
+   */
+  private trackLineage(entry: ClaudeCodeLogEntry): EntryLineage {
+    if (!entry.uuid) {
+      return {};
+    }
+
+    let lineage: EntryLineage;
+    const text = SessionIndex.getMessageText(entry);
+    if (entry.isSidechain && !entry.parentUuid && text !== undefined) {
+      lineage = this.startSubagent(text);
+    } else if (SessionIndex.isPrompt(entry) && text !== undefined) {
+      this.turns.push({ id: entry.uuid, timestamp: entry.timestamp, prompt: text });
+      lineage = { turnId: entry.uuid };
+    } else {
+      lineage = (entry.parentUuid && this.lineageByUuid.get(entry.parentUuid)) || {};
+    }
+
+    this.lineageByUuid.set(entry.uuid, lineage);
+    return lineage;
+  }
+
+  /**
+   * Matches the first message of a sidechain to the Task call that sent it
+   */
+  private startSubagent(prompt: string): EntryLineage {
+    const taskIndex = this.pendingTasks.findIndex(task => task.prompt === prompt);
+    const [task] = taskIndex === -1 ? [] : this.pendingTasks.splice(taskIndex, 1);
+    return task?.lineage ?? {};
+  }
+
+  /**
+   * Whether an entry is a prompt typed by the user (not a tool result, an
+   * injected message, or the task a subagent was given)
+   */
+  private static isPrompt(entry: ClaudeCodeLogEntry): boolean {
+    const content = entry.message?.content;
+    return (
+      entry.type === 'user' &&
+      !entry.isMeta &&
+      !entry.isSidechain &&
+      !(Array.isArray(content) && content.some(item => item.type === 'tool_result'))
+    );
+  }
+
+  /**
+   * Text of a user message; undefined when it holds no text
+   */
+  private static getMessageText(entry: ClaudeCodeLogEntry): string | undefined {
+    const content = entry.message?.content;
+    if (entry.type !== 'user') {
+      return undefined;
+    }
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (!Array.isArray(content)) {
+      return undefined;
+    }
+    const texts = content.filter(item => item.type === 'text' && typeof item.text === 'string');
+    return texts.length > 0 ? texts.map(item => item.text).join('\n') : undefined;
+  }
+
+  private addToolUse(
+    entry: ClaudeCodeLogEntry,
+    id: string,
+    name: string,
+    input: Record<string, unknown>,
+    lineage: EntryLineage
+  ): void {
+    const { turnId, agent } = lineage;
+    const operation = LogParser.createOperation(id, entry.timestamp, name, input);
+    if (turnId) {
+      operation.turnId = turnId;
+    }
+    if (agent) {
+      operation.agent = agent;
+    }
+    const call: ToolCallRecord = {
+      id,
+      name,
+      input,
+      timestamp: entry.timestamp,
+      ...(entry.cwd && { cwd: entry.cwd }),
+      ...(turnId && { turnId }),
+      ...(agent && { agent }),
+      operation,
+      hasResult: false,
+      isError: false,
+    };
+    this.calls.push(call);
+    this.callsById.set(id, call);
+
+    if (name === 'Task') {
+      this.addSubagent(call, lineage);
+    }
+
+    const earlierResult = this.orphanedResults.get(id);
+    if (earlierResult) {
+      this.orphanedResults.delete(id);
+      SessionIndex.applyResult(call, earlierResult);
+    }
+  }
+
+  /**
+   * Registers the subagent a Task call starts, to be matched with its sidechain
+   */
+  private addSubagent(call: ToolCallRecord, lineage: EntryLineage): void {
+    const { description, subagent_type: subagentType, prompt } = call.input;
+    const agent: SubagentAttribution = {
+      taskId: call.id,
+      ...(typeof description === 'string' && { description }),
+      ...(typeof subagentType === 'string' && { subagentType }),
+    };
+    this.subagents.push(agent);
+    if (typeof prompt === 'string') {
+      this.pendingTasks.push({ prompt, lineage: { ...(lineage.turnId && { turnId: lineage.turnId }), agent } });
+    }
+  }
+
+  private addToolResult(toolResult: OrphanedToolResult): void {
+    const call = this.callsById.get(toolResult.toolUseId);
+    if (call) {
+      SessionIndex.applyResult(call, toolResult);
+    } else {
+      this.orphanedResults.set(toolResult.toolUseId, toolResult);
+    }
+  }
+
+  private static applyResult(call: ToolCallRecord, toolResult: OrphanedToolResult): void {
+    call.hasResult = true;
+    call.isError = toolResult.isError;
+    call.resultTimestamp = toolResult.timestamp;
+    if (toolResult.result) {
+      call.result = toolResult.result;
+    }
+    if (toolResult.output !== undefined) {
+      call.output = toolResult.output;
+    }
+
+    // The Write result tells whether the file was created or overwritten
+    if (call.name === 'Write' && toolResult.result?.['type'] === 'update') {
+      call.operation.changeType = ChangeType.UPDATE;
+    }
+  }
+
+  private static parseLegacyEntry(entry: Record<string, unknown>, line: string): ToolCallRecord | null {
+    let operation: OperationIndex | null;
+    try {
+      operation = LogParser.parseLogEntry(line);
+    } catch {
+      return null;
+    }
+    if (!operation) {
+      return null;
+    }
+
+    const legacy = entry as unknown as LegacyLogEntry;
+    const call: ToolCallRecord = {
+      id: operation.id,
+      name: legacy.tool,
+      input: legacy.parameters,
+      timestamp: legacy.timestamp,
+      operation,
+      hasResult: legacy.result !== undefined,
+      isError: false,
+    };
+    if (isRecord(legacy.result)) {
+      call.result = legacy.result;
+    }
+    return call;
+  }
+
+  /**
+   * Gets a tool call by its tool use ID
+   */
+  get(id: string): ToolCallRecord | undefined {
+    return this.callsById.get(id);
+  }
+
+  /**
+   * Operation index entries for every tool call, in log order
+   */
+  getOperations(): OperationIndex[] {
+    return this.calls.map(call => call.operation);
+  }
+
+  /**
+   * File changes inferred from the command strings of Bash calls, in log
+   * order. Each entry carries the ID of its Bash call and `inferred: true`.
+   */
+  getInferredOperations(): OperationIndex[] {
+    return this.calls.flatMap(call => {
+      const command = call.input['command'];
+      if (call.name !== 'Bash' || typeof command !== 'string') {
+        return [];
+      }
+
+      const effects = analyzeBashCommand(command, {
+        ...(call.cwd && { cwd: call.cwd }),
+        ...(call.hasResult && { exitCode: getBashExitCode(call) }),
+      });
+      return effects.map(effect => ({
+        ...call.operation,
+        filePath: effect.filePath,
+        summary: `Inferred from Bash command: ${command}`,
+        changeType: effect.changeType,
+        inferred: true,
+        confidence: effect.confidence,
+      }));
+    });
+  }
+
+  /**
+   * Tool calls without a recorded result (still running, interrupted, or cut off)
+   */
+  getOrphanedUses(): ToolCallRecord[] {
+    return this.calls.filter(call => !call.hasResult);
+  }
+
+  /**
+   * Tool results whose tool_use does not appear in the session log
+   */
+  getOrphanedResults(): OrphanedToolResult[] {
+    return [...this.orphanedResults.values()];
+  }
+}
+
+/**
+ * Exit code of a Bash call: the recorded `exitCode` when present, otherwise
+ * the "Exit code N" line Claude Code reports in failed tool results
+ */
+export function getBashExitCode(call: ToolCallRecord): number {
+  const exitCode = call.result?.['exitCode'];
+  if (typeof exitCode === 'number') {
+    return exitCode;
+  }
+  if (!call.isError) {
+    return 0;
+  }
+  const match = /Exit code (\d+)/.exec(call.output ?? '');
+  return match ? parseInt(match[1]!, 10) : 1;
+}
+
+/**
+ * stdout/stderr of a Bash call. Failed calls in Claude Code's format may only
+ * carry the error text in the tool_result, which is then reported as stderr.
+ */
+export function getBashOutput(call: ToolCallRecord): { stdout: string; stderr: string } {
+  const stdout = call.result?.['stdout'];
+  const stderr = call.result?.['stderr'];
+  return {
+    stdout: typeof stdout === 'string' ? stdout : '',
+    stderr: typeof stderr === 'string' && stderr !== '' ? stderr : call.isError ? call.output ?? '' : '',
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Secret redaction
+ *
+ * Masks credentials in responses before they are sent to the client, so
+ * tokens printed by commands or written to files are not pasted back into
+ * the model context.
+ */
+
+import { ConfigError, getConfig } from './config';
+
+/**
+ * A kind of secret to mask
+ */
+export interface RedactionRule {
+  /** Name shown in the mask, e.g. `[REDACTED:github-token]` */
+  name: string;
+
+  /**
+   * Global pattern matching the secret. If it has a `secret` named group,
+   * only that part of the match is masked.
+   */
+  pattern: RegExp;
+
+  /** Extra check on the secret; matches it rejects are kept */
+  isSecret?: (secret: string) => boolean;
+}
+
+/**
+ * Result of redacting a value
+ */
+export interface RedactionResult<T> {
+  value: T;
+  /** Number of secrets masked */
+  redactedCount: number;
+}
+
+/**
+ * Keys holding opaque tokens the client sends back verbatim, such as
+ * pagination cursors, which look like high-entropy strings
+ */
+const UNREDACTED_KEYS = new Set(['nextCursor']);
+
+const MIN_HIGH_ENTROPY_LENGTH = 40;
+const MIN_ENTROPY_BITS_PER_CHAR = 4.5;
+
+/**
+ * Shannon entropy of a string in bits per character
+ */
+export function getShannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / text.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function isHighEntropy(token: string): boolean {
+  return (
+    // Claude Code names project directories after the project path with
+    // every `/` replaced by `-`
+    !token.startsWith('-') &&
+    /[a-z]/.test(token) &&
+    /[A-Z]/.test(token) &&
+    /\d/.test(token) &&
+    getShannonEntropy(token) >= MIN_ENTROPY_BITS_PER_CHAR
+  );
+}
+
+/**
+ * Built-in rules, applied in order
+ */
+export const DEFAULT_REDACTION_RULES: readonly RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----/g,
+  },
+  {
+    name: 'aws-access-key',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: 'aws-secret-key',
+    pattern: /\baws_secret_access_key\b["']?\s*[=:]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    name: 'github-token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    name: 'slack-token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}|https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/]+/g,
+  },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    name: 'env-assignment',
+    pattern:
+      /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS?|AUTH)[A-Z0-9_]*[ \t]*=[ \t]*(?<secret>"[^"\n]+"|'[^'\n]+'|[^\s"'#]+)/gm,
+    // Variable references and values masked by an earlier rule are not secrets
+    isSecret: secret => !/^["']?(?:\$|\[REDACTED)/.test(secret),
+  },
+  {
+    name: 'high-entropy',
+    // `/` is left out so the segments of a path are checked one by one
+    pattern: new RegExp(`[A-Za-z0-9+=_-]{${MIN_HIGH_ENTROPY_LENGTH},}`, 'g'),
+    isSecret: isHighEntropy,
+  },
+];
+
+/**
+ * Rules selected by the configuration: the built-in rules that are not
+ * disabled, followed by the custom patterns
+ * @throws ConfigError if a disabled rule does not exist
+ */
+export function getRedactionRules(): RedactionRule[] {
+  const config = getConfig();
+  for (const name of config.disabledRedactionRules) {
+    if (!DEFAULT_REDACTION_RULES.some(rule => rule.name === name)) {
+      throw new ConfigError(
+        `Invalid config: "disabledRedactionRules" contains unknown rule "${name}"`,
+        'disabledRedactionRules',
+        'configuration'
+      );
+    }
+  }
+
+  return [
+    ...DEFAULT_REDACTION_RULES.filter(rule => !config.disabledRedactionRules.includes(rule.name)),
+    ...config.redactionPatterns.map(pattern => ({ name: 'custom', pattern: new RegExp(pattern, 'g') })),
+  ];
+}
+
+/**
+ * Masks the secrets in a text
+ */
+export function redactText(text: string, rules: readonly RedactionRule[]): RedactionResult<string> {
+  let redactedCount = 0;
+  let value = text;
+
+  for (const rule of rules) {
+    value = value.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+      const groups = args[args.length - 1];
+      const secret =
+        typeof groups === 'object' && groups !== null ? (groups as Record<string, string | undefined>)['secret'] : undefined;
+      if (match === '' || (rule.isSecret && !rule.isSecret(secret ?? match))) {
+        return match;
+      }
+      redactedCount++;
+      const mask = `[REDACTED:${rule.name}]`;
+      return secret ? match.slice(0, match.lastIndexOf(secret)) + mask : mask;
+    });
+  }
+
+  return { value, redactedCount };
+}
+
+function redactDeep(value: unknown, rules: readonly RedactionRule[]): RedactionResult<unknown> {
+  if (typeof value === 'string') {
+    // JSON output is redacted value by value so escaped newlines and quotes
+    // do not hide secrets from the line-based rules
+    if (/^\s*[[{]/.test(value)) {
+      try {
+        const parsed: unknown = JSON.parse(value);
+        const result = redactDeep(parsed, rules);
+        return {
+          value: result.redactedCount > 0 ? JSON.stringify(result.value, null, 2) : value,
+          redactedCount: result.redactedCount,
+        };
+      } catch {
+        // Not JSON, redact it as text
+      }
+    }
+    return redactText(value, rules);
+  }
+
+  let redactedCount = 0;
+  if (Array.isArray(value)) {
+    const items = value.map(item => {
+      const result = redactDeep(item, rules);
+      redactedCount += result.redactedCount;
+      return result.value;
+    });
+    return { value: items, redactedCount };
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).map(([key, item]) => {
+      if (UNREDACTED_KEYS.has(key)) {
+        return [key, item];
+      }
+      const result = redactDeep(item, rules);
+      redactedCount += result.redactedCount;
+      return [key, result.value];
+    });
+    return { value: Object.fromEntries(entries), redactedCount };
+  }
+
+  return { value, redactedCount };
+}
+
+/**
+ * Masks the secrets in every string of a response, including the values
+ * inside JSON text
+ * @param rules - Rules to apply. Default: the configured rules
+ */
+export function redactSecrets<T>(value: T, rules: readonly RedactionRule[] = getRedactionRules()): RedactionResult<T> {
+  const result = redactDeep(value, rules);
+  return { value: result.value as T, redactedCount: result.redactedCount };
+}
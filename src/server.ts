@@ -3,16 +3,24 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   McpError,
   ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
-import type { Implementation } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolRequest, CallToolResult, Implementation, Result } from '@modelcontextprotocol/sdk/types.js';
 import { UIDManager } from './uid-manager';
 import { SessionDiscovery } from './session-discovery';
+import { getConfig } from './config';
+import { getRedactionRules, redactSecrets, redactText } from './redaction';
 import { handleListFileChanges, type ListFileChangesParams } from './handlers/list-file-changes';
 import {
   handleListBashHistory,
   handleShowBashResult,
+  type BashExitCodeFilter,
   type ListBashHistoryParams,
   type ShowBashResultParams
 } from './handlers/list-bash-history';
@@ -20,6 +28,38 @@ import {
   handleShowOperationDiff,
   type ShowOperationDiffParams
 } from './handlers/show-operation-diff';
+import {
+  handleRevertOperation,
+  type RevertOperationParams
+} from './handlers/revert-operation';
+import {
+  handleGetFileAtOperation,
+  type GetFileAtOperationParams
+} from './handlers/get-file-at-operation';
+import { handleListSessions, type ListSessionsParams } from './handlers/list-sessions';
+import { handleSearchOperations, type SearchOperationsParams } from './handlers/search-operations';
+import { handleListTurns, type ListTurnsParams } from './handlers/list-turns';
+import {
+  handleGetSessionTimeline,
+  type GetSessionTimelineParams
+} from './handlers/get-session-timeline';
+import type { SessionEventType } from './parsers/session-index';
+import {
+  handleListResources,
+  handleListResourceTemplates,
+  handleReadResource
+} from './handlers/resources';
+import { handleListPrompts, handleGetPrompt } from './handlers/prompts';
+import { handleGetChangeGitStatus, type GetChangeGitStatusParams } from './handlers/get-change-git-status';
+import { handleExportPatches, type ExportPatchesParams, type PatchMode, type PatchFormat } from './handlers/export-patches';
+import { handleGenerateSessionReport, type GenerateSessionReportParams } from './handlers/generate-session-report';
+import { handleGetSessionStats, type GetSessionStatsParams } from './handlers/get-session-stats';
+import { handleAnalyzeBashFailures, type AnalyzeBashFailuresParams } from './handlers/analyze-bash-failures';
+import {
+  startHttpTransport,
+  type HttpTransportHandle,
+  type HttpTransportOptions
+} from './transports/http-transport';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -30,6 +70,22 @@ interface ServerCapabilities {
   prompts?: Record<string, unknown>;
 }
 
+/**
+ * Options for MCPServer.start()
+ */
+export interface StartOptions {
+  /**
+   * Transport to serve MCP over
+   * @default 'stdio'
+   */
+  transport?: 'stdio' | 'http';
+
+  /**
+   * HTTP transport settings (only used with transport 'http')
+   */
+  http?: HttpTransportOptions;
+}
+
 interface InitializeRequest {
   protocolVersion: string;
   capabilities: Record<string, unknown>;
@@ -45,6 +101,11 @@ interface InitializeResult {
   capabilities: ServerCapabilities;
 }
 
+/**
+ * `_meta` key holding the number of secrets masked in a response
+ */
+export const REDACTED_COUNT_META_KEY = 'claude-ops/redactedCount';
+
 export class MCPServer {
   private server: Server;
   private serverInfo: Implementation;
@@ -52,6 +113,7 @@ export class MCPServer {
   private uidManager: UIDManager;
   private sessionDiscovery: SessionDiscovery;
   private currentSessionFile: string | null = null;
+  private httpTransport: HttpTransportHandle | null = null;
   private static readonly SUPPORTED_PROTOCOL_VERSION = '2024-11-05';
   private readonly instanceId: string;
 
@@ -70,9 +132,7 @@ export class MCPServer {
       prompts: {},
     };
 
-    this.server = new Server(this.serverInfo, {
-      capabilities: this.capabilities,
-    });
+    this.server = this.createSdkServer();
     this.uidManager = new UIDManager();
     this.sessionDiscovery = new SessionDiscovery();
 
@@ -86,13 +146,24 @@ export class MCPServer {
         // Silently handle session identification errors
       });
     }, 100);
+  }
 
-    this.setupHandlers();
+  /**
+   * Creates an SDK Server with all tool, resource and prompt handlers registered.
+   * The stdio transport uses a single instance; the HTTP transport creates one per client session.
+   */
+  private createSdkServer(): Server {
+    const server = new Server(this.serverInfo, {
+      capabilities: this.capabilities,
+    });
+    this.setupHandlers(server);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     // Register list tools handler
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      const { maxLimit } = getConfig();
       return {
         tools: [
           {
@@ -107,11 +178,28 @@ export class MCPServer {
                 },
                 limit: {
                   type: 'number',
-                  description: 'Maximum number of operations to return. Default: 100, Maximum: 1000',
+                  description: `Maximum number of operations to return. Default: 100, Maximum: ${maxLimit}`,
                   minimum: 1,
-                  maximum: 1000,
+                  maximum: maxLimit,
                   default: 100,
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+                turnId: {
+                  type: 'string',
+                  description: 'Only return changes made while answering this user prompt (a turn ID from listTurns)',
+                },
+                agent: {
+                  type: 'string',
+                  description: 'Only return operations of this agent: "main" for the main agent, or a subagent\'s Task tool_use ID or subagent type (e.g., "general-purpose")',
+                },
+                includeInferred: {
+                  type: 'boolean',
+                  description: 'Include changes inferred from Bash commands such as sed -i, mv, rm or output redirection; they are marked with inferred: true and a confidence',
+                  default: true,
+                },
               },
               required: ['filePath'],
             },
@@ -124,11 +212,51 @@ export class MCPServer {
               properties: {
                 limit: {
                   type: 'number',
-                  description: 'Maximum number of commands to return. Default: 100, Maximum: 1000',
+                  description: `Maximum number of commands to return. Default: 100, Maximum: ${maxLimit}`,
                   minimum: 1,
-                  maximum: 1000,
+                  maximum: maxLimit,
                   default: 100,
                 },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+                agent: {
+                  type: 'string',
+                  description: 'Only return commands of this agent: "main" for the main agent, or a subagent\'s Task tool_use ID or subagent type (e.g., "general-purpose")',
+                },
+                exitCode: {
+                  anyOf: [
+                    { type: 'string', enum: ['success', 'failure'] },
+                    { type: 'integer', minimum: 0 },
+                  ],
+                  description: '"success", "failure", or a specific exit code. Commands still running never match',
+                },
+                commandPattern: {
+                  type: 'string',
+                  description: 'Regular expression the command must match (e.g., "^npm (test|run build)")',
+                },
+                workingDirectory: {
+                  type: 'string',
+                  description: 'Only return commands run in this directory or below it (relative to the workspace root)',
+                },
+                since: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; only return commands run at or after it',
+                },
+                until: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; only return commands run at or before it',
+                },
+                minDurationMs: {
+                  type: 'number',
+                  description: 'Only return commands that took at least this many milliseconds',
+                  minimum: 0,
+                },
+                outputPattern: {
+                  type: 'string',
+                  description: 'Regular expression stdout or stderr must match (e.g., "ECONNREFUSED")',
+                },
               },
               required: [],
             },
@@ -161,12 +289,326 @@ export class MCPServer {
               required: ['id'],
             },
           },
+          {
+            name: 'revertOperation',
+            description: 'Revert an Edit, Write or MultiEdit operation on disk by applying its inverse to the current file content. Reports a conflict instead of writing when the file has changed since the operation. Use dryRun to preview the revert patch.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string',
+                  description: 'The operation ID from listFileChanges (e.g., "toolu_01UGtbuNtHZtHP28AaTXz2js")',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'Return the revert patch without modifying the file. Default: false',
+                  default: false,
+                },
+              },
+              required: ['id'],
+            },
+          },
+          {
+            name: 'getFileAtOperation',
+            description: 'Reconstruct the full content of a file as it was right after a given operation (or at a given timestamp) by replaying the Write/Edit/MultiEdit operations of the session. Reports where the chain is broken instead of returning partial content.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Absolute path of the file to reconstruct. Optional when id is given.',
+                },
+                id: {
+                  type: 'string',
+                  description: 'Operation ID after which to reconstruct the file (e.g., "toolu_01UGtbuNtHZtHP28AaTXz2js")',
+                },
+                timestamp: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; the file is reconstructed as of the last operation at or before it',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'listSessions',
+            description: 'List the Claude Code sessions of every project with project path, session ID, first/last timestamp, operation counts per tool, file size and git branch. Use this to find a past session before inspecting it.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                project: {
+                  type: 'string',
+                  description: 'Project path or fragment of it to match against (e.g., "my-app")',
+                },
+                since: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; only sessions active at or after it are returned',
+                },
+                until: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; only sessions active at or before it are returned',
+                },
+                limit: {
+                  type: 'number',
+                  description: `Maximum number of sessions to return. Default: 100, Maximum: ${maxLimit}`,
+                  minimum: 1,
+                  maximum: maxLimit,
+                  default: 100,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'searchOperations',
+            description: 'Full-text search over the operations of the current session: Edit/MultiEdit old_string/new_string, Write content, Bash commands with their stdout/stderr, and Grep patterns. Returns operation IDs (usable with showOperationDiff) with a snippet per matching line.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: {
+                  type: 'string',
+                  description: 'Text to search for, or a regular expression when regex is true (e.g., "retryCount", "ECONNREFUSED")',
+                },
+                regex: {
+                  type: 'boolean',
+                  description: 'Treat query as a JavaScript regular expression. Default: false',
+                  default: false,
+                },
+                caseSensitive: {
+                  type: 'boolean',
+                  description: 'Match case exactly. Default: false',
+                  default: false,
+                },
+                contextLines: {
+                  type: 'number',
+                  description: 'Lines of context around each match. Default: 2, Maximum: 20',
+                  minimum: 0,
+                  maximum: 20,
+                  default: 2,
+                },
+                limit: {
+                  type: 'number',
+                  description: `Maximum number of operations to return. Default: 100, Maximum: ${maxLimit}`,
+                  minimum: 1,
+                  maximum: maxLimit,
+                  default: 100,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+              },
+              required: ['query'],
+            },
+          },
+          {
+            name: 'getSessionTimeline',
+            description: 'Get the conversational flow of a session as an ordered stream of user prompts, assistant text, tool calls and tool results. Long texts are truncated. Use this first when reviewing what an agent did.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session ID from listSessions. Default: the current session',
+                },
+                since: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; only events at or after it are returned',
+                },
+                until: {
+                  type: 'string',
+                  description: 'ISO 8601 timestamp; only events at or before it are returned',
+                },
+                types: {
+                  type: 'array',
+                  items: {
+                    type: 'string',
+                    enum: ['user_prompt', 'assistant_text', 'tool_call', 'tool_result'],
+                  },
+                  description: 'Event types to include. Default: all',
+                },
+                maxTextLength: {
+                  type: 'number',
+                  description: 'Maximum characters kept of each prompt, text, tool output and tool input value. Default: 500, 0 disables truncation',
+                  minimum: 0,
+                  default: 500,
+                },
+                limit: {
+                  type: 'number',
+                  description: `Maximum number of events to return. Default: 200, Maximum: ${maxLimit}`,
+                  minimum: 1,
+                  maximum: maxLimit,
+                  default: 200,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'listTurns',
+            description: 'List the user prompts (turns) of the current session, newest first, each with the files it changed and the Bash commands it ran. Operations are attributed to the prompt that caused them by following the parentUuid chain of the session log.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                maxPromptLength: {
+                  type: 'number',
+                  description: 'Maximum characters kept of each prompt. Default: 500, 0 disables truncation',
+                  minimum: 0,
+                  default: 500,
+                },
+                limit: {
+                  type: 'number',
+                  description: `Maximum number of turns to return. Default: 100, Maximum: ${maxLimit}`,
+                  minimum: 1,
+                  maximum: maxLimit,
+                  default: 100,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'getChangeGitStatus',
+            description: 'Check for each Edit/Write/MultiEdit of the current session whether the text it wrote is still present in the working tree, the git index and HEAD of the file\'s local git repository, and which commit first contained it. Use this to find out which changes actually landed after committing selectively.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filePath: {
+                  type: 'string',
+                  description: 'Only check changes to files matching this path or pattern',
+                },
+                limit: {
+                  type: 'number',
+                  description: `Maximum number of changes to check, newest first. Default: 100, Maximum: ${maxLimit}`,
+                  minimum: 1,
+                  maximum: maxLimit,
+                  default: 100,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'exportPatches',
+            description: 'Export the Write/Edit/MultiEdit operations of a session as a patch series with workspace-relative a/ and b/ paths, ready for git apply (diff format) or git am (mbox format). Patches can be one per operation, per user prompt (turn), or per file.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                mode: {
+                  type: 'string',
+                  enum: ['operation', 'turn', 'file'],
+                  description: 'One patch per operation, per user prompt (turn), or per file. Default: operation',
+                  default: 'operation',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['diff', 'mbox'],
+                  description: 'diff for git apply, mbox for git am. Default: diff',
+                  default: 'diff',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Only export changes to files matching this path or pattern',
+                },
+                turnId: {
+                  type: 'string',
+                  description: 'Only export changes made while answering this user prompt (a turn ID from listTurns)',
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to export (an ID from listSessions). Default: the current session',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'generateSessionReport',
+            description: 'Render a session report as Markdown, ready to paste into a PR or incident doc: timing per user prompt, changed files with diffs, Bash commands with exit codes and the end of their output, and failed tool calls.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                maxOutputLines: {
+                  type: 'number',
+                  description: 'Number of lines kept from the end of each command output. Default: 20, 0 omits output',
+                  minimum: 0,
+                  default: 20,
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to report on (an ID from listSessions). Default: the current session',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'getSessionStats',
+            description: 'Aggregate a session into comparable numbers: calls, failures and tool_use to tool_result time per tool, files created/updated/deleted, lines added/removed per file, Bash success/failure counts, failed edit attempts and the slowest calls.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to aggregate (an ID from listSessions). Default: the current session',
+                },
+              },
+              required: [],
+            },
+          },
+          {
+            name: 'analyzeBashFailures',
+            description: 'Cluster the failed Bash commands of a session by normalized command and error signature (first meaningful error line with paths and numbers stripped), flag retry loops where the same command keeps failing the same way, and find the run after which each cluster stopped failing.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                minRetries: {
+                  type: 'number',
+                  description: 'Consecutive failing runs of a command that count as a retry loop. Default: 3',
+                  minimum: 2,
+                  default: 3,
+                },
+                limit: {
+                  type: 'number',
+                  description: `Maximum number of clusters to return (default: 100, max: ${maxLimit})`,
+                  minimum: 1,
+                  maximum: maxLimit,
+                  default: 100,
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'nextCursor of a previous response, to get the next page',
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to analyze (an ID from listSessions). Default: the current session',
+                },
+              },
+              required: [],
+            },
+          },
         ],
       };
     });
 
     // Register call tool handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const callTool = async (request: CallToolRequest): Promise<CallToolResult> => {
       // Extract toolUseId from _meta
       const meta = (request.params as any)._meta;
       const toolUseId = meta?.['claudecode/toolUseId'] as string | undefined;
@@ -177,6 +619,10 @@ export class MCPServer {
           const params: ListFileChangesParams = {
             filePath: args['filePath'] as string,
             ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(args['turnId'] !== undefined && { turnId: args['turnId'] as string }),
+            ...(args['agent'] !== undefined && { agent: args['agent'] as string }),
+            ...(args['includeInferred'] !== undefined && { includeInferred: args['includeInferred'] as boolean }),
             ...(toolUseId && { toolUseId }),
           };
           const result = await handleListFileChanges(params);
@@ -202,6 +648,15 @@ export class MCPServer {
           const args = request.params.arguments as Record<string, unknown>;
           const params: ListBashHistoryParams = {
             ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(args['agent'] !== undefined && { agent: args['agent'] as string }),
+            ...(args['exitCode'] !== undefined && { exitCode: args['exitCode'] as BashExitCodeFilter }),
+            ...(args['commandPattern'] !== undefined && { commandPattern: args['commandPattern'] as string }),
+            ...(args['workingDirectory'] !== undefined && { workingDirectory: args['workingDirectory'] as string }),
+            ...(args['since'] !== undefined && { since: args['since'] as string }),
+            ...(args['until'] !== undefined && { until: args['until'] as string }),
+            ...(args['minDurationMs'] !== undefined && { minDurationMs: args['minDurationMs'] as number }),
+            ...(args['outputPattern'] !== undefined && { outputPattern: args['outputPattern'] as string }),
             ...(toolUseId && { toolUseId }),
           };
           const result = await handleListBashHistory(params);
@@ -272,8 +727,388 @@ export class MCPServer {
         }
       }
 
+      if (request.params.name === 'revertOperation') {
+        try {
+          const args = request.params.arguments as Record<string, unknown>;
+          const params: RevertOperationParams = {
+            id: args['id'] as string,
+            ...(args['dryRun'] !== undefined && { dryRun: args['dryRun'] as boolean }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleRevertOperation(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to revert operation: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'getFileAtOperation') {
+        try {
+          const args = request.params.arguments as Record<string, unknown>;
+          const params: GetFileAtOperationParams = {
+            ...(args['filePath'] !== undefined && { filePath: args['filePath'] as string }),
+            ...(args['id'] !== undefined && { id: args['id'] as string }),
+            ...(args['timestamp'] !== undefined && { timestamp: args['timestamp'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleGetFileAtOperation(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to get file at operation: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'listSessions') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: ListSessionsParams = {
+            ...(args['project'] !== undefined && { project: args['project'] as string }),
+            ...(args['since'] !== undefined && { since: args['since'] as string }),
+            ...(args['until'] !== undefined && { until: args['until'] as string }),
+            ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+          };
+          const result = await handleListSessions(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to list sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'searchOperations') {
+        try {
+          const args = request.params.arguments as Record<string, unknown>;
+          const params: SearchOperationsParams = {
+            query: args['query'] as string,
+            ...(args['regex'] !== undefined && { regex: args['regex'] as boolean }),
+            ...(args['caseSensitive'] !== undefined && { caseSensitive: args['caseSensitive'] as boolean }),
+            ...(args['contextLines'] !== undefined && { contextLines: args['contextLines'] as number }),
+            ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleSearchOperations(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to search operations: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'getSessionTimeline') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: GetSessionTimelineParams = {
+            ...(args['sessionId'] !== undefined && { sessionId: args['sessionId'] as string }),
+            ...(args['since'] !== undefined && { since: args['since'] as string }),
+            ...(args['until'] !== undefined && { until: args['until'] as string }),
+            ...(args['types'] !== undefined && { types: args['types'] as SessionEventType[] }),
+            ...(args['maxTextLength'] !== undefined && { maxTextLength: args['maxTextLength'] as number }),
+            ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleGetSessionTimeline(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to get session timeline: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'listTurns') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: ListTurnsParams = {
+            ...(args['maxPromptLength'] !== undefined && { maxPromptLength: args['maxPromptLength'] as number }),
+            ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleListTurns(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to list turns: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'getChangeGitStatus') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: GetChangeGitStatusParams = {
+            ...(args['filePath'] !== undefined && { filePath: args['filePath'] as string }),
+            ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleGetChangeGitStatus(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to get git status of changes: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'exportPatches') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: ExportPatchesParams = {
+            ...(args['mode'] !== undefined && { mode: args['mode'] as PatchMode }),
+            ...(args['format'] !== undefined && { format: args['format'] as PatchFormat }),
+            ...(args['filePath'] !== undefined && { filePath: args['filePath'] as string }),
+            ...(args['turnId'] !== undefined && { turnId: args['turnId'] as string }),
+            ...(args['sessionId'] !== undefined && { sessionId: args['sessionId'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleExportPatches(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to export patches: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'generateSessionReport') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: GenerateSessionReportParams = {
+            ...(args['maxOutputLines'] !== undefined && { maxOutputLines: args['maxOutputLines'] as number }),
+            ...(args['sessionId'] !== undefined && { sessionId: args['sessionId'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleGenerateSessionReport(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: result.report,
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to generate session report: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'getSessionStats') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: GetSessionStatsParams = {
+            ...(args['sessionId'] !== undefined && { sessionId: args['sessionId'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleGetSessionStats(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to get session stats: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
+      if (request.params.name === 'analyzeBashFailures') {
+        try {
+          const args = (request.params.arguments ?? {}) as Record<string, unknown>;
+          const params: AnalyzeBashFailuresParams = {
+            ...(args['minRetries'] !== undefined && { minRetries: args['minRetries'] as number }),
+            ...(args['limit'] !== undefined && { limit: args['limit'] as number }),
+            ...(args['cursor'] !== undefined && { cursor: args['cursor'] as string }),
+            ...(args['sessionId'] !== undefined && { sessionId: args['sessionId'] as string }),
+            ...(toolUseId && { toolUseId }),
+          };
+          const result = await handleAnalyzeBashFailures(params);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to analyze Bash failures: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
       throw new McpError(ErrorCode.MethodNotFound, `Tool not found: ${request.params.name}`);
+    };
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        return this.redactResponse(await callTool(request));
+      } catch (error) {
+        this.redactError(error);
+      }
+    });
+
+    // Register resource handlers
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return await handleListResources();
     });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return await handleListResourceTemplates();
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return this.redactResponse(await handleReadResource(request.params.uri));
+      } catch (error) {
+        this.redactError(
+          new McpError(
+            ErrorCode.InternalError,
+            `Failed to read resource: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+      }
+    });
+
+    // Register prompt handlers
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return await handleListPrompts();
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const toolUseId = request.params._meta?.['claudecode/toolUseId'] as string | undefined;
+
+      try {
+        return this.redactResponse(
+          await handleGetPrompt(request.params.name, request.params.arguments ?? {}, toolUseId)
+        );
+      } catch (error) {
+        this.redactError(
+          new McpError(
+            ErrorCode.InternalError,
+            `Failed to get prompt: ${error instanceof Error ? error.message : 'Unknown error'}`
+          )
+        );
+      }
+    });
+  }
+
+  /**
+   * Masks secrets in a response unless redaction is turned off, reporting
+   * the number of masked values in `_meta`
+   */
+  private redactResponse<T extends Result>(response: T): T {
+    if (!getConfig().redactSecrets) {
+      return response;
+    }
+
+    const { value, redactedCount } = redactSecrets(response);
+    return { ...value, _meta: { ...value._meta, [REDACTED_COUNT_META_KEY]: redactedCount } };
+  }
+
+  /**
+   * Rethrows an error with the secrets in its message masked, unless
+   * redaction is turned off. Handler errors can echo arguments and command
+   * text back to the client.
+   */
+  private redactError(error: unknown): never {
+    if (error instanceof Error && getConfig().redactSecrets) {
+      error.message = redactText(error.message, getRedactionRules()).value;
+    }
+    throw error;
   }
 
   getServer(): Server {
@@ -325,15 +1160,32 @@ export class MCPServer {
     } as InitializeResult;
   }
 
-  async start(): Promise<void> {
+  async start(options: StartOptions = {}): Promise<void> {
+    if (options.transport === 'http') {
+      this.httpTransport = await startHttpTransport(() => this.createSdkServer(), options.http);
+      console.error(`[claude-ops-mcp] Streamable HTTP transport listening on ${this.httpTransport.url}`);
+      return;
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
   }
 
   async stop(): Promise<void> {
+    if (this.httpTransport) {
+      await this.httpTransport.close();
+      this.httpTransport = null;
+    }
     await this.server.close();
   }
 
+  /**
+   * Returns the MCP endpoint URL when serving over HTTP, otherwise null
+   */
+  getHttpUrl(): string | null {
+    return this.httpTransport?.url ?? null;
+  }
+
   private async identifyCurrentSession(): Promise<void> {
     try {
       // Get current working directory from process
@@ -1,3 +1,5 @@
+import { getConfig } from './config';
+
 export interface SessionInfo {
   sessionFile: string;
   projectHash: string;
@@ -21,8 +23,7 @@ export class SessionCache {
   private hits: number;
   private misses: number;
 
-  constructor(ttlMs: number = 15 * 60 * 1000) {
-    // Default TTL: 15 minutes
+  constructor(ttlMs: number = getConfig().sessionCacheTtlMs) {
     this.cache = new Map();
     this.ttlMs = ttlMs;
     this.hits = 0;
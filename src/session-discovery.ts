@@ -1,11 +1,25 @@
 import * as fs from 'fs/promises';
 import { createReadStream } from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import * as readline from 'readline';
 import { SessionCache } from './session-cache';
+import { getConfig } from './config';
 import type { SessionInfo, CacheStats } from './session-cache';
 
+/**
+ * Session IDs are UUIDs (file names of the session JSONL files). Only
+ * letters, digits and hyphens are accepted so an ID cannot escape the
+ * projects directory.
+ */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/**
+ * Whether a string can be a session ID
+ */
+export function isValidSessionId(sessionId: string): boolean {
+  return SESSION_ID_PATTERN.test(sessionId);
+}
+
 export class SessionDiscovery {
   private claudeProjectsPath: string;
   private cache: SessionCache;
@@ -13,15 +27,12 @@ export class SessionDiscovery {
   constructor(cacheTTLMs?: number) {
     this.claudeProjectsPath = this.getClaudeProjectsPath();
 
-    // Use provided TTL, environment variable, or default
-    const ttl = cacheTTLMs ??
-                (process.env['CLAUDE_OPS_CACHE_TTL_MS'] ? parseInt(process.env['CLAUDE_OPS_CACHE_TTL_MS'], 10) : undefined);
-
-    this.cache = new SessionCache(ttl);
+    // Use provided TTL or the configured one
+    this.cache = new SessionCache(cacheTTLMs ?? getConfig().sessionCacheTtlMs);
   }
 
   getClaudeProjectsPath(): string {
-    return path.join(os.homedir(), '.claude', 'projects');
+    return getConfig().projectsPath;
   }
 
   parseSessionId(filename: string): string | null {
@@ -161,6 +172,96 @@ export class SessionDiscovery {
     return null;
   }
 
+  async findSessionById(sessionId: string): Promise<SessionInfo | null> {
+    if (!isValidSessionId(sessionId)) {
+      return null;
+    }
+
+    // Check cache first (use sessionId as cache key)
+    const cachedSession = this.cache.get(sessionId);
+    if (cachedSession) {
+      return cachedSession;
+    }
+
+    try {
+      const projectDirents = await fs.readdir(this.claudeProjectsPath, { withFileTypes: true });
+
+      for (const dirent of projectDirents) {
+        if (!dirent.isDirectory()) {
+          continue;
+        }
+
+        const projectHash = dirent.name;
+        const sessionFilePath = path.join(this.claudeProjectsPath, projectHash, `${sessionId}.jsonl`);
+
+        try {
+          await fs.access(sessionFilePath);
+        } catch {
+          // Not in this project
+          continue;
+        }
+
+        const sessionInfo: SessionInfo = {
+          sessionFile: sessionFilePath,
+          projectHash,
+          sessionId,
+        };
+        this.cache.set(sessionId, sessionInfo);
+        return sessionInfo;
+      }
+
+      return null;
+    } catch (error) {
+      // Handle missing .claude directory or other errors
+      return null;
+    }
+  }
+
+  async listSessionFiles(): Promise<SessionInfo[]> {
+    const sessions: SessionInfo[] = [];
+
+    let projectDirents;
+    try {
+      projectDirents = await fs.readdir(this.claudeProjectsPath, { withFileTypes: true });
+    } catch (error) {
+      // Handle missing .claude directory or other errors
+      return sessions;
+    }
+
+    for (const dirent of projectDirents) {
+      if (!dirent.isDirectory()) {
+        continue;
+      }
+
+      const projectHash = dirent.name;
+      const projectPath = path.join(this.claudeProjectsPath, projectHash);
+
+      try {
+        const fileDirents = await fs.readdir(projectPath, { withFileTypes: true });
+
+        for (const fileDirent of fileDirents) {
+          if (!fileDirent.isFile()) {
+            continue;
+          }
+
+          const sessionId = this.parseSessionId(fileDirent.name);
+          if (sessionId) {
+            sessions.push({
+              sessionFile: path.join(projectPath, fileDirent.name),
+              projectHash,
+              sessionId,
+            });
+          }
+        }
+      } catch (projectError) {
+        // Skip inaccessible project directories
+        continue;
+      }
+    }
+
+    return sessions;
+  }
+
   getCacheStats(): CacheStats {
     return this.cache.getStats();
   }
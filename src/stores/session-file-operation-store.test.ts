@@ -0,0 +1,302 @@
+import { SessionFileOperationStore } from './session-file-operation-store';
+import { handleShowOperationDiff } from '../handlers/show-operation-diff';
+import { showOperationDiff } from '../operation-diff';
+import { ChangeType } from '../types/operation-index';
+import { UIDManager } from '../uid-manager';
+import { _setTestWorkspaceRoot } from '../utils/workspace-utils';
+import { toolResult, toolUse, writeSessionFile } from '../__tests__/helpers/session-fixtures';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('SessionFileOperationStore', () => {
+  let workspaceRoot: string;
+  let sessionFile: string;
+  let store: SessionFileOperationStore;
+
+  beforeEach(() => {
+    workspaceRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'op-store-')));
+    sessionFile = path.join(workspaceRoot, '.session.jsonl');
+    _setTestWorkspaceRoot(workspaceRoot);
+    store = new SessionFileOperationStore(sessionFile);
+  });
+
+  afterEach(() => {
+    _setTestWorkspaceRoot(undefined);
+    UIDManager.setCachedSessionFile('');
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('should build an EditDiff from the recorded original file', async () => {
+    const filePath = path.join(workspaceRoot, 'app.ts');
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_edit', 'Edit', { file_path: filePath, old_string: 'a = 1', new_string: 'a = 2' }),
+      toolResult('toolu_edit', { filePath, originalFile: 'const a = 1;\n' }),
+    ]);
+
+    const result = await store.getOperationDiff('toolu_edit');
+
+    expect(result).toMatchObject({
+      operationId: 'toolu_edit',
+      tool: 'Edit',
+      filePath,
+      changeType: ChangeType.UPDATE,
+    });
+    expect(result.diff).toMatchObject({
+      tool: 'Edit',
+      oldString: 'a = 1',
+      newString: 'a = 2',
+      replaceAll: false,
+      unifiedDiff: { oldVersion: 'const a = 1;\n', newVersion: 'const a = 2;\n' },
+    });
+    if (result.diff?.tool === 'Edit') {
+      expect(result.diff.unifiedDiff.diffText).toContain('+const a = 2;');
+    }
+  });
+
+  it('should build a MultiEditDiff applying every edit', async () => {
+    const filePath = path.join(workspaceRoot, 'app.ts');
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_multi', 'MultiEdit', {
+        file_path: filePath,
+        edits: [
+          { old_string: 'a', new_string: 'b' },
+          { old_string: 'x', new_string: 'y', replace_all: true },
+        ],
+      }),
+      toolResult('toolu_multi', { filePath, originalFileContents: 'a x x\n' }),
+    ]);
+
+    const result = await store.getOperationDiff('toolu_multi');
+
+    expect(result.diff?.tool).toBe('MultiEdit');
+    if (result.diff?.tool === 'MultiEdit') {
+      expect(result.diff.edits).toHaveLength(2);
+      expect(result.diff.unifiedDiff.newVersion).toBe('b y y\n');
+    }
+  });
+
+  it('should distinguish created and overwritten files for Write', async () => {
+    const created = path.join(workspaceRoot, 'new.ts');
+    const updated = path.join(workspaceRoot, 'old.ts');
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_create', 'Write', { file_path: created, content: 'new\n' }),
+      toolResult('toolu_create', { type: 'create', filePath: created, content: 'new\n', originalFile: null }),
+      toolUse('toolu_update', 'Write', { file_path: updated, content: 'after\n' }),
+      toolResult('toolu_update', { type: 'update', filePath: updated, content: 'after\n', originalFile: 'before\n' }),
+    ]);
+
+    const createDiff = await store.getOperationDiff('toolu_create');
+    const updateDiff = await store.getOperationDiff('toolu_update');
+
+    expect(createDiff.changeType).toBe(ChangeType.CREATE);
+    expect(createDiff.diff).toMatchObject({ tool: 'Write', isNewFile: true, newContent: 'new\n' });
+    expect(updateDiff.changeType).toBe(ChangeType.UPDATE);
+    expect(updateDiff.diff).toMatchObject({ tool: 'Write', isNewFile: false, previousContent: 'before\n' });
+  });
+
+  it('should build a BashDiff from the recorded output', async () => {
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_bash', 'Bash', { command: 'npm test' }),
+      toolResult('toolu_bash', { stdout: '', stderr: 'Tests failed' }, { isError: true }),
+    ]);
+
+    const result = await store.getOperationDiff('toolu_bash');
+
+    expect(result.diff).toMatchObject({
+      tool: 'Bash',
+      command: 'npm test',
+      stderr: 'Tests failed',
+      exitCode: 1,
+    });
+  });
+
+  it('should report workspace files inferred from the Bash command as affected', async () => {
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_bash', 'Bash', { command: 'mv draft.md docs/guide.md && rm -f /etc/motd' }, { cwd: workspaceRoot }),
+      toolResult('toolu_bash', { stdout: '', stderr: '' }),
+    ]);
+
+    const result = await store.getOperationDiff('toolu_bash');
+
+    expect(result.diff).toMatchObject({
+      tool: 'Bash',
+      affectedFiles: [
+        { filePath: path.join(workspaceRoot, 'draft.md'), changeType: ChangeType.DELETE, inferred: true, confidence: 'high' },
+        { filePath: path.join(workspaceRoot, 'docs/guide.md'), changeType: ChangeType.CREATE, inferred: true, confidence: 'high' },
+      ],
+    });
+    if (result.diff?.tool === 'Bash') {
+      expect(result.diff.affectedFiles).toHaveLength(2);
+    }
+  });
+
+  it('should build a ReadDiff with the line range of partial reads', async () => {
+    const filePath = path.join(workspaceRoot, 'app.ts');
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_read', 'Read', { file_path: filePath, offset: 10, limit: 2 }),
+      toolResult('toolu_read', {
+        type: 'text',
+        file: { filePath, content: 'line 10\nline 11', startLine: 10, numLines: 2, totalLines: 20 },
+      }),
+    ]);
+
+    const result = await store.getOperationDiff('toolu_read');
+
+    expect(result.diff).toMatchObject({
+      tool: 'Read',
+      content: 'line 10\nline 11',
+      linesRead: 2,
+      startLine: 10,
+      endLine: 11,
+    });
+  });
+
+  it('should build a NotebookEditDiff for the edited cell', async () => {
+    const notebook = path.join(workspaceRoot, 'analysis.ipynb');
+    const originalFile = JSON.stringify({
+      cells: [
+        { id: 'intro', cell_type: 'markdown', source: ['# Analysis\n'] },
+        { id: 'load', cell_type: 'code', source: ['import pandas as pd\n', 'df = pd.read_csv("a.csv")'] },
+      ],
+    });
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_replace', 'NotebookEdit', {
+        notebook_path: notebook,
+        cell_id: 'load',
+        new_source: 'import pandas as pd\ndf = pd.read_csv("b.csv")',
+      }),
+      toolResult('toolu_replace', { cell_type: 'code', edit_mode: 'replace', original_file: originalFile }),
+      toolUse('toolu_insert', 'NotebookEdit', {
+        notebook_path: notebook,
+        cell_id: 'intro',
+        cell_type: 'markdown',
+        edit_mode: 'insert',
+        new_source: '## Data',
+      }),
+      toolResult('toolu_insert', { cell_type: 'markdown', edit_mode: 'insert' }),
+      toolUse('toolu_delete', 'NotebookEdit', { notebook_path: notebook, cell_id: 'cell-0', edit_mode: 'delete' }),
+      toolResult('toolu_delete', { edit_mode: 'delete', original_file: originalFile }),
+    ]);
+
+    const replaced = await store.getOperationDiff('toolu_replace');
+    const inserted = await store.getOperationDiff('toolu_insert');
+    const deleted = await store.getOperationDiff('toolu_delete');
+
+    expect(replaced).toMatchObject({ tool: 'NotebookEdit', filePath: notebook, changeType: ChangeType.UPDATE });
+    expect(replaced.diff).toMatchObject({
+      tool: 'NotebookEdit',
+      cellId: 'load',
+      cellType: 'code',
+      editMode: 'replace',
+      oldSource: 'import pandas as pd\ndf = pd.read_csv("a.csv")',
+    });
+    if (replaced.diff?.tool === 'NotebookEdit') {
+      expect(replaced.diff.unifiedDiff?.diffText).toContain('+df = pd.read_csv("b.csv")');
+    }
+    expect(inserted.diff).toMatchObject({ editMode: 'insert', cellType: 'markdown', newSource: '## Data' });
+    expect(inserted.diff).not.toHaveProperty('oldSource');
+    expect(deleted.diff).toMatchObject({ editMode: 'delete', oldSource: '# Analysis\n', newSource: '' });
+  });
+
+  it('should render notebook cell details in showOperationDiff', async () => {
+    const notebook = path.join(workspaceRoot, 'analysis.ipynb');
+    UIDManager.setCachedSessionFile(sessionFile);
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_insert', 'NotebookEdit', {
+        notebook_path: notebook,
+        cell_type: 'code',
+        edit_mode: 'insert',
+        new_source: 'print(1)',
+      }),
+      toolResult('toolu_insert', { cell_type: 'code', edit_mode: 'insert' }),
+    ]);
+
+    const result = await handleShowOperationDiff({ id: 'toolu_insert' });
+
+    expect(result.filePath).toBe(notebook);
+    expect(result.notebook).toEqual({ cellType: 'code', editMode: 'insert' });
+    expect(result.diff?.newString).toBe('print(1)');
+    expect(result.diff?.unified).toContain('+print(1)');
+  });
+
+  it('should diff the replaced text alone when the original file was not recorded', async () => {
+    const filePath = path.join(workspaceRoot, 'app.ts');
+    UIDManager.setCachedSessionFile(sessionFile);
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_edit', 'Edit', { file_path: filePath, old_string: 'const a = 1;', new_string: 'const a = 2;' }),
+      toolResult('toolu_edit', { filePath }),
+      toolUse('toolu_multi', 'MultiEdit', {
+        file_path: filePath,
+        edits: [
+          { old_string: 'a', new_string: 'b' },
+          { old_string: 'x', new_string: 'y' },
+        ],
+      }),
+      toolResult('toolu_multi', { filePath }),
+    ]);
+
+    const edit = await store.getOperationDiff('toolu_edit');
+    const multi = await store.getOperationDiff('toolu_multi');
+
+    expect(edit.diff).toMatchObject({
+      tool: 'Edit',
+      unifiedDiff: { oldVersion: 'const a = 1;', newVersion: 'const a = 2;' },
+    });
+    expect(multi.diff).toMatchObject({ tool: 'MultiEdit', unifiedDiff: { oldVersion: 'a\nx', newVersion: 'b\ny' } });
+    await expect(handleShowOperationDiff({ id: 'toolu_edit' })).resolves.toMatchObject({
+      diff: { oldString: 'const a = 1;', newString: 'const a = 2;', unified: expect.stringContaining('+const a = 2;') },
+    });
+  });
+
+  it('should return the metadata without a diff for failed or pending edits', async () => {
+    const filePath = path.join(workspaceRoot, 'app.ts');
+    UIDManager.setCachedSessionFile(sessionFile);
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_failed', 'Edit', { file_path: filePath, old_string: 'a', new_string: 'b' }),
+      toolResult('toolu_failed', {}, { isError: true }),
+      toolUse('toolu_pending', 'MultiEdit', { file_path: filePath, edits: [{ old_string: 'a', new_string: 'b' }] }),
+    ]);
+
+    const failed = await store.getOperationDiff('toolu_failed');
+    const pending = await store.getOperationDiff('toolu_pending');
+
+    expect(failed).toMatchObject({ operationId: 'toolu_failed', tool: 'Edit', filePath });
+    expect(failed.diff).toBeUndefined();
+    expect(pending).toMatchObject({ operationId: 'toolu_pending', tool: 'MultiEdit', filePath });
+    expect(pending.diff).toBeUndefined();
+    await expect(handleShowOperationDiff({ id: 'toolu_failed' })).resolves.toEqual({
+      id: 'toolu_failed',
+      timestamp: '2024-01-01T10:00:00.000Z',
+      tool: 'Edit',
+      filePath,
+    });
+  });
+
+  it('should reject tools without diffs', async () => {
+    writeSessionFile(sessionFile, [toolUse('toolu_grep', 'Grep', { pattern: 'TODO' })]);
+
+    await expect(store.getOperation('toolu_grep')).resolves.toMatchObject({ tool: 'Grep' });
+    await expect(store.getOperationDiff('toolu_grep')).rejects.toThrow('Diff not supported for tool: Grep');
+  });
+
+  it('should report whether an operation exists', async () => {
+    writeSessionFile(sessionFile, [toolUse('toolu_bash', 'Bash', { command: 'ls' })]);
+
+    await expect(store.operationExists('toolu_bash')).resolves.toBe(true);
+    await expect(store.operationExists('toolu_missing')).resolves.toBe(false);
+    await expect(store.getOperation('toolu_missing')).rejects.toThrow('not found');
+  });
+
+  it('should back the library showOperationDiff with the current session file', async () => {
+    UIDManager.setCachedSessionFile(sessionFile);
+    writeSessionFile(sessionFile, [
+      toolUse('toolu_bash', 'Bash', { command: 'ls' }),
+      toolResult('toolu_bash', { stdout: 'app.ts', stderr: '' }),
+    ]);
+
+    const result = await showOperationDiff('toolu_bash');
+
+    expect(result.diff).toMatchObject({ tool: 'Bash', stdout: 'app.ts', exitCode: 0 });
+  });
+});
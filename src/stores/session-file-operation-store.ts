@@ -0,0 +1,233 @@
+/**
+ * Session File Operation Store
+ *
+ * OperationStore backed by a Claude Code session JSONL file. Diffs are built
+ * through the diff generators from the tool input and the structured tool
+ * result (`toolUseResult`) that Claude Code records for each call.
+ */
+
+import type { NotebookEditMode, OperationDiff, OperationIndex, ToolDiff } from '../types/operation-index';
+import type { OperationStore } from '../types/operation-store';
+import { SessionIndex, getBashExitCode, getBashOutput } from '../parsers/session-index';
+import type { ToolCallRecord } from '../parsers/session-index';
+import { resolveSessionFile } from '../utils/session-utils';
+import { isWithinWorkspace } from '../utils/workspace-utils';
+import { analyzeBashCommand } from '../parsers/bash-command-analyzer';
+import {
+  generateEditDiff,
+  generateWriteDiff,
+  generateReadDiff,
+  generateMultiEditDiff,
+  generateBashDiff,
+  generateNotebookEditDiff,
+} from '../diff-generators/index';
+
+/**
+ * Tools for which getOperationDiff can build a diff
+ */
+export const DIFF_SUPPORTED_TOOLS: ReadonlySet<string> = new Set([
+  'Edit',
+  'Write',
+  'MultiEdit',
+  'Bash',
+  'Read',
+  'NotebookEdit',
+]);
+
+function requireString(value: unknown, description: string, id: string): string {
+  if (typeof value !== 'string') {
+    throw new Error(`Operation "${id}" has no recorded ${description}`);
+  }
+  return value;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Finds the source of a cell in the notebook JSON recorded before the edit.
+ * Cells are matched by ID, or by position for `cell-N` IDs of notebooks
+ * whose cells have no IDs.
+ */
+function findCellSource(notebookJson: unknown, cellId: string | undefined): string | undefined {
+  if (typeof notebookJson !== 'string' || cellId === undefined) {
+    return undefined;
+  }
+
+  let cells: unknown;
+  try {
+    cells = (JSON.parse(notebookJson) as Record<string, unknown>)['cells'];
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(cells)) {
+    return undefined;
+  }
+
+  const position = /^cell-(\d+)$/.exec(cellId);
+  const cell = (cells as Array<Record<string, unknown>>).find(c => c['id'] === cellId) ??
+    (position ? (cells[Number(position[1])] as Record<string, unknown> | undefined) : undefined);
+  const source = cell?.['source'];
+
+  if (Array.isArray(source)) {
+    return source.join('');
+  }
+  return optionalString(source);
+}
+
+/**
+ * Operation store reading operations from a Claude Code session file
+ */
+export class SessionFileOperationStore implements OperationStore {
+  /**
+   * @param sessionFile - Session JSONL file to read. When omitted, the current
+   *   session file is resolved on each call (cached session or toolUseId discovery).
+   * @param toolUseId - Tool use ID from Claude Code, used to discover the session file
+   */
+  constructor(
+    private readonly sessionFile?: string,
+    private readonly toolUseId?: string
+  ) {}
+
+  async getOperation(id: string): Promise<OperationIndex> {
+    return (await this.getToolCall(id)).operation;
+  }
+
+  async getOperationDiff(id: string): Promise<OperationDiff> {
+    const call = await this.getToolCall(id);
+    const { operation } = call;
+
+    const result: OperationDiff = {
+      operationId: operation.id,
+      timestamp: operation.timestamp,
+      tool: operation.tool,
+      summary: operation.summary,
+      changeType: operation.changeType,
+    };
+
+    if (operation.filePath) {
+      result.filePath = operation.filePath;
+    }
+
+    if (!DIFF_SUPPORTED_TOOLS.has(call.name)) {
+      throw new Error(`Diff not supported for tool: ${call.name}`);
+    }
+
+    // Failed file operations changed nothing, and pending ones have not
+    // recorded the content the diff is built from. Failed commands still
+    // have output to show.
+    if (call.name !== 'Bash' && (call.isError || !call.hasResult)) {
+      return result;
+    }
+
+    result.diff = await this.buildDiff(call, operation.filePath);
+
+    return result;
+  }
+
+  async operationExists(id: string): Promise<boolean> {
+    return (await this.loadIndex()).get(id) !== undefined;
+  }
+
+  private async loadIndex(): Promise<SessionIndex> {
+    return SessionIndex.load(this.sessionFile ?? (await resolveSessionFile(this.toolUseId)));
+  }
+
+  private async getToolCall(id: string): Promise<ToolCallRecord> {
+    const call = (await this.loadIndex()).get(id);
+    if (!call) {
+      throw new Error(`Operation with ID "${id}" not found`);
+    }
+    return call;
+  }
+
+  private async buildDiff(call: ToolCallRecord, filePath: string | undefined): Promise<ToolDiff> {
+    const { id, input } = call;
+    const result = call.result ?? {};
+
+    if (call.name === 'Bash') {
+      const command = requireString(input['command'], 'command', id);
+      const exitCode = getBashExitCode(call);
+      const { stdout, stderr } = getBashOutput(call);
+      // Only files inside the workspace can be reported as affected
+      const effects = analyzeBashCommand(command, { ...(call.cwd && { cwd: call.cwd }), exitCode }).filter(
+        effect => isWithinWorkspace(effect.filePath)
+      );
+      return generateBashDiff(command, stdout, stderr, exitCode, effects);
+    }
+
+    const file = requireString(filePath, 'file path', id);
+
+    switch (call.name) {
+      case 'Edit': {
+        const oldString = requireString(input['old_string'], 'old_string', id);
+        // Older logs do not record the original file; diff the replaced text alone
+        return generateEditDiff(
+          file,
+          optionalString(result['originalFile']) ?? oldString,
+          oldString,
+          requireString(input['new_string'], 'new_string', id),
+          input['replace_all'] === true
+        );
+      }
+
+      case 'MultiEdit': {
+        const edits = (Array.isArray(input['edits']) ? (input['edits'] as Array<Record<string, unknown>>) : []).map(
+          edit => ({
+            oldString: requireString(edit['old_string'], 'old_string', id),
+            newString: requireString(edit['new_string'], 'new_string', id),
+            replaceAll: edit['replace_all'] === true,
+          })
+        );
+        return generateMultiEditDiff(
+          file,
+          optionalString(result['originalFileContents'] ?? result['originalFile']) ??
+            edits.map(edit => edit.oldString).join('\n'),
+          edits
+        );
+      }
+
+      case 'Write': {
+        const isNewFile = result['type'] === 'create' || typeof result['originalFile'] !== 'string';
+        return generateWriteDiff(
+          file,
+          isNewFile ? undefined : (result['originalFile'] as string),
+          requireString(input['content'], 'content', id)
+        );
+      }
+
+      case 'NotebookEdit': {
+        const editMode = (optionalString(input['edit_mode']) ?? 'replace') as NotebookEditMode;
+        const cellId = optionalString(input['cell_id']);
+        const cellType = input['cell_type'] ?? result['cell_type'];
+        return generateNotebookEditDiff(
+          file,
+          editMode === 'delete' ? '' : requireString(input['new_source'], 'new_source', id),
+          editMode,
+          cellId,
+          cellType === 'code' || cellType === 'markdown' ? cellType : undefined,
+          findCellSource(result['original_file'], cellId)
+        );
+      }
+
+      default: {
+        // Read
+        const readFile = (result['file'] ?? {}) as Record<string, unknown>;
+        const content = requireString(readFile['content'], 'file content', id);
+        const startLine = optionalNumber(readFile['startLine']);
+        const numLines = optionalNumber(readFile['numLines']);
+        const isPartial = input['offset'] !== undefined || input['limit'] !== undefined;
+
+        if (isPartial && startLine !== undefined && numLines !== undefined && numLines > 0) {
+          return generateReadDiff(file, content, startLine - 1, numLines, numLines);
+        }
+        return generateReadDiff(file, content, undefined, undefined, numLines);
+      }
+    }
+  }
+}
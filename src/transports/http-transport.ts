@@ -0,0 +1,201 @@
+/**
+ * Streamable HTTP transport host
+ *
+ * Serves the MCP Streamable HTTP transport on localhost so several clients
+ * (inspector, scripts, dashboards) can share one server process. Each client
+ * gets its own MCP session ID and its own SDK Server instance.
+ */
+
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Options for the HTTP transport
+ */
+export interface HttpTransportOptions {
+  /**
+   * Port to listen on. Use 0 to pick a free port.
+   * @default 3100
+   */
+  port?: number;
+
+  /**
+   * Host to bind to. Only loopback addresses are accepted.
+   * @default '127.0.0.1'
+   */
+  host?: string;
+
+  /**
+   * URL path of the MCP endpoint
+   * @default '/mcp'
+   */
+  path?: string;
+}
+
+/**
+ * A running HTTP transport host
+ */
+export interface HttpTransportHandle {
+  /**
+   * Full URL of the MCP endpoint, e.g. http://127.0.0.1:3100/mcp
+   */
+  url: string;
+
+  /**
+   * Number of open MCP sessions
+   */
+  getSessionCount(): number;
+
+  /**
+   * Closes every session and stops listening
+   */
+  close(): Promise<void>;
+}
+
+export const DEFAULT_HTTP_PORT = 3100;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+const DEFAULT_HTTP_PATH = '/mcp';
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(
+    JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const body = Buffer.concat(chunks).toString('utf-8');
+  return body ? JSON.parse(body) : undefined;
+}
+
+/**
+ * Starts serving MCP over Streamable HTTP on a loopback address
+ *
+ * @param createServer - Factory creating a fully configured SDK Server for each client session
+ * @param options - Port, host and endpoint path
+ * @returns Handle with the endpoint URL and a close function
+ * @throws Error if the host is not a loopback address
+ */
+export async function startHttpTransport(
+  createServer: () => Server,
+  options: HttpTransportOptions = {}
+): Promise<HttpTransportHandle> {
+  const host = options.host ?? DEFAULT_HTTP_HOST;
+  const endpointPath = options.path ?? DEFAULT_HTTP_PATH;
+
+  if (!LOOPBACK_HOSTS.has(host)) {
+    throw new Error(`HTTP transport must bind to localhost, got: ${host}`);
+  }
+
+  const sessions = new Map<string, HttpSession>();
+  let allowedHosts: string[] = [];
+
+  const handleRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const requestPath = (req.url ?? '').split('?')[0];
+    if (requestPath !== endpointPath) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch {
+        sendJsonRpcError(res, 400, 'Parse error: invalid JSON');
+        return;
+      }
+    }
+
+    // Existing session
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    // New session: only an initialize request may start one
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId): void => {
+        sessions.set(newSessionId, { transport, server });
+      },
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+    });
+    transport.onclose = (): void => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, `Internal server error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port ?? DEFAULT_HTTP_PORT, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  allowedHosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  const urlHost = host === '::1' ? '[::1]' : host;
+
+  return {
+    url: `http://${urlHost}:${port}${endpointPath}`,
+    getSessionCount: (): number => sessions.size,
+    close: async (): Promise<void> => {
+      for (const session of [...sessions.values()]) {
+        await session.server.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close(error => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -73,7 +73,7 @@ export interface OperationIndex {
 
   /**
    * Tool used to perform the operation.
-   * Common values include: 'Edit', 'Write', 'Read', 'Delete', 'Grep', 'Bash', 'MultiEdit'
+   * Common values include: 'Edit', 'Write', 'Read', 'Delete', 'Grep', 'Bash', 'MultiEdit', 'NotebookEdit'
    */
   tool: string;
 
@@ -96,6 +96,63 @@ export interface OperationIndex {
    * Categorizes the operation's primary effect on the codebase
    */
   changeType: ChangeType;
+
+  /**
+   * UUID of the user prompt (turn) that led to the operation.
+   * Omitted when the session log does not link the operation to a prompt
+   */
+  turnId?: string;
+
+  /**
+   * Subagent (Task tool invocation) that performed the operation.
+   * Omitted for operations of the main agent
+   */
+  agent?: SubagentAttribution;
+
+  /**
+   * True for file changes inferred from a Bash command string rather than
+   * recorded by a file tool. Omitted for recorded operations
+   */
+  inferred?: boolean;
+
+  /**
+   * How certain the inferred change is. Only set when `inferred` is true
+   */
+  confidence?: InferenceConfidence;
+}
+
+/**
+ * Confidence of a file change inferred from a Bash command.
+ *
+ * - high: the command names the file and certainly changes it
+ * - medium: the path may be a directory or was derived (e.g. `mv a.ts src/`)
+ * - low: the command failed, or the path is a glob pattern
+ */
+export type InferenceConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Interface identifying the subagent that performed an operation.
+ *
+ * Subagents are started by the Task tool; their entries are written to the
+ * session log with `isSidechain: true`.
+ */
+export interface SubagentAttribution {
+  /**
+   * ID of the Task tool_use that started the subagent
+   */
+  taskId: string;
+
+  /**
+   * Short description passed to the Task tool
+   * @example "Update migration tests"
+   */
+  description?: string;
+
+  /**
+   * Type of subagent requested from the Task tool
+   * @example "general-purpose"
+   */
+  subagentType?: string;
 }
 
 /**
@@ -291,6 +348,16 @@ export interface BashDiff {
      * Unified diff if the file was modified (undefined for CREATE/DELETE).
      */
     unifiedDiff?: UnifiedDiff;
+
+    /**
+     * True if the change was inferred from the command string.
+     */
+    inferred?: boolean;
+
+    /**
+     * Confidence of an inferred change.
+     */
+    confidence?: InferenceConfidence;
   }>;
 }
 
@@ -326,6 +393,56 @@ export interface ReadDiff {
   endLine?: number;
 }
 
+/**
+ * Edit mode of a NotebookEdit operation.
+ */
+export type NotebookEditMode = 'replace' | 'insert' | 'delete';
+
+/**
+ * Interface for NotebookEdit tool operation differences.
+ *
+ * Captures the change made to a single cell of a Jupyter notebook.
+ */
+export interface NotebookEditDiff {
+  /**
+   * The tool name that generated this diff.
+   */
+  tool: 'NotebookEdit';
+
+  /**
+   * ID of the edited cell. For inserts, the cell after which the new cell was inserted.
+   * Undefined if the cell was inserted at the beginning of the notebook.
+   */
+  cellId?: string;
+
+  /**
+   * Type of the cell.
+   */
+  cellType?: 'code' | 'markdown';
+
+  /**
+   * Whether the cell was replaced, inserted or deleted.
+   */
+  editMode: NotebookEditMode;
+
+  /**
+   * Source of the cell after the edit (empty for deletes).
+   */
+  newSource: string;
+
+  /**
+   * Source of the cell before the edit.
+   * Undefined for inserts, and when the original notebook was not recorded.
+   */
+  oldSource?: string;
+
+  /**
+   * Unified diff of the cell source.
+   * Undefined if the source before the edit is unknown.
+   */
+  unifiedDiff?: UnifiedDiff;
+}
+
 /**
  * Union type representing all possible tool-specific diff formats.
  */
@@ -334,7 +451,8 @@ export type ToolDiff =
   | WriteDiff
   | MultiEditDiff
   | BashDiff
-  | ReadDiff;
+  | ReadDiff
+  | NotebookEditDiff;
 
 /**
  * Interface representing detailed difference information for an operation.
@@ -382,7 +500,7 @@ export interface OperationDiff {
 
   /**
    * Tool used to perform the operation.
-   * Common values include: 'Edit', 'Write', 'Read', 'Delete', 'Grep', 'Bash', 'MultiEdit'
+   * Common values include: 'Edit', 'Write', 'Read', 'Delete', 'Grep', 'Bash', 'MultiEdit', 'NotebookEdit'
    */
   tool: string;
 
@@ -409,6 +527,7 @@ export interface OperationDiff {
   /**
    * Detailed diff information specific to the tool used.
    * Contains tool-specific change details and unified diff representation.
+   * Omitted for file operations that failed or have no recorded result yet.
    */
-  diff: ToolDiff;
+  diff?: ToolDiff;
 }
@@ -0,0 +1,134 @@
+/**
+ * Git utilities
+ *
+ * Thin wrappers around the `git` binary for inspecting a local repository.
+ */
+
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const MAX_OUTPUT_SIZE = 64 * 1024 * 1024;
+
+/**
+ * Error thrown when a git command fails
+ */
+export class GitCommandError extends Error {
+  constructor(
+    message: string,
+    public args: string[],
+    public stderr: string,
+    public gitMissing: boolean = false
+  ) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+/**
+ * Location of a file inside a git repository
+ */
+export interface RepositoryPath {
+  /** Absolute path of the repository root */
+  root: string;
+  /** Path of the file relative to the root, with forward slashes */
+  relativePath: string;
+}
+
+/**
+ * Runs git with the given arguments
+ * @param args - Arguments passed to git
+ * @param cwd - Directory to run git in
+ * @returns stdout of the command
+ * @throws GitCommandError if git is missing or exits with a non-zero code
+ */
+export function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: MAX_OUTPUT_SIZE, encoding: 'utf8' }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve(stdout);
+        return;
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        reject(new GitCommandError('git is not installed or not on PATH', args, stderr, true));
+        return;
+      }
+      reject(new GitCommandError(`git ${args[0] ?? ''} failed: ${stderr.trim() || error.message}`, args, stderr));
+    });
+  });
+}
+
+/**
+ * Runs git, resolving to undefined instead of failing when the command exits
+ * with a non-zero code. Still throws when git itself is missing.
+ */
+async function tryGit(args: string[], cwd: string): Promise<string | undefined> {
+  try {
+    return await runGit(args, cwd);
+  } catch (error) {
+    if (error instanceof GitCommandError && !error.gitMissing) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Finds the git repository containing a file. The file and its directory
+ * may no longer exist (e.g. a deleted file).
+ * @param filePath - Absolute path of the file
+ * @returns Repository root and relative path, or undefined if the file is not in a repository
+ */
+export async function locateInRepository(filePath: string): Promise<RepositoryPath | undefined> {
+  // Resolve symlinks in the part of the path that still exists
+  let existing = path.dirname(filePath);
+  while (!fs.existsSync(existing) && existing !== path.dirname(existing)) {
+    existing = path.dirname(existing);
+  }
+  const resolved = path.join(fs.realpathSync(existing), path.relative(existing, filePath));
+
+  const root = (await tryGit(['rev-parse', '--show-toplevel'], fs.realpathSync(existing)))?.trim();
+  if (!root) {
+    return undefined;
+  }
+
+  const relativePath = path.relative(fs.realpathSync(root), resolved);
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return undefined;
+  }
+  return { root, relativePath: relativePath.split(path.sep).join('/') };
+}
+
+/**
+ * Reads a file from a revision or from the index
+ * @param root - Repository root
+ * @param revision - Revision such as `HEAD` or a commit hash; an empty string reads the index
+ * @param relativePath - Path of the file relative to the repository root
+ * @returns File content, or undefined if the file does not exist there
+ */
+export function showFile(root: string, revision: string, relativePath: string): Promise<string | undefined> {
+  return tryGit(['show', `${revision}:${relativePath}`], root);
+}
+
+/**
+ * Lists commits that changed the number of occurrences of a string in a
+ * file (`git log -S`), oldest first
+ * @returns Commits as `{ hash, date, subject }`
+ */
+export async function findCommitsChangingString(
+  root: string,
+  relativePath: string,
+  text: string
+): Promise<Array<{ hash: string; date: string; subject: string }>> {
+  const output = await tryGit(
+    ['log', '--reverse', '--format=%H%x09%aI%x09%s', `-S${text}`, '--', relativePath],
+    root
+  );
+  return (output ?? '')
+    .split('\n')
+    .filter(line => line !== '')
+    .map(line => {
+      const [hash = '', date = '', ...subject] = line.split('\t');
+      return { hash, date, subject: subject.join('\t') };
+    });
+}
@@ -0,0 +1,33 @@
+import { decodeCursor, encodeCursor, paginate } from './pagination-utils';
+
+describe('pagination-utils', () => {
+  const newest = { id: 'c', timestamp: '2024-01-01T10:03:00.000Z' };
+  const middle = { id: 'b', timestamp: '2024-01-01T10:02:00.000Z' };
+  const oldest = { id: 'a', timestamp: '2024-01-01T10:01:00.000Z' };
+  const items = [newest, middle, oldest];
+  const anchor = (item: { id: string; timestamp: string }): { id: string; timestamp: string } => item;
+
+  it('should round-trip cursors and reject malformed ones', () => {
+    expect(decodeCursor(encodeCursor(newest))).toEqual(newest);
+    expect(() => decodeCursor('%%%')).toThrow('Invalid cursor: %%%');
+    expect(() => decodeCursor(Buffer.from('{"id":1}').toString('base64url'))).toThrow('Invalid cursor');
+  });
+
+  it('should return the page after the anchor item', () => {
+    const first = paginate(items, { limit: 2, order: 'desc' }, anchor);
+    expect(first).toEqual({ items: items.slice(0, 2), hasMore: true, nextCursor: encodeCursor(middle) });
+
+    const second = paginate(items, { limit: 2, order: 'desc', cursor: first.nextCursor ?? '' }, anchor);
+    expect(second).toEqual({ items: items.slice(2), hasMore: false });
+  });
+
+  it('should resume by timestamp when the anchor item is gone', () => {
+    const cursor = encodeCursor(middle);
+
+    expect(paginate([newest, oldest], { limit: 10, order: 'desc', cursor }, anchor).items).toEqual([oldest]);
+    expect(paginate([oldest, newest], { limit: 10, order: 'asc', cursor }, anchor).items).toEqual([newest]);
+    expect(() => paginate([newest, oldest], { limit: 10, order: 'none', cursor }, anchor)).toThrow(
+      'Cursor no longer matches any item'
+    );
+  });
+});
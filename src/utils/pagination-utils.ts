@@ -0,0 +1,124 @@
+/**
+ * Cursor pagination shared by the list-style MCP tool handlers
+ *
+ * A cursor is an opaque token naming the last item of a page by ID and
+ * timestamp. The next page starts after that item, so pages stay stable
+ * while new entries are appended to the session file.
+ */
+
+/**
+ * Item a cursor points at
+ */
+export interface PageAnchor {
+  id: string;
+  timestamp: string;
+}
+
+/**
+ * Timestamp order of the listed items, used to resume when the anchor item
+ * is no longer listed. `none` means the order does not follow timestamps.
+ */
+export type PageOrder = 'asc' | 'desc' | 'none';
+
+/**
+ * One page of a list
+ */
+export interface Page<T> {
+  items: T[];
+
+  /**
+   * Whether there are more items after this page
+   */
+  hasMore: boolean;
+
+  /**
+   * Cursor for the next page, set when hasMore is true
+   */
+  nextCursor?: string;
+}
+
+/**
+ * Encodes a page anchor as an opaque cursor
+ */
+export function encodeCursor(anchor: PageAnchor): string {
+  return Buffer.from(JSON.stringify({ id: anchor.id, ts: anchor.timestamp }), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor returned as `nextCursor`
+ * @throws Error if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): PageAnchor {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof value === 'object' && value !== null) {
+      const { id, ts } = value as Record<string, unknown>;
+      if (typeof id === 'string' && typeof ts === 'string') {
+        return { id, timestamp: ts };
+      }
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Finds where the page after an anchor starts
+ * @returns Index of the first item of the page
+ * @throws Error if the anchor item is gone and the order cannot locate it
+ */
+function findPageStart<T>(
+  items: readonly T[],
+  anchor: PageAnchor,
+  order: PageOrder,
+  getAnchor: (item: T) => PageAnchor
+): number {
+  const position = items.findIndex(item => {
+    const candidate = getAnchor(item);
+    return candidate.id === anchor.id && candidate.timestamp === anchor.timestamp;
+  });
+  if (position !== -1) {
+    return position + 1;
+  }
+
+  if (order === 'none') {
+    throw new Error('Cursor no longer matches any item; list again without a cursor');
+  }
+
+  // Resume at the first item past the anchor's timestamp
+  const anchorTime = new Date(anchor.timestamp).getTime();
+  const start = items.findIndex(item => {
+    const time = new Date(getAnchor(item).timestamp).getTime();
+    return order === 'asc' ? time > anchorTime : time < anchorTime;
+  });
+  return start === -1 ? items.length : start;
+}
+
+/**
+ * Takes the page of items after a cursor
+ *
+ * @param items - All items, in the order they are listed
+ * @param options - Page size, cursor from a previous page, and the item order
+ * @param getAnchor - ID and timestamp identifying an item
+ * @returns The page and the cursor of the next one
+ * @throws Error if the cursor is invalid
+ */
+export function paginate<T>(
+  items: readonly T[],
+  options: { limit: number; cursor?: string; order: PageOrder },
+  getAnchor: (item: T) => PageAnchor
+): Page<T> {
+  const start = options.cursor
+    ? findPageStart(items, decodeCursor(options.cursor), options.order, getAnchor)
+    : 0;
+  const pageItems = items.slice(start, start + options.limit);
+  const hasMore = start + options.limit < items.length;
+  const last = pageItems[pageItems.length - 1];
+
+  return {
+    items: pageItems,
+    hasMore,
+    ...(hasMore && last !== undefined && { nextCursor: encodeCursor(getAnchor(last)) }),
+  };
+}
@@ -6,11 +6,7 @@
  */
 
 import { createTwoFilesPatch } from 'diff';
-
-/**
- * Maximum content size for full diff generation (1MB)
- */
-const MAX_FULL_DIFF_SIZE = 1024 * 1024;
+import { getConfig } from '../config';
 
 /**
  * Maximum lines to show in truncated diff (reserved for future use)
@@ -31,8 +27,11 @@ export function generateOptimizedDiff(
   oldHeader: string,
   newHeader: string
 ): string {
+  // Maximum content size for full diff generation (1MB by default)
+  const maxFullDiffSize = getConfig().maxFullDiffSize;
+
   // For small files, use standard diff generation
-  if (oldContent.length + newContent.length < MAX_FULL_DIFF_SIZE) {
+  if (oldContent.length + newContent.length < maxFullDiffSize) {
     return createTwoFilesPatch(
       oldPath,
       newPath,
@@ -103,12 +102,13 @@ function createSummaryDiff(
   }
 
   // For medium files, show truncated diff
+  const maxFullDiffSize = getConfig().maxFullDiffSize;
   return (
     createTwoFilesPatch(
       oldPath,
       newPath,
-      oldContent.substring(0, MAX_FULL_DIFF_SIZE / 2),
-      newContent.substring(0, MAX_FULL_DIFF_SIZE / 2),
+      oldContent.substring(0, maxFullDiffSize / 2),
+      newContent.substring(0, maxFullDiffSize / 2),
       oldHeader,
       newHeader
     ) + '\n// ... content truncated for performance'
@@ -0,0 +1,76 @@
+/**
+ * Session file utilities shared by the MCP tool handlers
+ *
+ * Provides session file resolution (cached file, toolUseId or session ID discovery).
+ * Tool calls are read through SessionIndex (parsers/session-index).
+ */
+
+import * as path from 'path';
+import { SessionDiscovery, isValidSessionId } from '../session-discovery';
+import { UIDManager } from '../uid-manager';
+
+/**
+ * Resolves the session file for the current Claude Code session.
+ * Uses the cached session file when available, otherwise discovers it
+ * through the toolUseId passed by Claude Code and caches the result.
+ *
+ * @param toolUseId - Tool use ID from Claude Code (for session identification)
+ * @returns Absolute path to the session JSONL file
+ * @throws Error if the session file cannot be identified
+ */
+export async function resolveSessionFile(toolUseId?: string): Promise<string> {
+  // Try to get cached session file first
+  const cachedSessionFile = UIDManager.getCachedSessionFile();
+  if (cachedSessionFile) {
+    return cachedSessionFile;
+  }
+
+  // Not cached yet - try to find it using toolUseId
+  if (!toolUseId) {
+    throw new Error('Tool use ID not provided by Claude Code');
+  }
+
+  const sessionDiscovery = new SessionDiscovery();
+  const sessionInfo = await sessionDiscovery.findSessionByToolUseId(toolUseId);
+
+  if (!sessionInfo || !sessionInfo.sessionFile) {
+    throw new Error(`Session file not found for tool use ID: ${toolUseId}`);
+  }
+
+  // Found the session file - cache it for future calls
+  UIDManager.setCachedSessionFile(sessionInfo.sessionFile);
+  return sessionInfo.sessionFile;
+}
+
+/**
+ * Session ID of a session file (its file name without the .jsonl extension)
+ */
+export function getSessionIdFromFile(sessionFile: string): string {
+  return path.basename(sessionFile, '.jsonl');
+}
+
+/**
+ * Resolves a session ID to its session file, preferring the cached current session
+ *
+ * @param sessionId - Session ID (file name of the session JSONL file)
+ * @returns Absolute path to the session JSONL file
+ * @throws Error if the session ID is malformed or no project contains the session
+ */
+export async function resolveSessionFileById(sessionId: string): Promise<string> {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session ID: ${sessionId}`);
+  }
+
+  const cachedSessionFile = UIDManager.getCachedSessionFile();
+  if (cachedSessionFile && getSessionIdFromFile(cachedSessionFile) === sessionId) {
+    return cachedSessionFile;
+  }
+
+  const sessionDiscovery = new SessionDiscovery();
+  const sessionInfo = await sessionDiscovery.findSessionById(sessionId);
+  if (!sessionInfo) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+
+  return sessionInfo.sessionFile;
+}
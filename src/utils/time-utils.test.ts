@@ -0,0 +1,28 @@
+import { getTimeRange, parseTimestamp, toTime } from './time-utils';
+
+describe('time-utils', () => {
+  it('should parse valid timestamps only', () => {
+    expect(toTime('2024-01-01T10:00:00.000Z')).toBe(Date.UTC(2024, 0, 1, 10));
+    expect(toTime('yesterday')).toBeUndefined();
+    expect(toTime(undefined)).toBeUndefined();
+  });
+
+  it('should parse timestamp parameters and reject invalid ones', () => {
+    expect(parseTimestamp('2024-01-01T10:00:00.000Z')).toBe(Date.UTC(2024, 0, 1, 10));
+    expect(parseTimestamp(undefined)).toBeUndefined();
+    expect(() => parseTimestamp('yesterday')).toThrow('Invalid timestamp format: yesterday');
+  });
+
+  it('should return the earliest and latest valid timestamps', () => {
+    expect(
+      getTimeRange(['2024-01-01T10:05:00.000Z', undefined, 'invalid', '2024-01-01T10:00:00.000Z', '2024-01-01T10:01:00.000Z'])
+    ).toEqual({ start: Date.UTC(2024, 0, 1, 10), end: Date.UTC(2024, 0, 1, 10, 5) });
+    expect(getTimeRange([])).toEqual({});
+  });
+
+  it('should handle more timestamps than a function accepts as arguments', () => {
+    const timestamps = Array.from({ length: 200_000 }, (_, i) => new Date(Date.UTC(2024, 0, 1) + i * 1000).toISOString());
+
+    expect(getTimeRange(timestamps)).toEqual({ start: Date.UTC(2024, 0, 1), end: Date.UTC(2024, 0, 1) + 199_999_000 });
+  });
+});
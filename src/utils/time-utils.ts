@@ -0,0 +1,51 @@
+/**
+ * Timestamp utilities shared by the handlers
+ */
+
+/**
+ * Milliseconds since the epoch of an ISO 8601 timestamp
+ * @returns The time, or undefined if the timestamp is missing or invalid
+ */
+export function toTime(timestamp: string | undefined): number | undefined {
+  const time = timestamp ? new Date(timestamp).getTime() : NaN;
+  return isNaN(time) ? undefined : time;
+}
+
+/**
+ * Milliseconds since the epoch of a timestamp parameter
+ * @returns The time, or undefined if the parameter is not set
+ * @throws Error if the timestamp is invalid
+ */
+export function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = toTime(value);
+  if (time === undefined) {
+    throw new Error(`Invalid timestamp format: ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Earliest and latest of the valid timestamps. Computed in one pass rather
+ * than by spreading into Math.min/Math.max, which exceeds the argument
+ * limit for sessions with many entries.
+ */
+export function getTimeRange(timestamps: Iterable<string | undefined>): { start?: number; end?: number } {
+  let start: number | undefined;
+  let end: number | undefined;
+  for (const timestamp of timestamps) {
+    const time = toTime(timestamp);
+    if (time === undefined) {
+      continue;
+    }
+    if (start === undefined || time < start) {
+      start = time;
+    }
+    if (end === undefined || time > end) {
+      end = time;
+    }
+  }
+  return { ...(start !== undefined && { start }), ...(end !== undefined && { end }) };
+}